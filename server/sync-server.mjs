@@ -0,0 +1,186 @@
+// DamFair sync server
+// Relays group changes between devices. It has no dependencies beyond Node itself (18 or later)
+// and keeps everything in one JSON file. For every record it keeps only the newest version, using
+// the same rule as isNewer in src/sync.ts, and hands changes out in the order it accepted them.
+//
+//   npm run sync-server
+//
+// Settings come from the environment:
+//   PORT                  port to listen on (8787)
+//   DAMFAIR_SYNC_DATA     file the data is kept in (damfair-sync-data.json)
+//   DAMFAIR_SYNC_TOKEN    when set, devices must send it as a bearer token
+
+import { createServer } from 'node:http';
+import { readFile, writeFile, rename } from 'node:fs/promises';
+
+const PORT = Number(process.env.PORT) || 8787;
+const DATA_FILE = process.env.DAMFAIR_SYNC_DATA || 'damfair-sync-data.json';
+const TOKEN = process.env.DAMFAIR_SYNC_TOKEN || '';
+
+const MAX_BODY_BYTES = 5_000_000;
+const ENTITY_TYPES = ['group', 'participant', 'expense', 'payment', 'recurringTemplate'];
+const GROUP_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+// Group ids and record keys come from requests, so they are kept in objects without a prototype:
+// an id like "constructor" must not find anything it wasn't given
+const createTable = (entries = {}) => Object.assign(Object.create(null), entries);
+
+// groupId -> { seq, records: { "<entityType>:<entityId>": { seq, change } } }
+const groups = createTable();
+try {
+  const stored = JSON.parse(await readFile(DATA_FILE, 'utf8'));
+  Object.entries(stored).forEach(([groupId, group]) => {
+    groups[groupId] = { seq: group.seq, records: createTable(group.records) };
+  });
+} catch (error) {
+  if (error.code !== 'ENOENT') throw error;
+}
+
+// Writes run one at a time and go through a temporary file, so a crash never leaves half a file
+let saving = Promise.resolve();
+const save = () => {
+  saving = saving
+    .then(async () => {
+      await writeFile(`${DATA_FILE}.tmp`, JSON.stringify(groups));
+      await rename(`${DATA_FILE}.tmp`, DATA_FILE);
+    })
+    .catch(error => console.error('Error saving sync data:', error));
+  return saving;
+};
+
+const isNewer = (version, than) => {
+  return version.updatedAt !== than.updatedAt ? version.updatedAt > than.updatedAt : version.deviceId > than.deviceId;
+};
+
+const isValidChange = (change, groupId) => {
+  return typeof change === 'object' && change !== null &&
+    change.groupId === groupId &&
+    ENTITY_TYPES.includes(change.entityType) &&
+    typeof change.entityId === 'string' && change.entityId !== '' &&
+    Number.isFinite(change.updatedAt) &&
+    typeof change.deviceId === 'string' && change.deviceId !== '' &&
+    typeof change.value === 'object';
+};
+
+const send = (response, status, body) => {
+  response.writeHead(status, {
+    'Content-Type': 'application/json',
+    // The app may be served from anywhere, including a file on disk
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization'
+  });
+  response.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const readBody = async (request) => {
+  const chunks = [];
+  let size = 0;
+  for await (const chunk of request) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) return null;
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+};
+
+const getChanges = (groupId, since) => {
+  const group = groups[groupId];
+  if (!group) return { changes: [], seq: 0 };
+
+  const changes = Object.values(group.records)
+    .filter(record => record.seq > since)
+    .sort((a, b) => a.seq - b.seq)
+    .map(record => record.change);
+  return { changes, seq: group.seq };
+};
+
+const acceptChanges = (groupId, changes) => {
+  const group = groups[groupId] || (groups[groupId] = { seq: 0, records: createTable() });
+
+  changes.forEach(change => {
+    const key = `${change.entityType}:${change.entityId}`;
+    const held = group.records[key];
+    if (!held || isNewer(change, held.change)) {
+      group.seq += 1;
+      group.records[key] = { seq: group.seq, change };
+    }
+  });
+  return { seq: group.seq };
+};
+
+const handleRequest = async (request, response) => {
+  const url = new URL(request.url, 'http://localhost');
+
+  if (request.method === 'OPTIONS') {
+    send(response, 204);
+    return;
+  }
+  if (TOKEN && request.headers.authorization !== `Bearer ${TOKEN}`) {
+    send(response, 401, { error: 'Missing or wrong access token' });
+    return;
+  }
+  // Checked after the token, so that connecting with a wrong one fails straight away
+  if (url.pathname === '/health') {
+    send(response, 200, { ok: true });
+    return;
+  }
+
+  const match = url.pathname.match(/^\/groups\/([^/]+)\/changes$/);
+  const groupId = match && decodeURIComponent(match[1]);
+  if (!groupId || !GROUP_ID_PATTERN.test(groupId)) {
+    send(response, 404, { error: 'Not found' });
+    return;
+  }
+
+  if (request.method === 'GET') {
+    send(response, 200, getChanges(groupId, Number(url.searchParams.get('since')) || 0));
+    return;
+  }
+
+  if (request.method === 'POST') {
+    const body = await readBody(request);
+    if (body === null) {
+      send(response, 413, { error: 'Too many changes at once' });
+      return;
+    }
+
+    let changes;
+    try {
+      ({ changes } = JSON.parse(body));
+    } catch {
+      send(response, 400, { error: 'The body is not valid JSON' });
+      return;
+    }
+    if (!Array.isArray(changes) || !changes.every(change => isValidChange(change, groupId))) {
+      send(response, 400, { error: 'The changes are not in the expected format' });
+      return;
+    }
+
+    const result = acceptChanges(groupId, changes);
+    await save();
+    send(response, 200, result);
+    return;
+  }
+
+  send(response, 405, { error: 'Method not allowed' });
+};
+
+// A failing request, such as an upload that was cut off, must not take the server down
+const server = createServer(async (request, response) => {
+  try {
+    await handleRequest(request, response);
+  } catch (error) {
+    console.error('Error handling request:', error);
+    if (!response.headersSent) {
+      send(response, 500, { error: 'Internal server error' });
+    } else {
+      response.destroy();
+    }
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`DamFair sync server listening on http://localhost:${PORT}`);
+  console.log(`Data is kept in ${DATA_FILE}${TOKEN ? ', and devices need the access token' : ''}`);
+});
@@ -1,68 +1,336 @@
-import { useState, useEffect, useRef } from 'react';
-import type { Participant, Expense } from './types';
-import { STORAGE_KEYS } from './types';
-import { loadParticipants, loadExpenses, clearStorage, saveToStorage } from './utils';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import type {
+  Participant,
+  Expense,
+  Payment,
+  RecurringTemplate,
+  Group,
+  GroupSettings,
+  DateRange,
+  ExpenseFilters,
+  AuditFilter,
+  DataProblem,
+  RestoreMode,
+  RestoreConflictChoice,
+  ImportTarget,
+  AppImport,
+  GroupBackup
+} from './types';
+import {
+  loadGroups,
+  clearStorage,
+  discardProblemData,
+  saveGroup,
+  saveGroupIndex,
+  removeGroupFromStorage,
+  loadActiveGroupId,
+  saveActiveGroupId,
+  createGroup,
+  createDefaultSettings,
+  duplicateGroup,
+  reassignParticipantExpenses,
+  reassignParticipantPayments,
+  reassignParticipantRules,
+  changeBaseCurrency,
+  applyRecurringTemplates,
+  filterByDateRange,
+  readDateRange,
+  readExpenseFilters,
+  writeListStateToUrl,
+  EMPTY_DATE_RANGE,
+  DEFAULT_EXPENSE_FILTERS,
+  DEFAULT_GROUP_NAME
+} from './utils';
+import GroupSwitcher from './components/GroupSwitcher';
 import ParticipantsManager from './components/ParticipantsManager';
 import ExpenseForm from './components/ExpenseForm';
 import ExpenseList from './components/ExpenseList';
 import DebtCalculator from './components/DebtCalculator';
+import CurrencySettings from './components/CurrencySettings';
+import SettlementSettings from './components/SettlementSettings';
+import CategorySettings from './components/CategorySettings';
+import RecurringExpenses from './components/RecurringExpenses';
+import UndoToast from './components/UndoToast';
+import ChangeLog from './components/ChangeLog';
+import RecoveryScreen from './components/RecoveryScreen';
+import BackupRestore from './components/BackupRestore';
+import SharedGroupView from './components/SharedGroupView';
+import ImportExpenses from './components/ImportExpenses';
+import SyncPanel from './components/SyncPanel';
+import { diffGroups, recordChange, undoChange, redoChange, loadHistory, saveHistory, EMPTY_HISTORY } from './history';
+import type { History, HistoryEntry } from './history';
+import { recordAuditForGroups, restoreExpenseVersion, EMPTY_AUDIT_FILTER } from './audit';
+import { applyRestore } from './backup';
+import { IMPORT_SOURCE_LABELS } from './importers';
+import { readShareFragment, readShareLink } from './shareLink';
+import { useSync } from './useSync';
+
+// Prefer an open group when the active one goes away
+const pickFallbackGroupId = (groups: Group[]): string => {
+  const openGroup = groups.find(group => !group.archived);
+  return (openGroup || groups[0]).id;
+};
 
 function App() {
-  const [participants, setParticipants] = useState<Participant[]>([]);
-  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [activeGroupId, setActiveGroupId] = useState('');
+  const [editingExpenseId, setEditingExpenseId] = useState<string | null>(null);
+  const [dateRange, setDateRange] = useState<DateRange>(() => readDateRange(window.location.search));
+  const [listFilters, setListFilters] = useState<ExpenseFilters>(() => readExpenseFilters(window.location.search));
+  const [auditFilter, setAuditFilter] = useState<AuditFilter>(EMPTY_AUDIT_FILTER);
+  const [history, setHistory] = useState<History>(EMPTY_HISTORY);
+  const [toast, setToast] = useState<{ id: number; message: string } | null>(null);
+  const [recovery, setRecovery] = useState<{
+    problems: DataProblem[];
+    loadedCount: number;
+    onContinue: () => void;
+  } | null>(null);
+  // A group opened from a share link, shown instead of the app until it is imported or closed
+  const [sharedLink, setSharedLink] = useState<{ backup: GroupBackup | null; errors: string[] } | null>(null);
   const [isInitialized, setIsInitialized] = useState(false);
   const isInitialLoad = useRef(true);
+  // Last saved version of each group, so only changed groups are written back
+  const savedGroups = useRef(new Map<string, Group>());
 
-  // Load data from localStorage on first render
+  // Load saved data on first render
   useEffect(() => {
-    // Test localStorage
-    try {
-      localStorage.setItem('test', 'working');
-      const testValue = localStorage.getItem('test');
-      console.log('localStorage test:', testValue);
-      localStorage.removeItem('test');
-    } catch (error) {
-      console.error('localStorage is not available:', error);
-    }
+    let cancelled = false;
+
+    const load = async () => {
+      const [{ groups: storedGroups, problems }, storedHistory, storedActiveGroupId] = await Promise.all([
+        loadGroups(),
+        loadHistory(),
+        loadActiveGroupId()
+      ]);
+      if (cancelled) return;
+
+      // Damaged data is shown to the user before anything gets a chance to overwrite it
+      if (problems.length > 0) {
+        setRecovery({
+          problems,
+          loadedCount: storedGroups.length,
+          onContinue: () => {
+            problems.forEach(problem => discardProblemData(problem.key));
+            setRecovery(null);
+            finishLoading(storedGroups, storedHistory, storedActiveGroupId);
+          }
+        });
+      } else {
+        finishLoading(storedGroups, storedHistory, storedActiveGroupId);
+      }
+    };
+
+    const finishLoading = (storedGroups: Group[], storedHistory: History, storedActiveGroupId: string | null) => {
+      let loadedGroups = storedGroups;
+      loadedGroups.forEach(group => savedGroups.current.set(group.id, group));
+      // Add recurring expenses that fell due since the last visit; changed groups get saved below.
+      // This is recorded like any other change so undoing older steps doesn't drop them.
+      const now = new Date();
+      const caughtUpGroups = recordAuditForGroups(
+        loadedGroups,
+        loadedGroups.map(group => (group.archived ? group : applyRecurringTemplates(group, now))),
+        'Add due recurring expenses'
+      );
+      const recurringChanges = diffGroups(loadedGroups, caughtUpGroups);
+      setHistory(recurringChanges.length > 0
+        ? recordChange(storedHistory, { label: 'Add due recurring expenses', changes: recurringChanges, at: now.getTime() })
+        : storedHistory);
+      loadedGroups = caughtUpGroups;
+      if (loadedGroups.length === 0) {
+        loadedGroups = [createGroup(DEFAULT_GROUP_NAME)];
+      }
 
-    const loadedParticipants = loadParticipants();
-    const loadedExpenses = loadExpenses();
-    
-    console.log('Loading from localStorage:', {
-      participants: loadedParticipants,
-      expenses: loadedExpenses
-    });
-    
-    setParticipants(loadedParticipants);
-    setExpenses(loadedExpenses);
-    setIsInitialized(true);
-    isInitialLoad.current = false;
+      const loadedActiveGroupId = loadedGroups.some(group => group.id === storedActiveGroupId)
+        ? storedActiveGroupId!
+        : pickFallbackGroupId(loadedGroups);
+
+      console.log('Loaded saved data:', {
+        groups: loadedGroups,
+        activeGroupId: loadedActiveGroupId
+      });
+
+      setGroups(loadedGroups);
+      setActiveGroupId(loadedActiveGroupId);
+      setIsInitialized(true);
+      isInitialLoad.current = false;
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
   }, []);
 
-  // Save participants to localStorage whenever they change
+  // Save changed groups and the group index whenever they change
   useEffect(() => {
     if (isInitialized && !isInitialLoad.current) {
-      console.log('Saving participants to localStorage:', participants);
-      saveToStorage(STORAGE_KEYS.PARTICIPANTS, participants);
+      const currentIds = new Set(groups.map(group => group.id));
+
+      groups.forEach(group => {
+        if (savedGroups.current.get(group.id) !== group) {
+          saveGroup(group);
+          savedGroups.current.set(group.id, group);
+        }
+      });
+
+      Array.from(savedGroups.current.keys()).forEach(groupId => {
+        if (!currentIds.has(groupId)) {
+          removeGroupFromStorage(groupId);
+          savedGroups.current.delete(groupId);
+        }
+      });
+
+      saveGroupIndex(groups);
     }
-  }, [participants, isInitialized]);
+  }, [groups, isInitialized]);
 
-  // Save expenses to localStorage whenever they change
   useEffect(() => {
-    if (isInitialized && !isInitialLoad.current) {
-      console.log('Saving expenses to localStorage:', expenses);
-      saveToStorage(STORAGE_KEYS.EXPENSES, expenses);
+    if (isInitialized) {
+      saveHistory(history);
+    }
+  }, [history, isInitialized]);
+
+  // Keep the list filters in the URL so a filtered view can be bookmarked
+  useEffect(() => {
+    writeListStateToUrl(listFilters, dateRange);
+  }, [listFilters, dateRange]);
+
+  // Open share links, including ones pasted into the address bar of an open tab
+  useEffect(() => {
+    const openSharedLink = async () => {
+      const data = readShareFragment(window.location.hash);
+      if (data) {
+        setSharedLink(await readShareLink(data));
+      }
+    };
+
+    openSharedLink();
+    window.addEventListener('hashchange', openSharedLink);
+    return () => window.removeEventListener('hashchange', openSharedLink);
+  }, []);
+
+  // Remember the active group between visits
+  useEffect(() => {
+    if (isInitialized && activeGroupId) {
+      saveActiveGroupId(activeGroupId);
     }
-  }, [expenses, isInitialized]);
+  }, [activeGroupId, isInitialized]);
+
+  const activeGroup = groups.find(group => group.id === activeGroupId);
+  const participants = activeGroup?.participants || [];
+  const expenses = activeGroup?.expenses || [];
+  const payments = activeGroup?.payments || [];
+  const recurringTemplates = activeGroup?.recurringTemplates || [];
+  const settings = activeGroup?.settings || createDefaultSettings();
+  const expenseToEdit = expenses.find(expense => expense.id === editingExpenseId) || null;
+  // The date range scopes the balances and exports as well as the list
+  const expensesInRange = useMemo(
+    () => filterByDateRange(activeGroup?.expenses || [], dateRange),
+    [activeGroup?.expenses, dateRange]
+  );
+  const paymentsInRange = useMemo(
+    () => filterByDateRange(activeGroup?.payments || [], dateRange),
+    [activeGroup?.payments, dateRange]
+  );
+
+  // Every change to the data goes through here so that it can be undone
+  const commitGroups = (
+    label: string,
+    nextGroups: Group[],
+    options: { undoToast?: boolean; mergeRepeats?: boolean } = {}
+  ) => {
+    const auditedGroups = recordAuditForGroups(groups, nextGroups, label);
+    const changes = diffGroups(groups, auditedGroups);
+    if (changes.length === 0) return;
+
+    setGroups(auditedGroups);
+    setHistory(prevHistory => recordChange(prevHistory, { label, changes, at: Date.now() }, options.mergeRepeats));
+    setToast(options.undoToast ? { id: Date.now(), message: label } : null);
+  };
+
+  const updateActiveGroup = (
+    label: string,
+    updater: (group: Group) => Group,
+    options?: { undoToast?: boolean; mergeRepeats?: boolean }
+  ) => {
+    commitGroups(label, groups.map(group => (group.id === activeGroupId ? updater(group) : group)), options);
+  };
+
+  // Changes from other devices arrive through commitGroups as well, so they can be undone too
+  const sync = useSync(groups, isInitialized, commitGroups);
+
+  // After undo or redo, show the group that changed
+  const showChangedGroup = (entry: HistoryEntry, nextGroups: Group[]) => {
+    const isOpen = (groupId: string) => nextGroups.some(group => group.id === groupId && !group.archived);
+    const changedGroupId = entry.changes.map(change => change.groupId).find(isOpen);
+
+    if (changedGroupId) {
+      setActiveGroupId(changedGroupId);
+    } else if (!isOpen(activeGroupId)) {
+      setActiveGroupId(pickFallbackGroupId(nextGroups));
+    }
+    setEditingExpenseId(null);
+  };
+
+  const handleUndo = () => {
+    const entry = history.past[history.past.length - 1];
+    if (!entry) return;
+
+    // The change log keeps growing: undoing is logged as a change of its own
+    const nextGroups = recordAuditForGroups(groups, undoChange(groups, entry), `Undo ${entry.label.toLowerCase()}`);
+    if (nextGroups.length === 0) return;
+
+    setGroups(nextGroups);
+    setHistory({ past: history.past.slice(0, -1), future: [...history.future, entry] });
+    setToast(null);
+    showChangedGroup(entry, nextGroups);
+  };
 
-  const handleResetAll = () => {
-    if (window.confirm('Are you sure you want to reset all data? This will clear all participants and expenses.')) {
-      // Clear localStorage
-      clearStorage();
+  const handleRedo = () => {
+    const entry = history.future[history.future.length - 1];
+    if (!entry) return;
+
+    const nextGroups = recordAuditForGroups(groups, redoChange(groups, entry), `Redo ${entry.label.toLowerCase()}`);
+    if (nextGroups.length === 0) return;
+
+    setGroups(nextGroups);
+    setHistory({ past: [...history.past, entry], future: history.future.slice(0, -1) });
+    setToast(null);
+    showChangedGroup(entry, nextGroups);
+  };
+
+  const lastChange = history.past[history.past.length - 1];
+  const nextChange = history.future[history.future.length - 1];
+
+  const dismissToast = useCallback(() => setToast(null), []);
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS); text fields keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const key = event.key.toLowerCase();
+      if (!(event.ctrlKey || event.metaKey) || (key !== 'z' && key !== 'y')) return;
+      if ((event.target as HTMLElement).closest('input, textarea, select, [contenteditable="true"]')) return;
+
+      event.preventDefault();
+      if (key === 'y' || event.shiftKey) {
+        handleRedo();
+      } else {
+        handleUndo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const handleResetAll = async () => {
+    if (window.confirm('Are you sure you want to reset all data? This will clear all groups, participants and expenses.')) {
+      // Clear saved data
+      await clearStorage();
       
       // Clear state
-      setParticipants([]);
-      setExpenses([]);
+      setGroups([]);
+      setActiveGroupId('');
       
       // Force a page refresh to ensure all components are reset
       window.location.reload();
@@ -70,17 +338,226 @@ function App() {
   };
 
   const handleParticipantsChange = (newParticipants: Participant[]) => {
-    setParticipants(newParticipants);
+    const isRemoval = newParticipants.length < participants.length;
+    const label = isRemoval
+      ? 'Remove participant'
+      : newParticipants.length > participants.length ? 'Add participant' : 'Rename participant';
+    updateActiveGroup(label, group => ({ ...group, participants: newParticipants }), { undoToast: isRemoval });
+  };
+
+  const handleSettingsChange = (newSettings: GroupSettings) => {
+    updateActiveGroup('Change settings', group => ({ ...group, settings: newSettings }), { mergeRepeats: true });
+  };
+
+  const handleBaseCurrencyChange = (currency: string) => {
+    updateActiveGroup('Change base currency', group => changeBaseCurrency(group, currency));
+  };
+
+  // A merge treats both as the same person, so settlement rules follow the history
+  const handleParticipantReassigned = (participantId: string, replacementId: string, isMerge: boolean) => {
+    updateActiveGroup(isMerge ? 'Merge participants' : 'Remove participant', group => ({
+      ...group,
+      participants: group.participants.filter(participant => participant.id !== participantId),
+      settings: reassignParticipantRules(group.settings, participantId, isMerge ? replacementId : null),
+      expenses: reassignParticipantExpenses(group.expenses, participantId, replacementId),
+      payments: reassignParticipantPayments(group.payments, participantId, replacementId),
+      recurringTemplates: group.recurringTemplates.map(template => ({
+        ...template,
+        expense: reassignParticipantExpenses([template.expense], participantId, replacementId)[0]
+      }))
+    }), { undoToast: true });
   };
 
   const handleExpenseAdded = (newExpense: Expense) => {
-    setExpenses(prevExpenses => [...prevExpenses, newExpense]);
+    updateActiveGroup('Add expense', group => ({ ...group, expenses: [...group.expenses, newExpense] }));
+  };
+
+  const handleExpenseUpdated = (updatedExpense: Expense) => {
+    updateActiveGroup('Edit expense', group => ({
+      ...group,
+      expenses: group.expenses.map(expense => (expense.id === updatedExpense.id ? updatedExpense : expense))
+    }));
+    setEditingExpenseId(null);
   };
 
   const handleExpenseDeleted = (expenseId: string) => {
-    setExpenses(prevExpenses => prevExpenses.filter(expense => expense.id !== expenseId));
+    if (expenseId === editingExpenseId) {
+      setEditingExpenseId(null);
+    }
+    updateActiveGroup('Delete expense', group => ({
+      ...group,
+      expenses: group.expenses.filter(expense => expense.id !== expenseId)
+    }), { undoToast: true });
+  };
+
+  // Saving a template also creates any occurrences that are already due
+  const handleRecurringTemplateAdded = (template: RecurringTemplate) => {
+    updateActiveGroup('Add recurring expense', group => applyRecurringTemplates(
+      { ...group, recurringTemplates: [...group.recurringTemplates, template] },
+      new Date()
+    ));
+  };
+
+  const handleRecurringTemplateChanged = (updatedTemplate: RecurringTemplate) => {
+    updateActiveGroup('Change recurring expense', group => applyRecurringTemplates(
+      {
+        ...group,
+        recurringTemplates: group.recurringTemplates.map(template => (
+          template.id === updatedTemplate.id ? updatedTemplate : template
+        ))
+      },
+      new Date()
+    ));
+  };
+
+  // Expenses already generated from the template are kept
+  const handleRecurringTemplateDeleted = (templateId: string) => {
+    updateActiveGroup('Delete recurring expense', group => ({
+      ...group,
+      recurringTemplates: group.recurringTemplates.filter(template => template.id !== templateId)
+    }), { undoToast: true });
+  };
+
+  const handlePaymentRecorded = (payment: Payment) => {
+    updateActiveGroup('Record payment', group => ({ ...group, payments: [...group.payments, payment] }));
+  };
+
+  const handleExpenseRestored = (expense: Expense) => {
+    updateActiveGroup('Restore expense version', group => restoreExpenseVersion(group, expense));
+    setEditingExpenseId(null);
+  };
+
+  const handleShowExpenseHistory = (expense: Expense) => {
+    setAuditFilter({ entityType: 'expense', entityId: expense.id });
+    document.getElementById('change-log')?.scrollIntoView({ behavior: 'smooth' });
+  };
+
+  const handlePaymentDeleted = (paymentId: string) => {
+    updateActiveGroup('Delete payment', group => ({
+      ...group,
+      payments: group.payments.filter(payment => payment.id !== paymentId)
+    }), { undoToast: true });
+  };
+
+  // Group management
+  const handleGroupSelect = (groupId: string) => {
+    setActiveGroupId(groupId);
+    setEditingExpenseId(null);
+    setDateRange(EMPTY_DATE_RANGE);
+    setListFilters(DEFAULT_EXPENSE_FILTERS);
+    setAuditFilter(EMPTY_AUDIT_FILTER);
+  };
+
+  const handleGroupCreate = (name: string) => {
+    const newGroup = createGroup(name);
+    commitGroups('Create group', [...groups, newGroup]);
+    setActiveGroupId(newGroup.id);
   };
 
+  const handleGroupRename = (groupId: string, name: string) => {
+    commitGroups('Rename group', groups.map(group => (group.id === groupId ? { ...group, name } : group)));
+  };
+
+  const handleGroupDuplicate = (groupId: string) => {
+    const sourceGroup = groups.find(group => group.id === groupId);
+    if (!sourceGroup) return;
+
+    const copy = duplicateGroup(sourceGroup);
+    commitGroups('Duplicate group', [...groups, copy]);
+    setActiveGroupId(copy.id);
+  };
+
+  const handleGroupArchive = (groupId: string, archived: boolean) => {
+    const updatedGroups = groups.map(group => (group.id === groupId ? { ...group, archived } : group));
+    commitGroups(archived ? 'Archive group' : 'Restore group', updatedGroups, { undoToast: archived });
+
+    if (archived && groupId === activeGroupId) {
+      setActiveGroupId(pickFallbackGroupId(updatedGroups));
+    }
+  };
+
+  const handleGroupDelete = (groupId: string) => {
+    let remainingGroups = groups.filter(group => group.id !== groupId);
+    if (remainingGroups.length === 0) {
+      remainingGroups = [createGroup(DEFAULT_GROUP_NAME)];
+    }
+
+    commitGroups('Delete group', remainingGroups, { undoToast: true });
+
+    if (groupId === activeGroupId || !remainingGroups.some(group => group.id === activeGroupId)) {
+      setActiveGroupId(pickFallbackGroupId(remainingGroups));
+    }
+  };
+
+  const handleBackupRestored = (incoming: Group, mode: RestoreMode, conflictChoice: RestoreConflictChoice) => {
+    const restored = applyRestore(groups, activeGroupId, incoming, mode, conflictChoice);
+    const label = mode === 'new' ? 'Import backup' : mode === 'replace' ? 'Replace group from backup' : 'Merge backup';
+    commitGroups(label, restored.groups, { undoToast: mode !== 'new' });
+    setActiveGroupId(restored.activeGroupId);
+    setEditingExpenseId(null);
+  };
+
+  const handleExpensesImported = (newParticipants: Participant[], importedExpenses: Expense[]) => {
+    updateActiveGroup('Import expenses', group => ({
+      ...group,
+      participants: [...group.participants, ...newParticipants],
+      expenses: [...group.expenses, ...importedExpenses]
+    }), { undoToast: true });
+  };
+
+  const handleAppImported = (result: AppImport, target: ImportTarget, newGroupName: string) => {
+    const label = `Import from ${IMPORT_SOURCE_LABELS[result.source]}`;
+
+    if (target === 'current') {
+      updateActiveGroup(label, group => ({
+        ...group,
+        participants: [...group.participants, ...result.newParticipants],
+        expenses: [...group.expenses, ...result.expenses],
+        payments: [...group.payments, ...result.payments]
+      }), { undoToast: true });
+      return;
+    }
+
+    const newGroup = createGroup(newGroupName, result.newParticipants, result.expenses);
+    commitGroups(label, [...groups, {
+      ...newGroup,
+      payments: result.payments,
+      settings: { ...newGroup.settings, baseCurrency: result.baseCurrency }
+    }]);
+    setActiveGroupId(newGroup.id);
+    setEditingExpenseId(null);
+  };
+
+  const handleSyncJoin = async (code: string) => {
+    const joinError = await sync.joinGroup(code);
+    if (!joinError) {
+      handleGroupSelect(code.trim());
+    }
+    return joinError;
+  };
+
+  const closeSharedLink = () => {
+    const url = new URL(window.location.href);
+    url.hash = '';
+    window.history.replaceState(window.history.state, '', url);
+    setSharedLink(null);
+  };
+
+  const handleSharedGroupImported = () => {
+    if (!sharedLink?.backup) return;
+    const restored = applyRestore(groups, activeGroupId, sharedLink.backup.group, 'new', 'current');
+    commitGroups('Import shared group', restored.groups);
+    setActiveGroupId(restored.activeGroupId);
+    setEditingExpenseId(null);
+    closeSharedLink();
+  };
+
+  if (recovery) {
+    return (
+      <RecoveryScreen problems={recovery.problems} loadedCount={recovery.loadedCount} onContinue={recovery.onContinue} />
+    );
+  }
+
   if (!isInitialized) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 flex items-center justify-center">
@@ -92,28 +569,72 @@ function App() {
     );
   }
 
+  if (sharedLink) {
+    return (
+      <SharedGroupView
+        backup={sharedLink.backup}
+        errors={sharedLink.errors}
+        onImport={handleSharedGroupImported}
+        onClose={closeSharedLink}
+      />
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 flex flex-col">
       {/* Header */}
       <header className="bg-white shadow-sm border-b border-gray-200 sticky top-0 z-10">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="flex justify-between items-center py-4">
-            <div className="flex items-center space-x-3">
-              <div className="text-3xl">🦫</div>
-              <div>
-                <h1 className="text-2xl font-bold text-gray-900">DamFair</h1>
-                <p className="text-sm text-gray-600">Fair expense splitting, no drama</p>
+            <div className="flex items-center space-x-6">
+              <div className="flex items-center space-x-3">
+                <div className="text-3xl">🦫</div>
+                <div>
+                  <h1 className="text-2xl font-bold text-gray-900">DamFair</h1>
+                  <p className="text-sm text-gray-600">Fair expense splitting, no drama</p>
+                </div>
               </div>
+              <GroupSwitcher
+                groups={groups}
+                activeGroupId={activeGroupId}
+                onGroupSelect={handleGroupSelect}
+                onGroupCreate={handleGroupCreate}
+                onGroupRename={handleGroupRename}
+                onGroupDuplicate={handleGroupDuplicate}
+                onGroupArchive={handleGroupArchive}
+                onGroupDelete={handleGroupDelete}
+              />
+            </div>
+            <div className="flex items-center gap-3">
+              {/* Undo / Redo */}
+              <div className="inline-flex rounded-md shadow-sm">
+                <button
+                  onClick={handleUndo}
+                  disabled={history.past.length === 0}
+                  title={lastChange ? `Undo ${lastChange.label.toLowerCase()} (Ctrl+Z)` : 'Nothing to undo'}
+                  className="px-3 py-2 border border-gray-300 rounded-l-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                >
+                  ↶ Undo
+                </button>
+                <button
+                  onClick={handleRedo}
+                  disabled={history.future.length === 0}
+                  title={nextChange ? `Redo ${nextChange.label.toLowerCase()} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+                  className="px-3 py-2 border border-l-0 border-gray-300 rounded-r-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                >
+                  Redo ↷
+                </button>
+              </div>
+              <button
+                onClick={handleResetAll}
+                className="inline-flex items-center px-4 py-2 border border-red-300 rounded-md shadow-sm text-sm font-medium text-red-700 bg-white hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 transition-colors"
+              >
+                <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                </svg>
+                Reset All
+              </button>
             </div>
-            <button
-              onClick={handleResetAll}
-              className="inline-flex items-center px-4 py-2 border border-red-300 rounded-md shadow-sm text-sm font-medium text-red-700 bg-white hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 transition-colors"
-            >
-              <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
-              </svg>
-              Reset All
-            </button>
           </div>
         </div>
       </header>
@@ -126,37 +647,159 @@ function App() {
           <div className="space-y-8">
             <div className="bg-white rounded-xl shadow-lg border border-gray-100 overflow-hidden">
               <ParticipantsManager 
+                key={activeGroupId}
                 participants={participants} 
+                expenses={expenses}
+                payments={payments}
+                recurringTemplates={recurringTemplates}
+                settings={settings}
                 onParticipantsChange={handleParticipantsChange} 
+                onParticipantReassigned={handleParticipantReassigned}
               />
             </div>
             
             <div className="bg-white rounded-xl shadow-lg border border-gray-100 overflow-hidden">
               <ExpenseForm 
+                key={activeGroupId}
                 participants={participants} 
+                settings={settings}
                 onExpenseAdded={handleExpenseAdded} 
+                onRecurringTemplateAdded={handleRecurringTemplateAdded}
+                expenseToEdit={expenseToEdit}
+                onExpenseUpdated={handleExpenseUpdated}
+                onCancelEdit={() => setEditingExpenseId(null)}
+              />
+            </div>
+
+            <div className="bg-white rounded-xl shadow-lg border border-gray-100 overflow-hidden">
+              <RecurringExpenses
+                key={activeGroupId}
+                participants={participants}
+                expenses={expenses}
+                templates={recurringTemplates}
+                onTemplateChanged={handleRecurringTemplateChanged}
+                onTemplateDeleted={handleRecurringTemplateDeleted}
               />
             </div>
+
+            <div className="bg-white rounded-xl shadow-lg border border-gray-100 overflow-hidden">
+              <CurrencySettings
+                key={activeGroupId}
+                settings={settings}
+                expenses={expenses}
+                payments={payments}
+                recurringTemplates={recurringTemplates}
+                onSettingsChange={handleSettingsChange}
+                onBaseCurrencyChange={handleBaseCurrencyChange}
+              />
+            </div>
+
+            <div className="bg-white rounded-xl shadow-lg border border-gray-100 overflow-hidden">
+              <CategorySettings
+                key={activeGroupId}
+                settings={settings}
+                expenses={expenses}
+                onSettingsChange={handleSettingsChange}
+              />
+            </div>
+
+            <div className="bg-white rounded-xl shadow-lg border border-gray-100 overflow-hidden">
+              <SettlementSettings
+                key={activeGroupId}
+                participants={participants}
+                settings={settings}
+                onSettingsChange={handleSettingsChange}
+              />
+            </div>
+
+            {activeGroup && (
+              <div className="bg-white rounded-xl shadow-lg border border-gray-100 overflow-hidden">
+                <BackupRestore group={activeGroup} onRestore={handleBackupRestored} />
+              </div>
+            )}
+
+            <div className="bg-white rounded-xl shadow-lg border border-gray-100 overflow-hidden">
+              <ImportExpenses
+                key={activeGroupId}
+                groupName={activeGroup?.name || ''}
+                participants={participants}
+                settings={settings}
+                onImport={handleExpensesImported}
+                onAppImport={handleAppImported}
+              />
+            </div>
+
+            {sync.settings && (
+              <div className="bg-white rounded-xl shadow-lg border border-gray-100 overflow-hidden">
+                <SyncPanel
+                  group={activeGroup}
+                  settings={sync.settings}
+                  status={sync.status}
+                  error={sync.error}
+                  lastSyncedAt={sync.lastSyncedAt}
+                  pendingCount={sync.pendingCount}
+                  onConnect={sync.connect}
+                  onDisconnect={sync.disconnect}
+                  onSyncNow={sync.syncNow}
+                  onGroupSyncedChange={sync.setGroupSynced}
+                  onJoin={handleSyncJoin}
+                />
+              </div>
+            )}
           </div>
 
           {/* Right Column */}
           <div className="space-y-8">
             <div className="bg-white rounded-xl shadow-lg border border-gray-100 overflow-hidden">
-              <ExpenseList expenses={expenses} onExpenseDeleted={handleExpenseDeleted} />
+              <ExpenseList 
+                key={activeGroupId}
+                participants={participants} 
+                expenses={expenses} 
+                payments={payments}
+                settings={settings}
+                dateRange={dateRange}
+                filters={listFilters}
+                onDateRangeChange={setDateRange}
+                onFiltersChange={setListFilters}
+                editingExpenseId={editingExpenseId}
+                onExpenseDeleted={handleExpenseDeleted} 
+                onExpenseEdit={(expense) => setEditingExpenseId(expense.id)}
+                onExpenseHistory={handleShowExpenseHistory}
+                onPaymentDeleted={handlePaymentDeleted}
+              />
             </div>
             
             <div className="bg-white rounded-xl shadow-lg border border-gray-100 overflow-hidden">
               <DebtCalculator 
+                key={activeGroupId}
                 participants={participants} 
-                expenses={expenses} 
+                expenses={expensesInRange} 
+                payments={paymentsInRange}
+                settings={settings}
+                dateRange={dateRange}
+                onPaymentRecorded={handlePaymentRecorded}
               />
             </div>
-            
 
+            {activeGroup && (
+              <div className="bg-white rounded-xl shadow-lg border border-gray-100 overflow-hidden">
+                <ChangeLog
+                  key={activeGroupId}
+                  group={activeGroup}
+                  filter={auditFilter}
+                  onFilterChange={setAuditFilter}
+                  onExpenseRestored={handleExpenseRestored}
+                />
+              </div>
+            )}
           </div>
         </div>
       </main>
 
+      {toast && (
+        <UndoToast key={toast.id} message={toast.message} onUndo={handleUndo} onDismiss={dismissToast} />
+      )}
+
       {/* Footer */}
       <footer className="bg-white border-t border-gray-200 mt-auto">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
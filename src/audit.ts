@@ -0,0 +1,242 @@
+import type {
+  Group,
+  GroupSettings,
+  Participant,
+  Expense,
+  Payment,
+  AuditEntry,
+  AuditEntityType,
+  AuditAction,
+  AuditFilter
+} from './types';
+import {
+  generateId,
+  formatCurrency,
+  formatDateOnly,
+  formatPayers,
+  getParticipantName,
+  getCategory,
+  calculateExpenseShares,
+  validateExpense,
+  SPLIT_MODE_LABELS
+} from './utils';
+
+// Change log
+// Each group keeps an append-only log of what happened to its participants, expenses and payments.
+// Entries are worked out by comparing the group before and after a change, so every way of
+// changing the data is covered without each handler having to describe what it did.
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  participant: 'Participants',
+  expense: 'Expenses',
+  payment: 'Payments'
+};
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  created: 'Added',
+  updated: 'Changed',
+  deleted: 'Deleted'
+};
+
+export const EMPTY_AUDIT_FILTER: AuditFilter = { entityType: '', entityId: '' };
+
+// Entities are replaced rather than mutated, but a copy with the same content isn't a change
+const isSameEntity = <T>(a: T, b: T): boolean => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+const diffEntities = <T extends { id: string }>(previous: T[], next: T[]) => {
+  const changes: { entityId: string; action: AuditAction; before: T | null; after: T | null }[] = [];
+  const nextById = new Map(next.map(entity => [entity.id, entity]));
+  const previousIds = new Set(previous.map(entity => entity.id));
+
+  previous.forEach(entity => {
+    const updated = nextById.get(entity.id);
+    if (!updated) {
+      changes.push({ entityId: entity.id, action: 'deleted', before: entity, after: null });
+    } else if (!isSameEntity(entity, updated)) {
+      changes.push({ entityId: entity.id, action: 'updated', before: entity, after: updated });
+    }
+  });
+
+  next.forEach(entity => {
+    if (!previousIds.has(entity.id)) {
+      changes.push({ entityId: entity.id, action: 'created', before: null, after: entity });
+    }
+  });
+
+  return changes;
+};
+
+// Appends an entry for every participant, expense and payment that differs between the two versions.
+// The log always continues from the previous version, so putting back an older snapshot of the
+// group (as undo does) doesn't drop the entries made since.
+export const recordAudit = (previous: Group, next: Group, reason: string, at = new Date().toISOString()): Group => {
+  if (previous === next) return next;
+
+  const base = { at, reason };
+  const entries: AuditEntry[] = [
+    ...diffEntities(previous.participants, next.participants)
+      .map(change => ({ ...base, ...change, id: generateId(), entityType: 'participant' as const })),
+    ...diffEntities(previous.expenses, next.expenses)
+      .map(change => ({ ...base, ...change, id: generateId(), entityType: 'expense' as const })),
+    ...diffEntities(previous.payments, next.payments)
+      .map(change => ({ ...base, ...change, id: generateId(), entityType: 'payment' as const }))
+  ];
+
+  if (entries.length === 0 && next.auditLog === previous.auditLog) {
+    return next;
+  }
+  return { ...next, auditLog: [...previous.auditLog, ...entries] };
+};
+
+// recordAudit for every group that existed before the change
+export const recordAuditForGroups = (previousGroups: Group[], nextGroups: Group[], reason: string): Group[] => {
+  const at = new Date().toISOString();
+  return nextGroups.map(group => {
+    const previous = previousGroups.find(candidate => candidate.id === group.id);
+    return previous ? recordAudit(previous, group, reason, at) : group;
+  });
+};
+
+export const filterAuditLog = (log: AuditEntry[], filter: AuditFilter): AuditEntry[] => {
+  return log.filter(entry =>
+    (!filter.entityType || entry.entityType === filter.entityType) &&
+    (!filter.entityId || entry.entityId === filter.entityId)
+  );
+};
+
+// Current participants plus anyone who has since been removed, so old entries still show names
+export const getKnownParticipants = (group: Group): Participant[] => {
+  const known = new Map(group.participants.map(participant => [participant.id, participant]));
+  [...group.auditLog].reverse().forEach(entry => {
+    const participant = entry.entityType === 'participant' ? entry.before || entry.after : null;
+    if (participant && !known.has(participant.id)) {
+      known.set(participant.id, participant);
+    }
+  });
+  return Array.from(known.values());
+};
+
+export const getAuditEntityName = (entry: AuditEntry, participants: Participant[]): string => {
+  switch (entry.entityType) {
+    case 'participant':
+      return (entry.after || entry.before)?.name || '';
+    case 'expense':
+      return (entry.after || entry.before)?.description || '';
+    case 'payment': {
+      const payment = entry.after || entry.before;
+      return payment
+        ? `${getParticipantName(participants, payment.from)} → ${getParticipantName(participants, payment.to)}`
+        : '';
+    }
+  }
+};
+
+interface AuditField {
+  label: string;
+  value: string;
+}
+
+const describeParticipant = (participant: Participant): AuditField[] => [
+  { label: 'Name', value: participant.name }
+];
+
+const describeExpense = (expense: Expense, participants: Participant[], settings: GroupSettings): AuditField[] => {
+  const shares = Array.from(calculateExpenseShares(expense))
+    .map(([participantId, share]) => `${getParticipantName(participants, participantId)} ${formatCurrency(share, expense.currency)}`)
+    .join(', ');
+
+  return [
+    { label: 'Description', value: expense.description },
+    { label: 'Amount', value: formatCurrency(expense.amount, expense.currency) },
+    { label: 'Date', value: formatDateOnly(expense.date) },
+    { label: 'Category', value: getCategory(settings, expense.category).name },
+    { label: 'Paid by', value: formatPayers(participants, expense.payers, expense.currency) },
+    { label: 'Split', value: `${SPLIT_MODE_LABELS[expense.splitMode]}: ${shares}` },
+    { label: 'Exchange rate', value: expense.exchangeRate ? String(expense.exchangeRate) : '' }
+  ];
+};
+
+const describePayment = (payment: Payment, participants: Participant[]): AuditField[] => [
+  { label: 'From', value: getParticipantName(participants, payment.from) },
+  { label: 'To', value: getParticipantName(participants, payment.to) },
+  { label: 'Amount', value: formatCurrency(payment.amount, payment.currency) },
+  { label: 'Date', value: formatDateOnly(payment.date) },
+  { label: 'Note', value: payment.note }
+];
+
+const describeEntity = (
+  entry: AuditEntry,
+  state: 'before' | 'after',
+  participants: Participant[],
+  settings: GroupSettings
+): AuditField[] => {
+  switch (entry.entityType) {
+    case 'participant':
+      return entry[state] ? describeParticipant(entry[state]) : [];
+    case 'expense':
+      return entry[state] ? describeExpense(entry[state], participants, settings) : [];
+    case 'payment':
+      return entry[state] ? describePayment(entry[state], participants) : [];
+  }
+};
+
+export interface AuditFieldChange {
+  label: string;
+  before: string | null; // null when the entity was added
+  after: string | null; // null when it was deleted
+}
+
+// The fields that changed, as they would be shown to the user. Added and deleted entities list
+// every field that has a value.
+export const getAuditFieldChanges = (
+  entry: AuditEntry,
+  participants: Participant[],
+  settings: GroupSettings
+): AuditFieldChange[] => {
+  const before = describeEntity(entry, 'before', participants, settings);
+  const after = describeEntity(entry, 'after', participants, settings);
+
+  if (entry.action === 'created') {
+    return after.filter(field => field.value).map(field => ({ label: field.label, before: null, after: field.value }));
+  }
+  if (entry.action === 'deleted') {
+    return before.filter(field => field.value).map(field => ({ label: field.label, before: field.value, after: null }));
+  }
+
+  return after
+    .map((field, index) => ({ label: field.label, before: before[index].value, after: field.value }))
+    .filter(change => change.before !== change.after);
+};
+
+// The version of the expense an entry recorded: what it became, or what was deleted
+export const getRecordedExpense = (entry: AuditEntry): Expense | null => {
+  return entry.entityType === 'expense' ? entry.after || entry.before : null;
+};
+
+// Returns why an earlier version can't be put back, or null when it can
+export const validateExpenseRestore = (expense: Expense, group: Group): string | null => {
+  const current = group.expenses.find(candidate => candidate.id === expense.id);
+  if (current && isSameEntity(current, expense)) {
+    return 'This is the current version';
+  }
+
+  const participantIds = new Set(group.participants.map(participant => participant.id));
+  const missingId = [...expense.payers.map(payer => payer.participantId), ...expense.involved]
+    .find(participantId => !participantIds.has(participantId));
+  if (missingId) {
+    return `${getParticipantName(getKnownParticipants(group), missingId)} is no longer in the group`;
+  }
+
+  return validateExpense(expense, group.settings)[0] || null;
+};
+
+// Puts an earlier version back in place of the current one, or re-adds it if it was deleted
+export const restoreExpenseVersion = (group: Group, expense: Expense): Group => {
+  const exists = group.expenses.some(candidate => candidate.id === expense.id);
+  return {
+    ...group,
+    expenses: exists
+      ? group.expenses.map(candidate => (candidate.id === expense.id ? expense : candidate))
+      : [...group.expenses, expense]
+  };
+};
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import type { Expense, Group } from './types';
+import { createGroup, toBaseCurrency } from './utils';
+import { applyRestore, findMergeProblems } from './backup';
+
+const people = [{ id: 'ann', name: 'Ann' }, { id: 'bob', name: 'Bob' }];
+
+const createExpense = (id: string, amount: number, currency: string, exchangeRate?: number): Expense => ({
+  id,
+  description: id,
+  amount,
+  payers: [{ participantId: 'ann', amount }],
+  involved: ['ann', 'bob'],
+  splitMode: 'equal',
+  splitValues: {},
+  category: 'other',
+  currency,
+  ...(exchangeRate ? { exchangeRate } : {}),
+  date: '2024-03-01T12:00:00.000Z',
+  createdAt: '2024-03-01T12:00:00.000Z'
+});
+
+const createTestGroup = (baseCurrency: string, exchangeRates: Record<string, number>, expenses: Expense[]): Group => {
+  const group = createGroup('Trip', people, expenses);
+  return { ...group, settings: { ...group.settings, baseCurrency, exchangeRates } };
+};
+
+const merge = (current: Group, incoming: Group): Group => {
+  return applyRestore([current], current.id, incoming, 'merge', 'current').groups[0];
+};
+
+describe('merging a backup', () => {
+  it('converts the backup rates when its base currency differs', () => {
+    // One USD is 0.90 EUR here; in the backup one GBP is 1.25 USD
+    const current = createTestGroup('EUR', { USD: 0.9 }, []);
+    const incoming = createTestGroup('USD', { GBP: 1.25, EUR: 1.1 }, [
+      createExpense('dollars', 1000, 'USD'),
+      createExpense('pounds', 1000, 'GBP'),
+      createExpense('euros', 1000, 'EUR'),
+      createExpense('fixed', 1000, 'GBP', 1.3)
+    ]);
+
+    expect(findMergeProblems(current, incoming, 'current')).toEqual([]);
+    const merged = merge(current, incoming);
+    expect(merged.settings.exchangeRates).toEqual({ USD: 0.9, GBP: 1.125 });
+
+    const inBase = Object.fromEntries(merged.expenses.map(expense => [expense.id, toBaseCurrency(expense.amount, expense, merged.settings)]));
+    expect(inBase).toEqual({ dollars: 900, pounds: 1125, euros: 1000, fixed: 1170 });
+  });
+
+  it('uses the backup rate back to the current base currency when the current group has none', () => {
+    const current = createTestGroup('EUR', {}, []);
+    const incoming = createTestGroup('USD', { EUR: 1.25 }, [createExpense('dollars', 1000, 'USD')]);
+
+    const merged = merge(current, incoming);
+    expect(merged.settings.exchangeRates).toEqual({ USD: 0.8 });
+    expect(toBaseCurrency(1000, merged.expenses[0], merged.settings)).toBe(800);
+  });
+
+  it('refuses to merge without a rate between the base currencies', () => {
+    const current = createTestGroup('EUR', {}, []);
+    const incoming = createTestGroup('USD', {}, [createExpense('dollars', 1000, 'USD')]);
+
+    expect(findMergeProblems(current, incoming, 'current')).toEqual([
+      expect.stringMatching(/Add an exchange rate for USD/)
+    ]);
+  });
+
+  it('checks merged expenses against the merged settings', () => {
+    const current = createTestGroup('EUR', {}, []);
+    const incoming = createTestGroup('EUR', {}, [createExpense('yen', 1000, 'JPY')]);
+
+    expect(findMergeProblems(current, incoming, 'current')).toEqual([
+      '"yen": Enter an exchange rate from JPY to EUR'
+    ]);
+  });
+});
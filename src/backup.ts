@@ -0,0 +1,205 @@
+import type {
+  Group,
+  GroupBackup,
+  GroupSettings,
+  RestoreMode,
+  RestoreConflictChoice,
+  RestorePreview,
+  RestorePreviewItem
+} from './types';
+import { convertExpenseRate, generateId, getParticipantName, upgradeStoredGroup, validateExpense } from './utils';
+
+// Group backups
+// A backup is the group exactly as it is stored, wrapped with a marker and a format version, so
+// restoring it is lossless. Old backups go through the same migrations and validation as stored data.
+
+const BACKUP_FORMAT = 'damfair-group-backup';
+const BACKUP_FORMAT_VERSION = 1;
+
+export const createBackup = (group: Group): GroupBackup => ({
+  format: BACKUP_FORMAT,
+  formatVersion: BACKUP_FORMAT_VERSION,
+  exportedAt: new Date().toISOString(),
+  group
+});
+
+export const getBackupFileName = (group: Group): string => {
+  const slug = group.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'group';
+  return `damfair-backup-${slug}-${new Date().toISOString().split('T')[0]}.json`;
+};
+
+// Reads the contents of a backup file. On failure the backup is null and the errors say why.
+export const readBackup = (text: string): { backup: GroupBackup | null; errors: string[] } => {
+  let parsed: Partial<GroupBackup>;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { backup: null, errors: ['This file is not valid JSON'] };
+  }
+
+  if (parsed?.format !== BACKUP_FORMAT) {
+    return { backup: null, errors: ['This file is not a DamFair backup'] };
+  }
+  if (typeof parsed.formatVersion !== 'number' || parsed.formatVersion > BACKUP_FORMAT_VERSION) {
+    return { backup: null, errors: ['This backup was made by a newer version of DamFair'] };
+  }
+
+  const { group, errors } = upgradeStoredGroup(parsed.group);
+  if (!group) {
+    return { backup: null, errors };
+  }
+  return { backup: { ...(parsed as GroupBackup), group }, errors: [] };
+};
+
+const isSame = <T>(a: T, b: T): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+const compareById = <T extends { id: string }>(
+  current: T[],
+  incoming: T[],
+  getName: (entity: T) => string
+): RestorePreviewItem[] => {
+  const currentById = new Map(current.map(entity => [entity.id, entity]));
+  const incomingIds = new Set(incoming.map(entity => entity.id));
+
+  const fromBackup = incoming.map(entity => {
+    const existing = currentById.get(entity.id);
+    const status = !existing ? 'new' : isSame(existing, entity) ? 'unchanged' : 'changed';
+    return { id: entity.id, name: getName(entity), status } as const;
+  });
+  const onlyCurrent = current
+    .filter(entity => !incomingIds.has(entity.id))
+    .map(entity => ({ id: entity.id, name: getName(entity), status: 'missing' as const }));
+
+  return [...fromBackup, ...onlyCurrent];
+};
+
+export const previewRestore = (current: Group, incoming: Group): RestorePreview => {
+  const participants = [...incoming.participants, ...current.participants];
+  return {
+    participants: compareById(current.participants, incoming.participants, participant => participant.name),
+    expenses: compareById(current.expenses, incoming.expenses, expense => expense.description),
+    payments: compareById(
+      current.payments,
+      incoming.payments,
+      payment => `${getParticipantName(participants, payment.from)} → ${getParticipantName(participants, payment.to)}`
+    ),
+    recurringTemplates: compareById(current.recurringTemplates, incoming.recurringTemplates, template => template.expense.description)
+  };
+};
+
+const mergeById = <T extends { id: string }>(current: T[], incoming: T[], choice: RestoreConflictChoice): T[] => {
+  const incomingById = new Map(incoming.map(entity => [entity.id, entity]));
+  const currentIds = new Set(current.map(entity => entity.id));
+
+  return [
+    ...current.map(entity => (choice === 'backup' && incomingById.get(entity.id)) || entity),
+    ...incoming.filter(entity => !currentIds.has(entity.id))
+  ];
+};
+
+// Value of one unit of the backup's base currency in the current one, or null when neither group
+// has a rate between the two
+const getBaseRate = (current: GroupSettings, incoming: GroupSettings): number | null => {
+  if (incoming.baseCurrency === current.baseCurrency) return 1;
+  const reverseRate = incoming.exchangeRates[current.baseCurrency];
+  return current.exchangeRates[incoming.baseCurrency] ?? (reverseRate ? 1 / reverseRate : null);
+};
+
+// The backup's rates are values in its own base currency; these are the same rates in the current one
+const convertRates = (current: GroupSettings, incoming: GroupSettings, baseRate: number): Record<string, number> => {
+  if (incoming.baseCurrency === current.baseCurrency) return incoming.exchangeRates;
+  return Object.fromEntries([
+    [incoming.baseCurrency, baseRate],
+    ...Object.entries(incoming.exchangeRates)
+      .filter(([currency]) => currency !== current.baseCurrency)
+      .map(([currency, rate]) => [currency, rate * baseRate])
+  ]);
+};
+
+// Keeps the current settings, adding the rates, categories and rules only the backup has, so
+// merged expenses can still be converted and categorized
+const mergeSettings = (current: GroupSettings, incoming: GroupSettings, baseRate: number): GroupSettings => ({
+  ...current,
+  exchangeRates: { ...convertRates(current, incoming, baseRate), ...current.exchangeRates },
+  households: { ...incoming.households, ...current.households },
+  blockedTransfers: [
+    ...current.blockedTransfers,
+    ...incoming.blockedTransfers.filter(transfer =>
+      !current.blockedTransfers.some(existing => existing.from === transfer.from && existing.to === transfer.to))
+  ],
+  categories: mergeById(current.categories, incoming.categories, 'current')
+});
+
+const mergeGroups = (current: Group, incoming: Group, conflictChoice: RestoreConflictChoice, baseRate: number): Group => ({
+  ...current,
+  participants: mergeById(current.participants, incoming.participants, conflictChoice),
+  expenses: mergeById(
+    current.expenses,
+    incoming.expenses.map(expense => convertExpenseRate(expense, current.settings, baseRate)),
+    conflictChoice
+  ),
+  payments: mergeById(current.payments, incoming.payments, conflictChoice),
+  recurringTemplates: mergeById(
+    current.recurringTemplates,
+    incoming.recurringTemplates.map(template => ({
+      ...template,
+      expense: convertExpenseRate(template.expense, current.settings, baseRate)
+    })),
+    conflictChoice
+  ),
+  settings: mergeSettings(current.settings, incoming.settings, baseRate)
+});
+
+// Why the backup can't be merged into the current group; empty when it can. Amounts in another
+// base currency need a rate between the two, and every expense the merge brings in is checked
+// against the merged settings the way the expense form would.
+export const findMergeProblems = (current: Group, incoming: Group, conflictChoice: RestoreConflictChoice): string[] => {
+  const baseRate = getBaseRate(current.settings, incoming.settings);
+  if (baseRate === null) {
+    return [
+      `The backup settles in ${incoming.settings.baseCurrency} and this group in ${current.settings.baseCurrency}. ` +
+      `Add an exchange rate for ${incoming.settings.baseCurrency} under Currencies to merge them.`
+    ];
+  }
+
+  const merged = mergeGroups(current, incoming, conflictChoice, baseRate);
+  return merged.expenses
+    .filter(expense => !current.expenses.includes(expense))
+    .flatMap(expense => {
+      const errors = validateExpense(expense, merged.settings);
+      return errors.length > 0 ? [`"${expense.description}": ${errors.join('; ')}`] : [];
+    });
+};
+
+// The group list after restoring, and the group to show. The change log of a replaced or merged
+// group carries on from the current one; the restore itself is logged like any other change.
+export const applyRestore = (
+  groups: Group[],
+  currentGroupId: string,
+  incoming: Group,
+  mode: RestoreMode,
+  conflictChoice: RestoreConflictChoice
+): { groups: Group[]; activeGroupId: string } => {
+  const current = groups.find(group => group.id === currentGroupId);
+
+  if (mode === 'new' || !current) {
+    const nameTaken = groups.some(group => group.name === incoming.name);
+    const restored: Group = {
+      ...incoming,
+      id: generateId(),
+      name: nameTaken ? `${incoming.name} (restored)` : incoming.name,
+      archived: false
+    };
+    return { groups: [...groups, restored], activeGroupId: restored.id };
+  }
+
+  // findMergeProblems keeps a merge without a rate between the base currencies from getting here
+  const restored: Group = mode === 'replace'
+    ? { ...incoming, id: current.id, archived: current.archived, auditLog: current.auditLog }
+    : mergeGroups(current, incoming, conflictChoice, getBaseRate(current.settings, incoming.settings) ?? 1);
+
+  return {
+    groups: groups.map(group => (group.id === current.id ? restored : group)),
+    activeGroupId: current.id
+  };
+};
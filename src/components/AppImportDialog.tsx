@@ -0,0 +1,163 @@
+import { useState } from 'react';
+import type { Participant, GroupSettings, ImportSource, ImportTarget, AppImport } from '../types';
+import { validateGroupName } from '../utils';
+import { IMPORT_SOURCE_LABELS, readAppExport } from '../importers';
+
+interface AppImportDialogProps {
+  source: ImportSource;
+  fileName: string;
+  text: string;
+  groupName: string; // the open group
+  participants: Participant[];
+  settings: GroupSettings;
+  onImport: (result: AppImport, target: ImportTarget, newGroupName: string) => void;
+  onCancel: () => void;
+}
+
+// "trip-to-rome_2024-03-31_export.csv" -> "trip to rome"
+const getGroupNameFromFile = (fileName: string): string => {
+  return fileName
+    .replace(/\.[^.]+$/, '')
+    .replace(/[_-]?\d{4}-\d{2}-\d{2}.*$/, '')
+    .replace(/[_-]+/g, ' ')
+    .trim();
+};
+
+export default function AppImportDialog({
+  source,
+  fileName,
+  text,
+  groupName,
+  participants,
+  settings,
+  onImport,
+  onCancel
+}: AppImportDialogProps) {
+  const sourceLabel = IMPORT_SOURCE_LABELS[source];
+  const [target, setTarget] = useState<ImportTarget>('new');
+  const [newGroupName, setNewGroupName] = useState(getGroupNameFromFile(fileName) || `${sourceLabel} import`);
+
+  const result = readAppExport(source, text, target === 'new' ? null : { participants, settings });
+  const skippedIssues = result.issues.filter(issue => issue.skipped);
+  const otherIssues = result.issues.filter(issue => !issue.skipped);
+  const nameError = target === 'new' ? validateGroupName(newGroupName) : null;
+  const isEmpty = result.expenses.length === 0 && result.payments.length === 0;
+
+  const options: { value: ImportTarget; title: string; description: string }[] = [
+    {
+      value: 'new',
+      title: 'Import as a new group',
+      description: `Everyone in the export becomes a participant, and balances are kept in ${result.baseCurrency}.`
+    },
+    {
+      value: 'current',
+      title: `Add to "${groupName}"`,
+      description: 'People are matched to participants by name; anyone not found is added.'
+    }
+  ];
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-30">
+      <div className="bg-white rounded-xl shadow-xl max-w-lg w-full p-6 max-h-[90vh] overflow-y-auto">
+        <h3 className="text-lg font-semibold text-gray-800 mb-1">Import from {sourceLabel}</h3>
+        <p className="text-sm text-gray-600 mb-4">{fileName}</p>
+
+        <div className="space-y-2 mb-4">
+          {options.map(option => (
+            <label
+              key={option.value}
+              className={`flex gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${
+                target === option.value ? 'border-blue-300 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+              }`}
+            >
+              <input
+                type="radio"
+                name="import-target"
+                value={option.value}
+                checked={target === option.value}
+                onChange={() => setTarget(option.value)}
+                className="mt-1"
+              />
+              <div>
+                <div className="font-medium text-gray-800 text-sm">{option.title}</div>
+                <div className="text-xs text-gray-500">{option.description}</div>
+              </div>
+            </label>
+          ))}
+        </div>
+
+        {target === 'new' && (
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 mb-2">Group name</label>
+            <input
+              type="text"
+              value={newGroupName}
+              onChange={(e) => setNewGroupName(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            {nameError && <p className="text-red-500 text-sm mt-1">{nameError}</p>}
+          </div>
+        )}
+
+        {/* Summary */}
+        <div className="mb-4 p-3 bg-gray-50 rounded-lg text-sm space-y-1">
+          <div className="text-gray-700">
+            {result.expenses.length} expense{result.expenses.length !== 1 ? 's' : ''} and{' '}
+            {result.payments.length} payment{result.payments.length !== 1 ? 's' : ''} will be imported.
+          </div>
+          {result.newParticipants.length > 0 && (
+            <div className="text-xs text-green-700">
+              New participants: {result.newParticipants.map(participant => participant.name).join(', ')}
+            </div>
+          )}
+        </div>
+
+        {/* Import Report */}
+        {result.issues.length > 0 && (
+          <div className="mb-4 space-y-3">
+            {skippedIssues.length > 0 && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+                <div className="text-sm font-medium text-red-800 mb-1">
+                  Left out ({skippedIssues.length})
+                </div>
+                <ul className="text-xs text-red-700 space-y-1 max-h-40 overflow-y-auto">
+                  {skippedIssues.map((issue, index) => (
+                    <li key={index}>{issue.line !== null && `Line ${issue.line}: `}{issue.message}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {otherIssues.length > 0 && (
+              <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg">
+                <div className="text-sm font-medium text-amber-800 mb-1">
+                  Imported with changes ({otherIssues.length})
+                </div>
+                <ul className="text-xs text-amber-700 space-y-1 max-h-40 overflow-y-auto">
+                  {otherIssues.map((issue, index) => (
+                    <li key={index}>{issue.line !== null && `Line ${issue.line}: `}{issue.message}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 rounded-md text-sm text-gray-700 bg-gray-100 hover:bg-gray-200 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onImport(result, target, newGroupName)}
+            disabled={isEmpty || nameError !== null}
+            className="px-4 py-2 rounded-md text-sm text-white bg-blue-500 hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+import { useRef, useState } from 'react';
+import type { ChangeEvent } from 'react';
+import type { Group, GroupBackup, RestoreMode, RestoreConflictChoice } from '../types';
+import { downloadJson } from '../utils';
+import { createBackup, getBackupFileName, readBackup } from '../backup';
+import { canCreateShareLinks, createShareLink } from '../shareLink';
+import RestoreDialog from './RestoreDialog';
+
+interface BackupRestoreProps {
+  group: Group;
+  onRestore: (incoming: Group, mode: RestoreMode, conflictChoice: RestoreConflictChoice) => void;
+}
+
+export default function BackupRestore({ group, onRestore }: BackupRestoreProps) {
+  const [pendingBackup, setPendingBackup] = useState<GroupBackup | null>(null);
+  const [error, setError] = useState('');
+  const [shareUrl, setShareUrl] = useState('');
+  const [hasCopied, setHasCopied] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const openBackupFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Let the same file be picked again after cancelling
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const { backup, errors } = readBackup(await file.text());
+      setError(backup ? '' : errors.join('. '));
+      setPendingBackup(backup);
+    } catch (readError) {
+      console.error('Error reading backup file:', readError);
+      setError('The file could not be read');
+    }
+  };
+
+  const makeShareLink = async () => {
+    try {
+      const { url, error: linkError } = await createShareLink(group);
+      setError(linkError || '');
+      setShareUrl(url || '');
+      setHasCopied(false);
+    } catch (linkError) {
+      console.error('Error creating share link:', linkError);
+      setError('The share link could not be created');
+    }
+  };
+
+  const copyShareUrl = async () => {
+    try {
+      await navigator.clipboard.writeText(shareUrl);
+      setHasCopied(true);
+    } catch (copyError) {
+      console.error('Error copying share link:', copyError);
+      alert('The link could not be copied. Select it and copy it by hand.');
+    }
+  };
+
+  const confirmRestore = (mode: RestoreMode, conflictChoice: RestoreConflictChoice) => {
+    if (pendingBackup) {
+      onRestore(pendingBackup.group, mode, conflictChoice);
+    }
+    setPendingBackup(null);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <h2 className="text-xl font-semibold text-gray-800 mb-4 flex items-center gap-2">
+        <svg className="w-6 h-6 text-emerald-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+        </svg>
+        Backup & Restore
+      </h2>
+      <p className="text-sm text-gray-500 mb-4">
+        A backup holds everything in this group, so it can be restored in any browser. A share link carries
+        the group itself, so whoever opens it can view or import it without any server involved.
+      </p>
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => downloadJson(createBackup(group), getBackupFileName(group))}
+          className="flex-1 px-4 py-2 rounded-md text-sm text-white bg-emerald-600 hover:bg-emerald-700 transition-colors"
+        >
+          Download backup
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex-1 px-4 py-2 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50 transition-colors"
+        >
+          Restore from file…
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={openBackupFile}
+          className="hidden"
+        />
+      </div>
+
+      {canCreateShareLinks() && (
+        <button
+          onClick={makeShareLink}
+          className="w-full mt-2 px-4 py-2 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50 transition-colors"
+        >
+          🔗 Share link
+        </button>
+      )}
+
+      {shareUrl && (
+        <div className="mt-3">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              readOnly
+              value={shareUrl}
+              onFocus={(e) => e.target.select()}
+              className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-md text-xs text-gray-600 bg-gray-50"
+            />
+            <button
+              onClick={copyShareUrl}
+              className="px-3 py-2 rounded-md text-sm text-white bg-blue-500 hover:bg-blue-600 transition-colors"
+            >
+              {hasCopied ? 'Copied' : 'Copy'}
+            </button>
+          </div>
+          <p className="text-xs text-gray-500 mt-1">
+            The link is a snapshot: later changes aren't included. The change log is never shared.
+          </p>
+        </div>
+      )}
+
+      {error && (
+        <p className="text-red-500 text-sm mt-2">{error}</p>
+      )}
+
+      {pendingBackup && (
+        <RestoreDialog
+          currentGroup={group}
+          backup={pendingBackup}
+          onConfirm={confirmRestore}
+          onCancel={() => setPendingBackup(null)}
+        />
+      )}
+    </div>
+  );
+}
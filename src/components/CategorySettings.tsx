@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import type { Expense, GroupSettings } from '../types';
+import { BUILT_IN_CATEGORIES, countExpensesInCategory, generateId, getCategories, validateCategoryName } from '../utils';
+
+interface CategorySettingsProps {
+  settings: GroupSettings;
+  expenses: Expense[];
+  onSettingsChange: (settings: GroupSettings) => void;
+}
+
+const DEFAULT_COLOR = '#0ea5e9';
+const DEFAULT_ICON = '🏷️';
+
+export default function CategorySettings({ settings, expenses, onSettingsChange }: CategorySettingsProps) {
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(DEFAULT_COLOR);
+  const [icon, setIcon] = useState(DEFAULT_ICON);
+  const [error, setError] = useState('');
+
+  const { categories } = settings;
+
+  const addCategory = () => {
+    const validationError = validateCategoryName(name, getCategories(settings));
+
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    onSettingsChange({
+      ...settings,
+      categories: [...categories, { id: generateId(), name: name.trim(), color, icon: icon.trim() || DEFAULT_ICON }]
+    });
+    setName('');
+    setColor(DEFAULT_COLOR);
+    setIcon(DEFAULT_ICON);
+    setError('');
+  };
+
+  const updateCategoryColor = (categoryId: string, newColor: string) => {
+    onSettingsChange({
+      ...settings,
+      categories: categories.map(category => (category.id === categoryId ? { ...category, color: newColor } : category))
+    });
+  };
+
+  const removeCategory = (categoryId: string) => {
+    onSettingsChange({ ...settings, categories: categories.filter(category => category.id !== categoryId) });
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <h2 className="text-xl font-semibold text-gray-800 mb-4 flex items-center gap-2">
+        <svg className="w-6 h-6 text-pink-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
+        </svg>
+        Categories
+      </h2>
+
+      {/* Built-in Categories */}
+      <div className="flex flex-wrap gap-1.5 mb-4">
+        {BUILT_IN_CATEGORIES.map(category => (
+          <span
+            key={category.id}
+            className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium text-white"
+            style={{ backgroundColor: category.color }}
+          >
+            {category.icon} {category.name}
+          </span>
+        ))}
+      </div>
+
+      {/* Custom Categories */}
+      {categories.length > 0 && (
+        <div className="space-y-2 mb-3">
+          {categories.map(category => {
+            const usage = countExpensesInCategory(expenses, category.id);
+            return (
+              <div key={category.id} className="flex items-center gap-2 text-sm">
+                <input
+                  type="color"
+                  value={category.color}
+                  onChange={(e) => updateCategoryColor(category.id, e.target.value)}
+                  className="w-8 h-8 border border-gray-300 rounded cursor-pointer"
+                  title="Change colour"
+                />
+                <span className="flex-1 text-gray-700 truncate">{category.icon} {category.name}</span>
+                <span className="text-xs text-gray-400">
+                  {usage > 0 ? `${usage} expense${usage !== 1 ? 's' : ''}` : ''}
+                </span>
+                <button
+                  onClick={() => removeCategory(category.id)}
+                  disabled={usage > 0}
+                  className="text-red-500 hover:text-red-700 hover:bg-red-50 p-1 rounded transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+                  title={usage > 0 ? 'This category is used by expenses' : 'Remove category'}
+                >
+                  ✕
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={icon}
+          onChange={(e) => setIcon(e.target.value)}
+          maxLength={4}
+          className="w-12 px-2 py-2 border border-gray-300 rounded-md text-sm text-center focus:outline-none focus:ring-2 focus:ring-blue-500"
+          title="Icon"
+        />
+        <input
+          type="text"
+          placeholder="New category"
+          value={name}
+          onChange={(e) => {
+            setName(e.target.value);
+            setError('');
+          }}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') addCategory();
+          }}
+          className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <input
+          type="color"
+          value={color}
+          onChange={(e) => setColor(e.target.value)}
+          className="w-10 h-10 border border-gray-300 rounded cursor-pointer"
+          title="Colour"
+        />
+        <button
+          onClick={addCategory}
+          className="bg-blue-500 text-white px-4 py-2 rounded-md text-sm hover:bg-blue-600 transition-colors"
+        >
+          Add
+        </button>
+      </div>
+      {error && (
+        <p className="text-red-500 text-sm mt-2">{error}</p>
+      )}
+    </div>
+  );
+}
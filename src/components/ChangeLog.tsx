@@ -0,0 +1,171 @@
+import { useState } from 'react';
+import type { Group, Expense, AuditAction, AuditEntityType, AuditFilter } from '../types';
+import { formatDate } from '../utils';
+import {
+  AUDIT_ENTITY_LABELS,
+  AUDIT_ACTION_LABELS,
+  filterAuditLog,
+  getKnownParticipants,
+  getAuditEntityName,
+  getAuditFieldChanges,
+  getRecordedExpense,
+  validateExpenseRestore
+} from '../audit';
+
+interface ChangeLogProps {
+  group: Group;
+  filter: AuditFilter;
+  onFilterChange: (filter: AuditFilter) => void;
+  onExpenseRestored: (expense: Expense) => void;
+}
+
+const PAGE_SIZE = 30;
+
+const ACTION_STYLES: Record<AuditAction, string> = {
+  created: 'bg-green-100 text-green-800',
+  updated: 'bg-amber-100 text-amber-800',
+  deleted: 'bg-red-100 text-red-800'
+};
+
+export default function ChangeLog({ group, filter, onFilterChange, onExpenseRestored }: ChangeLogProps) {
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const participants = getKnownParticipants(group);
+
+  // Newest first
+  const entries = filterAuditLog(group.auditLog, filter).reverse();
+
+  // Everything of the chosen kind that has a log entry, under its most recent name
+  const entityNames = new Map<string, string>();
+  group.auditLog.forEach(entry => {
+    if (entry.entityType === filter.entityType) {
+      entityNames.set(entry.entityId, getAuditEntityName(entry, participants));
+    }
+  });
+
+  const restore = (expense: Expense) => {
+    if (window.confirm(`Restore this version of "${expense.description}"? The current version stays in the log.`)) {
+      onExpenseRestored(expense);
+    }
+  };
+
+  return (
+    <div id="change-log" className="bg-white rounded-lg shadow-md p-6">
+      <h2 className="text-xl font-semibold text-gray-800 mb-4 flex items-center gap-2">
+        <svg className="w-6 h-6 text-slate-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+        </svg>
+        Change Log
+      </h2>
+
+      {/* Filters */}
+      <div className="flex flex-wrap gap-2 mb-4">
+        <select
+          value={filter.entityType}
+          onChange={(e) => {
+            onFilterChange({ entityType: e.target.value as AuditEntityType | '', entityId: '' });
+            setVisibleCount(PAGE_SIZE);
+          }}
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">Everything</option>
+          {(Object.keys(AUDIT_ENTITY_LABELS) as AuditEntityType[]).map(entityType => (
+            <option key={entityType} value={entityType}>{AUDIT_ENTITY_LABELS[entityType]}</option>
+          ))}
+        </select>
+        {filter.entityType && (
+          <select
+            value={filter.entityId}
+            onChange={(e) => {
+              onFilterChange({ ...filter, entityId: e.target.value });
+              setVisibleCount(PAGE_SIZE);
+            }}
+            className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">All {AUDIT_ENTITY_LABELS[filter.entityType].toLowerCase()}</option>
+            {Array.from(entityNames).map(([entityId, name]) => (
+              <option key={entityId} value={entityId}>{name}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          {group.auditLog.length === 0
+            ? 'Changes to participants, expenses and payments will be listed here.'
+            : 'No changes match this filter.'}
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {entries.slice(0, visibleCount).map(entry => {
+            const changes = getAuditFieldChanges(entry, participants, group.settings);
+            const recordedExpense = getRecordedExpense(entry);
+            const restoreError = recordedExpense && validateExpenseRestore(recordedExpense, group);
+
+            return (
+              <div key={entry.id} className="p-3 border border-gray-200 rounded-lg">
+                <div className="flex justify-between items-start gap-2">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${ACTION_STYLES[entry.action]}`}>
+                        {AUDIT_ACTION_LABELS[entry.action]}
+                      </span>
+                      <button
+                        onClick={() => onFilterChange({ entityType: entry.entityType, entityId: entry.entityId })}
+                        className="font-medium text-gray-800 truncate hover:text-blue-600 transition-colors"
+                        title="Show only changes to this"
+                      >
+                        {getAuditEntityName(entry, participants)}
+                      </button>
+                    </div>
+                    <div className="text-xs text-gray-500 mt-1">
+                      {formatDate(entry.at)} · {entry.reason}
+                    </div>
+                  </div>
+                  {recordedExpense && (
+                    <button
+                      onClick={() => restore(recordedExpense)}
+                      disabled={Boolean(restoreError)}
+                      className="flex-shrink-0 px-2 py-1 text-xs rounded-md text-gray-700 bg-white border border-gray-300 hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                      title={restoreError || (entry.action === 'deleted' ? 'Add this expense back' : 'Go back to this version')}
+                    >
+                      Restore
+                    </button>
+                  )}
+                </div>
+
+                {changes.length > 0 && (
+                  <dl className="mt-2 space-y-1 text-xs">
+                    {changes.map(change => (
+                      <div key={change.label} className="flex gap-2">
+                        <dt className="w-24 flex-shrink-0 text-gray-500">{change.label}</dt>
+                        <dd className="min-w-0 text-gray-700">
+                          {change.before !== null && (
+                            <span className={change.after !== null ? 'line-through text-red-600' : ''}>{change.before}</span>
+                          )}
+                          {change.before !== null && change.after !== null && ' → '}
+                          {change.after !== null && (
+                            <span className={change.before !== null ? 'text-green-700' : ''}>{change.after}</span>
+                          )}
+                        </dd>
+                      </div>
+                    ))}
+                  </dl>
+                )}
+              </div>
+            );
+          })}
+
+          {entries.length > visibleCount && (
+            <button
+              onClick={() => setVisibleCount(count => count + PAGE_SIZE)}
+              className="w-full py-2 text-sm text-blue-600 hover:text-blue-800 transition-colors"
+            >
+              Show {Math.min(PAGE_SIZE, entries.length - visibleCount)} more
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,267 @@
+import { useState } from 'react';
+import type {
+  Participant,
+  Expense,
+  GroupSettings,
+  CsvField,
+  CsvColumnMapping,
+  CsvDateFormat,
+  CsvImportOptions
+} from '../types';
+import { formatCurrency, formatDateOnly, generateId, getParticipantName } from '../utils';
+import {
+  CSV_FIELD_LABELS,
+  CSV_DELIMITERS,
+  CSV_DATE_FORMAT_LABELS,
+  REQUIRED_CSV_FIELDS,
+  parseCsv,
+  buildImportRows,
+  findUnknownNames
+} from '../csvImport';
+
+interface CsvImportDialogProps {
+  fileName: string;
+  text: string;
+  initialOptions: CsvImportOptions;
+  initialMapping: CsvColumnMapping;
+  participants: Participant[];
+  settings: GroupSettings;
+  onImport: (newParticipants: Participant[], expenses: Expense[]) => void;
+  onCancel: () => void;
+}
+
+// Rows shown in the preview; all valid rows are imported either way
+const MAX_PREVIEW_ROWS = 100;
+
+export default function CsvImportDialog({
+  fileName,
+  text,
+  initialOptions,
+  initialMapping,
+  participants,
+  settings,
+  onImport,
+  onCancel
+}: CsvImportDialogProps) {
+  const [options, setOptions] = useState(initialOptions);
+  const [mapping, setMapping] = useState(initialMapping);
+  // Participants to create for names in the file, kept so their ids stay the same between renders
+  const [newParticipants, setNewParticipants] = useState<Participant[]>([]);
+
+  const allParticipants = [...participants, ...newParticipants];
+  const rows = parseCsv(text, options.delimiter);
+  const columnCount = Math.max(0, ...rows.map(row => row.cells.length));
+  const columnNames = Array.from({ length: columnCount }, (_, index) =>
+    (options.hasHeader && rows[0]?.cells[index]?.trim()) || `Column ${index + 1}`);
+
+  const missingFields = REQUIRED_CSV_FIELDS.filter(field => mapping[field] === null);
+  const importRows = missingFields.length === 0 ? buildImportRows(rows, mapping, options, allParticipants, settings) : [];
+  const validRows = importRows.filter(row => row.errors.length === 0);
+  const unknownNames = findUnknownNames(importRows);
+
+  const createParticipant = (name: string) => {
+    setNewParticipants(prev => [...prev, { id: generateId(), name }]);
+  };
+
+  const removeNewParticipant = (participantId: string) => {
+    setNewParticipants(prev => prev.filter(participant => participant.id !== participantId));
+  };
+
+  const handleImport = () => {
+    if (validRows.length === 0) return;
+    // Only participants that imported rows actually use are added
+    const usedIds = new Set(validRows.flatMap(row => [...row.expense.involved, ...row.expense.payers.map(payer => payer.participantId)]));
+    onImport(newParticipants.filter(participant => usedIds.has(participant.id)), validRows.map(row => row.expense));
+  };
+
+  const selectClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-30">
+      <div className="bg-white rounded-xl shadow-xl max-w-4xl w-full p-6 max-h-[90vh] overflow-y-auto">
+        <h3 className="text-lg font-semibold text-gray-800 mb-1">Import expenses from {fileName}</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          Match the columns of the file to expense fields. Amounts are read in {settings.baseCurrency} and split equally.
+        </p>
+
+        {/* File Options */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+          <label className="text-sm">
+            <span className="block font-medium text-gray-700 mb-1">Separator</span>
+            <select
+              value={options.delimiter}
+              onChange={(e) => setOptions({ ...options, delimiter: e.target.value })}
+              className={selectClassName}
+            >
+              {Object.entries(CSV_DELIMITERS).map(([delimiter, label]) => (
+                <option key={label} value={delimiter}>{label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm">
+            <span className="block font-medium text-gray-700 mb-1">Decimal separator</span>
+            <select
+              value={options.decimalSeparator}
+              onChange={(e) => setOptions({ ...options, decimalSeparator: e.target.value as '.' | ',' })}
+              className={selectClassName}
+            >
+              <option value=".">Point (12.50)</option>
+              <option value=",">Comma (12,50)</option>
+            </select>
+          </label>
+          <label className="text-sm">
+            <span className="block font-medium text-gray-700 mb-1">Date format</span>
+            <select
+              value={options.dateFormat}
+              onChange={(e) => setOptions({ ...options, dateFormat: e.target.value as CsvDateFormat })}
+              className={selectClassName}
+            >
+              {(Object.keys(CSV_DATE_FORMAT_LABELS) as CsvDateFormat[]).map(format => (
+                <option key={format} value={format}>{CSV_DATE_FORMAT_LABELS[format]}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-700 md:mt-6">
+            <input
+              type="checkbox"
+              checked={options.hasHeader}
+              onChange={(e) => setOptions({ ...options, hasHeader: e.target.checked })}
+            />
+            First line is headings
+          </label>
+        </div>
+
+        {/* Column Mapping */}
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-4">
+          {(Object.keys(CSV_FIELD_LABELS) as CsvField[]).map(field => (
+            <label key={field} className="text-sm">
+              <span className="block font-medium text-gray-700 mb-1">
+                {CSV_FIELD_LABELS[field]}{REQUIRED_CSV_FIELDS.includes(field) && ' *'}
+              </span>
+              <select
+                value={mapping[field] ?? ''}
+                onChange={(e) => setMapping({ ...mapping, [field]: e.target.value === '' ? null : Number(e.target.value) })}
+                className={selectClassName}
+              >
+                <option value="">
+                  {field === 'date' ? 'Not in file (today)' : field === 'involved' ? 'Not in file (everyone)' : 'Not in file'}
+                </option>
+                {columnNames.map((name, index) => (
+                  <option key={index} value={index}>{name}</option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+
+        {missingFields.length > 0 && (
+          <p className="text-sm text-red-600 mb-4">
+            Choose a column for {missingFields.map(field => CSV_FIELD_LABELS[field]).join(', ')}.
+          </p>
+        )}
+
+        {/* Unknown Names */}
+        {(unknownNames.length > 0 || newParticipants.length > 0) && (
+          <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg">
+            <div className="text-sm font-medium text-amber-800 mb-2">Names that aren't participants yet</div>
+            <div className="flex flex-wrap gap-2">
+              {unknownNames.map(name => (
+                <button
+                  key={name}
+                  onClick={() => createParticipant(name)}
+                  className="px-2 py-1 text-xs rounded-md bg-white border border-amber-300 text-amber-800 hover:bg-amber-100 transition-colors"
+                  title={`Add ${name} to the group when importing`}
+                >
+                  + Create participant "{name}"
+                </button>
+              ))}
+              {newParticipants.map(participant => (
+                <span
+                  key={participant.id}
+                  className="inline-flex items-center gap-1 px-2 py-1 text-xs rounded-md bg-green-100 text-green-800"
+                >
+                  New: {participant.name}
+                  <button
+                    onClick={() => removeNewParticipant(participant.id)}
+                    className="hover:text-green-950"
+                    title="Don't create"
+                  >
+                    ✕
+                  </button>
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Preview */}
+        {importRows.length > 0 && (
+          <div className="mb-4 border border-gray-200 rounded-lg overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead className="bg-gray-50 text-gray-600">
+                <tr>
+                  <th className="px-2 py-2 text-left">Line</th>
+                  <th className="px-2 py-2 text-left">Date</th>
+                  <th className="px-2 py-2 text-left">Description</th>
+                  <th className="px-2 py-2 text-right">Amount</th>
+                  <th className="px-2 py-2 text-left">Paid by</th>
+                  <th className="px-2 py-2 text-left">Split between</th>
+                  <th className="px-2 py-2 text-left">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {importRows.slice(0, MAX_PREVIEW_ROWS).map(row => {
+                  const { expense } = row;
+                  const isValid = row.errors.length === 0;
+                  return (
+                    <tr key={row.line} className={`border-t border-gray-100 ${isValid ? '' : 'bg-red-50'}`}>
+                      <td className="px-2 py-1 text-gray-500">{row.line}</td>
+                      <td className="px-2 py-1 whitespace-nowrap">{expense.date && formatDateOnly(expense.date)}</td>
+                      <td className="px-2 py-1">{expense.description}</td>
+                      <td className="px-2 py-1 text-right whitespace-nowrap">{formatCurrency(expense.amount, expense.currency)}</td>
+                      <td className="px-2 py-1">
+                        {expense.payers.map(payer => getParticipantName(allParticipants, payer.participantId)).join(', ')}
+                      </td>
+                      <td className="px-2 py-1">
+                        {expense.involved.map(id => getParticipantName(allParticipants, id)).join(', ')}
+                      </td>
+                      <td className={`px-2 py-1 ${isValid ? 'text-green-700' : 'text-red-600'}`}>
+                        {isValid ? '✓ Ready' : row.errors.join('; ')}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            {importRows.length > MAX_PREVIEW_ROWS && (
+              <div className="px-2 py-2 text-xs text-gray-500 border-t border-gray-100">
+                Showing the first {MAX_PREVIEW_ROWS} of {importRows.length} rows.
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-between items-center gap-2">
+          <span className="text-sm text-gray-600">
+            {importRows.length > 0 && `${validRows.length} of ${importRows.length} rows can be imported`}
+          </span>
+          <div className="flex gap-2">
+            <button
+              onClick={onCancel}
+              className="px-4 py-2 rounded-md text-sm text-gray-700 bg-gray-100 hover:bg-gray-200 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleImport}
+              disabled={validRows.length === 0}
+              className="px-4 py-2 rounded-md text-sm text-white bg-blue-500 hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Import {validRows.length} expense{validRows.length !== 1 ? 's' : ''}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+import { useState } from 'react';
+import type { Expense, Payment, RecurringTemplate, GroupSettings } from '../types';
+import { COMMON_CURRENCIES, countExpensesInCurrency, countPaymentsInCurrency, isValidCurrencyCode } from '../utils';
+
+interface CurrencySettingsProps {
+  settings: GroupSettings;
+  expenses: Expense[];
+  payments: Payment[];
+  recurringTemplates: RecurringTemplate[];
+  onSettingsChange: (settings: GroupSettings) => void;
+  onBaseCurrencyChange: (currency: string) => void; // also converts the rates set on expenses
+}
+
+export default function CurrencySettings({
+  settings,
+  expenses,
+  payments,
+  recurringTemplates,
+  onSettingsChange,
+  onBaseCurrencyChange
+}: CurrencySettingsProps) {
+  const [newCurrency, setNewCurrency] = useState('');
+  const [newRate, setNewRate] = useState('');
+  const [error, setError] = useState('');
+
+  const { baseCurrency, exchangeRates } = settings;
+  const rateCurrencies = Object.keys(exchangeRates).sort();
+  const availableCurrencies = COMMON_CURRENCIES.filter(
+    code => code !== baseCurrency && !(code in exchangeRates)
+  );
+
+  // Rates are relative to the base currency, so they can only be re-expressed against a new one
+  // that has a rate itself
+  const changeBaseCurrency = (currency: string) => {
+    if (currency === baseCurrency) return;
+
+    const hasAmounts = expenses.length > 0 || payments.length > 0 || recurringTemplates.length > 0;
+    if (!exchangeRates[currency] && hasAmounts) {
+      setError(`Add an exchange rate for ${currency} first so existing amounts can be converted`);
+      return;
+    }
+
+    setError('');
+    onBaseCurrencyChange(currency);
+  };
+
+  // Amounts that are converted with the group's rate for the currency
+  const describeUsage = (currency: string): string => {
+    const templateExpenses = recurringTemplates.map(template => template.expense);
+    const counts: [number, string][] = [
+      [countExpensesInCurrency(expenses, currency), 'expense'],
+      [countPaymentsInCurrency(payments, currency), 'payment'],
+      [countExpensesInCurrency(templateExpenses, currency), 'recurring expense']
+    ];
+    return counts
+      .filter(([count]) => count > 0)
+      .map(([count, noun]) => `${count} ${noun}${count !== 1 ? 's' : ''}`)
+      .join(', ');
+  };
+
+  const updateRate = (currency: string, value: string) => {
+    const rate = parseFloat(value);
+    if (!Number.isFinite(rate) || rate <= 0) return;
+    onSettingsChange({ ...settings, exchangeRates: { ...exchangeRates, [currency]: rate } });
+  };
+
+  const removeRate = (currency: string) => {
+    const remainingRates = { ...exchangeRates };
+    delete remainingRates[currency];
+    onSettingsChange({ ...settings, exchangeRates: remainingRates });
+  };
+
+  const addRate = () => {
+    const code = newCurrency.trim().toUpperCase();
+    const rate = parseFloat(newRate);
+
+    if (!isValidCurrencyCode(code)) {
+      setError('Please enter a valid 3-letter currency code');
+      return;
+    }
+
+    if (code === baseCurrency) {
+      setError(`${code} is already the base currency`);
+      return;
+    }
+
+    if (!Number.isFinite(rate) || rate <= 0) {
+      setError('Exchange rate must be greater than 0');
+      return;
+    }
+
+    onSettingsChange({ ...settings, exchangeRates: { ...exchangeRates, [code]: rate } });
+    setNewCurrency('');
+    setNewRate('');
+    setError('');
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <h2 className="text-xl font-semibold text-gray-800 mb-4 flex items-center gap-2">
+        <svg className="w-6 h-6 text-teal-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+        </svg>
+        Currencies
+      </h2>
+
+      {/* Base Currency */}
+      <div className="mb-4">
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Base currency
+        </label>
+        <select
+          value={baseCurrency}
+          onChange={(e) => changeBaseCurrency(e.target.value)}
+          className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {Array.from(new Set([baseCurrency, ...COMMON_CURRENCIES])).map(code => (
+            <option key={code} value={code}>{code}</option>
+          ))}
+        </select>
+        <p className="text-xs text-gray-500 mt-1">Balances and settlements are calculated in {baseCurrency}.</p>
+      </div>
+
+      {/* Exchange Rates */}
+      <div>
+        <h3 className="text-sm font-medium text-gray-700 mb-2">Exchange rates</h3>
+        {rateCurrencies.length === 0 ? (
+          <p className="text-sm text-gray-500 mb-3">No other currencies yet. Add a rate to record expenses in another currency.</p>
+        ) : (
+          <div className="space-y-2 mb-3">
+            {rateCurrencies.map(currency => {
+              const usage = describeUsage(currency);
+              return (
+                <div key={currency} className="flex items-center gap-2 text-sm">
+                  <span className="w-16 text-gray-700">1 {currency} =</span>
+                  <input
+                    key={exchangeRates[currency]}
+                    type="number"
+                    defaultValue={exchangeRates[currency]}
+                    onBlur={(e) => updateRate(currency, e.target.value)}
+                    step="0.0001"
+                    min="0"
+                    className="w-28 px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <span className="text-gray-700">{baseCurrency}</span>
+                  <span className="flex-1 text-xs text-gray-400 text-right">
+                    {usage}
+                  </span>
+                  <button
+                    onClick={() => removeRate(currency)}
+                    disabled={usage !== ''}
+                    className="text-red-500 hover:text-red-700 hover:bg-red-50 p-1 rounded transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+                    title={usage ? `This rate is used by ${usage}` : 'Remove rate'}
+                  >
+                    ✕
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <input
+            type="text"
+            list="currency-options"
+            placeholder="EUR"
+            value={newCurrency}
+            onChange={(e) => {
+              setNewCurrency(e.target.value);
+              setError('');
+            }}
+            maxLength={3}
+            className="w-20 px-3 py-2 border border-gray-300 rounded-md text-sm uppercase focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <datalist id="currency-options">
+            {availableCurrencies.map(code => (
+              <option key={code} value={code} />
+            ))}
+          </datalist>
+          <input
+            type="number"
+            placeholder={`Rate in ${baseCurrency}`}
+            value={newRate}
+            onChange={(e) => {
+              setNewRate(e.target.value);
+              setError('');
+            }}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') addRate();
+            }}
+            step="0.0001"
+            min="0"
+            className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            onClick={addRate}
+            className="bg-blue-500 text-white px-4 py-2 rounded-md text-sm hover:bg-blue-600 transition-colors"
+          >
+            Add
+          </button>
+        </div>
+        {error && (
+          <p className="text-red-500 text-sm mt-2">{error}</p>
+        )}
+      </div>
+    </div>
+  );
+}
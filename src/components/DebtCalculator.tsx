@@ -1,98 +1,88 @@
-import { useState, useEffect } from 'react';
-import type { Participant, Expense, Balance, Settlement, ParticipantStats } from '../types';
-import { formatCurrency, roundToTwoDecimals, calculateParticipantStats } from '../utils';
+import { useState, useMemo } from 'react';
+import type { Participant, Expense, Payment, Balance, Settlement, ParticipantStats, GroupSettings, DateRange } from '../types';
+import {
+  formatCurrency,
+  toMinorUnits,
+  calculateParticipantStats,
+  calculatePairwiseDebts,
+  calculateCategoryBreakdown,
+  describeSettlementRules,
+  describeDateRange,
+  getNetBalance,
+  getParticipantName
+} from '../utils';
 import ExportButton from './ExportButton';
+import PaymentDialog from './PaymentDialog';
+import { planSettlements } from '../settlement';
 
 interface DebtCalculatorProps {
   participants: Participant[];
   expenses: Expense[];
+  payments: Payment[];
+  settings: GroupSettings;
+  dateRange: DateRange; // expenses and payments are already limited to it
+  onPaymentRecorded?: (payment: Payment) => void; // without it, settlements can't be marked as paid
 }
 
-export default function DebtCalculator({ participants, expenses }: DebtCalculatorProps) {
-  const [balances, setBalances] = useState<Balance[]>([]);
-  const [settlements, setSettlements] = useState<Settlement[]>([]);
-  const [stats, setStats] = useState<ParticipantStats[]>([]);
+export default function DebtCalculator({
+  participants,
+  expenses,
+  payments,
+  settings,
+  dateRange,
+  onPaymentRecorded
+}: DebtCalculatorProps) {
   const [showSpendingDetails, setShowSpendingDetails] = useState(false);
+  const [payingSettlement, setPayingSettlement] = useState<Settlement | null>(null);
 
-  const calculateSettlements = (balanceArray: Balance[]) => {
-    const settlements: Settlement[] = [];
-    const balances = balanceArray.map(balance => ({ ...balance }));
-
-    // Separate creditors (positive balance) and debtors (negative balance)
-    const creditors = balances.filter(b => b.amount > 0.01).sort((a, b) => b.amount - a.amount);
-    const debtors = balances.filter(b => b.amount < -0.01).sort((a, b) => a.amount - b.amount);
-
-    let creditorIndex = 0;
-    let debtorIndex = 0;
-
-    while (creditorIndex < creditors.length && debtorIndex < debtors.length) {
-      const creditor = creditors[creditorIndex];
-      const debtor = debtors[debtorIndex];
-
-      if (Math.abs(creditor.amount) < 0.01 || Math.abs(debtor.amount) < 0.01) {
-        // Skip if balance is effectively zero
-        if (Math.abs(creditor.amount) < 0.01) creditorIndex++;
-        if (Math.abs(debtor.amount) < 0.01) debtorIndex++;
-        continue;
-      }
-
-      const settlementAmount = Math.min(creditor.amount, Math.abs(debtor.amount));
-      
-      settlements.push({
-        from: debtor.name,
-        to: creditor.name,
-        amount: roundToTwoDecimals(settlementAmount)
-      });
-
-      // Update remaining balances
-      creditor.amount = roundToTwoDecimals(creditor.amount - settlementAmount);
-      debtor.amount = roundToTwoDecimals(debtor.amount + settlementAmount);
-
-      // Move to next person if balance is settled
-      if (Math.abs(creditor.amount) < 0.01) creditorIndex++;
-      if (Math.abs(debtor.amount) < 0.01) debtorIndex++;
+  // Balances and settlements, only worked out again when the data changes
+  const { balances, stats, settlements } = useMemo((): {
+    balances: Balance[];
+    stats: ParticipantStats[];
+    settlements: Settlement[];
+  } => {
+    if (participants.length === 0 || (expenses.length === 0 && payments.length === 0)) {
+      return { balances: [], stats: [], settlements: [] };
     }
 
-    setSettlements(settlements);
-  };
+    // Use the same calculation logic as SpendingChart
+    const statsMap = calculateParticipantStats(participants, expenses, settings, payments);
 
-  // Calculate balances and settlements when data changes
-  useEffect(() => {
-    if (participants.length > 0 && expenses.length > 0) {
-      // Use the same calculation logic as SpendingChart
-      const statsMap = calculateParticipantStats(participants, expenses);
+    // Convert to balance array (net balance = paid - owed, adjusted by settle-up payments)
+    const balanceArray: Balance[] = Array.from(statsMap.entries()).map(([participantId, stats]) => ({
+      participantId,
+      name: getParticipantName(participants, participantId),
+      amount: getNetBalance(stats)
+    }));
 
-      // Convert to balance array (net balance = totalPaid - totalOwed)
-      const balanceArray: Balance[] = Array.from(statsMap.entries()).map(([name, stats]: [string, { totalPaid: number; totalOwed: number }]) => ({
-        name,
-        amount: roundToTwoDecimals(stats.totalPaid - stats.totalOwed)
-      }));
-      
-      // Also calculate detailed stats for spending overview
-      const statsArray: ParticipantStats[] = Array.from(statsMap.entries()).map(([name, stats]) => ({
-        name,
-        totalPaid: roundToTwoDecimals(stats.totalPaid),
-        totalOwed: roundToTwoDecimals(stats.totalOwed),
-        netBalance: roundToTwoDecimals(stats.totalPaid - stats.totalOwed)
-      }));
-      
-      setBalances(balanceArray);
-      setStats(statsArray);
-      calculateSettlements(balanceArray);
-    } else {
-      setBalances([]);
-      setStats([]);
-      setSettlements([]);
-    }
-  }, [participants, expenses]);
+    // Also calculate detailed stats for spending overview
+    const statsArray: ParticipantStats[] = Array.from(statsMap.entries()).map(([participantId, stats]) => ({
+      participantId,
+      name: getParticipantName(participants, participantId),
+      totalPaid: stats.totalPaid,
+      totalOwed: stats.totalOwed,
+      netBalance: getNetBalance(stats)
+    }));
+
+    // Direct debts are only needed when settling pairwise
+    const pairwiseDebts = settings.settlementStrategy === 'pairwise'
+      ? calculatePairwiseDebts(expenses, settings, payments)
+      : [];
+    return { balances: balanceArray, stats: statsArray, settlements: planSettlements(balanceArray, pairwiseDebts, settings) };
+  }, [participants, expenses, payments, settings]);
 
   const getMaxAmount = (): number => {
-    if (stats.length === 0) return 100;
+    const minimumScale = toMinorUnits(100, settings.baseCurrency);
+    if (stats.length === 0) return minimumScale;
     const maxPaid = Math.max(...stats.map(s => s.totalPaid));
     const maxOwed = Math.max(...stats.map(s => s.totalOwed));
-    return Math.max(maxPaid, maxOwed, 100);
+    return Math.max(maxPaid, maxOwed, minimumScale);
   };
 
+  const isDateFiltered = Boolean(dateRange.from || dateRange.to);
+  const categoryBreakdown = useMemo(() => calculateCategoryBreakdown(expenses, settings), [expenses, settings]);
+  const categoryTotal = categoryBreakdown.reduce((sum, breakdown) => sum + breakdown.total, 0);
+
   const getBarWidth = (amount: number): string => {
     const maxAmount = getMaxAmount();
     const percentage = (amount / maxAmount) * 100;
@@ -115,7 +105,7 @@ export default function DebtCalculator({ participants, expenses }: DebtCalculato
     );
   }
 
-  if (expenses.length === 0) {
+  if (expenses.length === 0 && payments.length === 0) {
     return (
       <div className="bg-white rounded-lg shadow-md p-6" data-testid="debt-calculator">
         <h2 className="text-xl font-semibold text-gray-800 mb-4 flex items-center gap-2">
@@ -125,7 +115,9 @@ export default function DebtCalculator({ participants, expenses }: DebtCalculato
           Debt Calculator
         </h2>
         <p className="text-gray-500 text-center py-4">
-          Add some expenses first to see debt calculations.
+          {isDateFiltered
+            ? `No expenses or payments in the selected dates (${describeDateRange(dateRange)}).`
+            : 'Add some expenses first to see debt calculations.'}
         </p>
       </div>
     );
@@ -140,6 +132,12 @@ export default function DebtCalculator({ participants, expenses }: DebtCalculato
         Debt Calculator
       </h2>
 
+      {isDateFiltered && (
+        <div className="mb-4 p-2 bg-amber-50 border border-amber-200 rounded-md text-xs text-amber-800">
+          Only counting expenses and payments dated {describeDateRange(dateRange)}
+        </div>
+      )}
+
       {/* Individual Balances */}
       <div className="mb-6">
         <h3 className="text-lg font-medium text-gray-700 mb-2">Individual Balances</h3>
@@ -147,7 +145,7 @@ export default function DebtCalculator({ participants, expenses }: DebtCalculato
         <div className="grid grid-cols-2 sm:grid-cols-2 gap-2">
           {balances.map((balance) => (
             <div
-              key={balance.name}
+              key={balance.participantId}
               className="flex justify-between items-center p-2 bg-gradient-to-r from-gray-50 to-gray-100 rounded-lg border border-gray-200 hover:border-gray-300 transition-colors"
             >
               <span className="font-medium text-gray-800 text-sm">{balance.name}</span>
@@ -161,8 +159,8 @@ export default function DebtCalculator({ participants, expenses }: DebtCalculato
                 }`}
               >
                 {balance.amount === 0 
-                  ? formatCurrency(0) 
-                  : (balance.amount > 0 ? '+' : '') + formatCurrency(balance.amount)
+                  ? formatCurrency(0, settings.baseCurrency) 
+                  : (balance.amount > 0 ? '+' : '') + formatCurrency(balance.amount, settings.baseCurrency)
                 }
               </span>
             </div>
@@ -194,12 +192,12 @@ export default function DebtCalculator({ participants, expenses }: DebtCalculato
           <h4 className="text-sm font-medium text-gray-700 mb-3">Detailed Spending Breakdown</h4>
           <div className="space-y-4">
             {stats.map((participant) => (
-              <div key={participant.name} className="space-y-2">
+              <div key={participant.participantId} className="space-y-2">
                 <div className="flex justify-between items-center">
                   <h5 className="font-medium text-gray-800 text-sm">{participant.name}</h5>
                   <div className="text-xs text-gray-600">
                     Net: <span className={`font-semibold ${participant.netBalance >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                      {participant.netBalance >= 0 ? '+' : ''}{formatCurrency(participant.netBalance)}
+                      {participant.netBalance >= 0 ? '+' : ''}{formatCurrency(participant.netBalance, settings.baseCurrency)}
                     </span>
                   </div>
                 </div>
@@ -208,7 +206,7 @@ export default function DebtCalculator({ participants, expenses }: DebtCalculato
                 <div className="space-y-1">
                   <div className="flex justify-between text-xs text-gray-500">
                     <span>Paid</span>
-                    <span>{formatCurrency(participant.totalPaid)}</span>
+                    <span>{formatCurrency(participant.totalPaid, settings.baseCurrency)}</span>
                   </div>
                   <div className="w-full bg-gray-200 rounded-full h-2">
                     <div
@@ -222,7 +220,7 @@ export default function DebtCalculator({ participants, expenses }: DebtCalculato
                 <div className="space-y-1">
                   <div className="flex justify-between text-xs text-gray-500">
                     <span>Owed</span>
-                    <span>{formatCurrency(participant.totalOwed)}</span>
+                    <span>{formatCurrency(participant.totalOwed, settings.baseCurrency)}</span>
                   </div>
                   <div className="w-full bg-gray-200 rounded-full h-2">
                     <div
@@ -248,12 +246,62 @@ export default function DebtCalculator({ participants, expenses }: DebtCalculato
               </div>
             </div>
           </div>
+
+          {/* By Category */}
+          {categoryBreakdown.length > 0 && (
+            <div className="mt-4 pt-3 border-t border-gray-200">
+              <h4 className="text-sm font-medium text-gray-700 mb-3">By Category</h4>
+              <div className="space-y-2">
+                {categoryBreakdown.map(({ category, total }) => (
+                  <div key={category.id} className="space-y-1">
+                    <div className="flex justify-between text-xs text-gray-600">
+                      <span>{category.icon} {category.name}</span>
+                      <span>{formatCurrency(total, settings.baseCurrency)}</span>
+                    </div>
+                    <div className="w-full bg-gray-200 rounded-full h-2">
+                      <div
+                        className="h-2 rounded-full transition-all duration-300"
+                        style={{ width: `${categoryTotal > 0 ? (total / categoryTotal) * 100 : 0}%`, backgroundColor: category.color }}
+                      ></div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {/* Each participant's share, split by category */}
+              <h4 className="text-sm font-medium text-gray-700 mt-4 mb-3">Shares by Category</h4>
+              <div className="space-y-2">
+                {stats.filter(participant => participant.totalOwed > 0).map(participant => (
+                  <div key={participant.participantId} className="space-y-1">
+                    <div className="flex justify-between text-xs text-gray-600">
+                      <span>{participant.name}</span>
+                      <span>{formatCurrency(participant.totalOwed, settings.baseCurrency)}</span>
+                    </div>
+                    <div className="w-full bg-gray-200 rounded-full h-2 flex overflow-hidden">
+                      {categoryBreakdown.map(({ category, byParticipant }) => {
+                        const share = byParticipant.get(participant.participantId) || 0;
+                        return share > 0 && (
+                          <div
+                            key={category.id}
+                            className="h-2"
+                            style={{ width: `${(share / participant.totalOwed) * 100}%`, backgroundColor: category.color }}
+                            title={`${category.name}: ${formatCurrency(share, settings.baseCurrency)}`}
+                          ></div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
       )}
 
       {/* Debt Settlements */}
       <div>
-        <h3 className="text-lg font-medium text-gray-700 mb-3">Settlement Plan</h3>
+        <h3 className="text-lg font-medium text-gray-700 mb-1">Settlement Plan</h3>
+        <p className="text-xs text-gray-500 mb-3">{describeSettlementRules(settings, participants).join(' · ')}</p>
         {settlements.length === 0 ? (
           <p className="text-gray-500 text-center py-4">
             All debts are already settled! 🎉
@@ -263,16 +311,33 @@ export default function DebtCalculator({ participants, expenses }: DebtCalculato
             {settlements.map((settlement, index) => (
               <div
                 key={index}
-                className="flex items-center justify-between p-3 bg-blue-50 border border-blue-200 rounded-md"
+                className={`flex items-center justify-between p-3 border rounded-md ${
+                  settlement.blocked ? 'bg-red-50 border-red-200' : 'bg-blue-50 border-blue-200'
+                }`}
               >
                 <div className="flex items-center gap-2">
-                  <span className="font-medium text-gray-800">{settlement.from}</span>
+                  <span className="font-medium text-gray-800">{getParticipantName(participants, settlement.from)}</span>
                   <span className="text-gray-500">→</span>
-                  <span className="font-medium text-gray-800">{settlement.to}</span>
+                  <span className="font-medium text-gray-800">{getParticipantName(participants, settlement.to)}</span>
+                  {settlement.blocked && (
+                    <span className="text-xs text-red-600" title="This transfer is blocked, but the chosen strategy has no way around it">
+                      ⚠ blocked
+                    </span>
+                  )}
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className="font-semibold text-blue-600">
+                    {formatCurrency(settlement.amount, settings.baseCurrency)}
+                  </span>
+                  {onPaymentRecorded && (
+                    <button
+                      onClick={() => setPayingSettlement(settlement)}
+                      className="px-2 py-1 rounded-md text-xs font-medium text-green-700 bg-green-100 hover:bg-green-200 transition-colors"
+                    >
+                      Mark as paid
+                    </button>
+                  )}
                 </div>
-                <span className="font-semibold text-blue-600">
-                  {formatCurrency(settlement.amount)}
-                </span>
               </div>
             ))}
           </div>
@@ -295,11 +360,27 @@ export default function DebtCalculator({ participants, expenses }: DebtCalculato
         <ExportButton 
           participants={participants}
           expenses={expenses}
+          payments={payments}
+          settings={settings}
+          dateRange={dateRange}
           balances={balances}
           settlements={settlements}
           stats={stats}
         />
       </div>
+
+      {payingSettlement && onPaymentRecorded && (
+        <PaymentDialog
+          participants={participants}
+          settlement={payingSettlement}
+          currency={settings.baseCurrency}
+          onConfirm={(payment) => {
+            onPaymentRecorded(payment);
+            setPayingSettlement(null);
+          }}
+          onCancel={() => setPayingSettlement(null)}
+        />
+      )}
     </div>
   );
 } 
\ No newline at end of file
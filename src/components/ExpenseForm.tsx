@@ -1,71 +1,345 @@
-import { useState, useEffect } from 'react';
-import type { Expense, ExpenseFormProps } from '../types';
-import { validateExpense } from '../utils';
+import { useState, useEffect, useRef } from 'react';
+import type { Expense, ExpenseFormProps, ExpensePayer, RecurrenceFrequency, RecurringTemplate, SplitMode } from '../types';
+import {
+  validateExpense,
+  parseSplitValues,
+  calculateExpenseShares,
+  getItemizedTotals,
+  formatCurrency,
+  formatDate,
+  generateId,
+  getCurrencySymbol,
+  getExchangeRate,
+  toBaseCurrency,
+  parseAmount,
+  formatAmountInput,
+  getCategories,
+  toDateInputValue,
+  fromDateInputValue,
+  validateRecurrence,
+  RECURRENCE_LABELS,
+  DEFAULT_CATEGORY_ID
+} from '../utils';
+import SplitEditor from './SplitEditor';
+import ItemizedEditor from './ItemizedEditor';
+import type { ItemDraft, ChargesDraft } from './ItemizedEditor';
 
-export default function ExpenseForm({ participants, onExpenseAdded }: ExpenseFormProps) {
+const EMPTY_CHARGES: ChargesDraft = { tax: '', tip: '', service: '' };
+
+type ExpenseData = Omit<Expense, 'id' | 'createdAt'>;
+
+type RepeatEnd = 'never' | 'date' | 'count';
+
+export default function ExpenseForm({
+  participants,
+  settings,
+  onExpenseAdded,
+  onRecurringTemplateAdded,
+  expenseToEdit,
+  onExpenseUpdated,
+  onCancelEdit
+}: ExpenseFormProps) {
   const [description, setDescription] = useState('');
+  const [category, setCategory] = useState(DEFAULT_CATEGORY_ID);
+  const [date, setDate] = useState(toDateInputValue(new Date().toISOString()));
   const [amount, setAmount] = useState('');
+  const [currency, setCurrency] = useState(settings.baseCurrency);
+  const [exchangeRate, setExchangeRate] = useState('');
   const [payer, setPayer] = useState('');
+  const [multiplePayers, setMultiplePayers] = useState(false);
+  const [payerAmounts, setPayerAmounts] = useState<Record<string, string>>({});
   const [involved, setInvolved] = useState<string[]>([]);
+  const [splitMode, setSplitMode] = useState<SplitMode>('equal');
+  const [splitValues, setSplitValues] = useState<Record<string, string>>({});
+  const [items, setItems] = useState<ItemDraft[]>([]);
+  const [charges, setCharges] = useState<ChargesDraft>(EMPTY_CHARGES);
+  const [repeat, setRepeat] = useState<RecurrenceFrequency | ''>('');
+  const [repeatEnd, setRepeatEnd] = useState<RepeatEnd>('never');
+  const [repeatUntil, setRepeatUntil] = useState('');
+  const [repeatCount, setRepeatCount] = useState('12');
   const [errors, setErrors] = useState<string[]>([]);
+  const formRef = useRef<HTMLDivElement>(null);
+  const isEditing = Boolean(expenseToEdit);
 
   // Reset form when participants change
   useEffect(() => {
-    if (participants.length > 0) {
-      if (!payer) {
-        setPayer(participants[0].name);
+    if (participants.length > 0 && !expenseToEdit) {
+      if (!payer || !participants.some(p => p.id === payer)) {
+        setPayer(participants[0].id);
       }
       // Only set involved participants if they haven't been set yet or if participants list changed
       if (involved.length === 0 || involved.length !== participants.length) {
-        setInvolved(participants.map(p => p.name));
+        setInvolved(participants.map(p => p.id));
       }
     }
   }, [participants]);
 
-  const handleInvolvedChange = (participantName: string, checked: boolean) => {
+  // Load the expense being edited into the form
+  useEffect(() => {
+    if (expenseToEdit) {
+      setDescription(expenseToEdit.description);
+      setCategory(expenseToEdit.category);
+      setDate(toDateInputValue(expenseToEdit.date));
+      setAmount(formatAmountInput(expenseToEdit.amount, expenseToEdit.currency));
+      setCurrency(expenseToEdit.currency);
+      setExchangeRate(expenseToEdit.exchangeRate ? expenseToEdit.exchangeRate.toString() : '');
+      setPayer(expenseToEdit.payers[0]?.participantId || '');
+      setMultiplePayers(expenseToEdit.payers.length > 1);
+      setPayerAmounts(expenseToEdit.payers.length > 1
+        ? Object.fromEntries(expenseToEdit.payers.map(p => [p.participantId, formatAmountInput(p.amount, expenseToEdit.currency)]))
+        : {});
+      setInvolved(expenseToEdit.involved);
+      setSplitMode(expenseToEdit.splitMode);
+      setSplitValues(Object.fromEntries(
+        Object.entries(expenseToEdit.splitValues).map(([id, value]) => [
+          id,
+          expenseToEdit.splitMode === 'exact' ? formatAmountInput(value, expenseToEdit.currency) : value.toString()
+        ])
+      ));
+      const toInput = (value: number) => formatAmountInput(value, expenseToEdit.currency);
+      setItems((expenseToEdit.items || []).map(item => ({ ...item, amount: toInput(item.amount) })));
+      setCharges(expenseToEdit.charges
+        ? {
+          tax: toInput(expenseToEdit.charges.tax),
+          tip: toInput(expenseToEdit.charges.tip),
+          service: toInput(expenseToEdit.charges.service)
+        }
+        : EMPTY_CHARGES);
+      setErrors([]);
+      formRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    }
+  }, [expenseToEdit]);
+
+  const resetForm = () => {
+    setDescription('');
+    setCategory(DEFAULT_CATEGORY_ID);
+    setDate(toDateInputValue(new Date().toISOString()));
+    setAmount('');
+    setCurrency(settings.baseCurrency);
+    setExchangeRate('');
+    setPayer(participants.length > 0 ? participants[0].id : '');
+    setMultiplePayers(false);
+    setPayerAmounts({});
+    setInvolved(participants.map(p => p.id)); // Reset to all participants
+    setSplitMode('equal');
+    setSplitValues({});
+    setItems([]);
+    setCharges(EMPTY_CHARGES);
+    setRepeat('');
+    setRepeatEnd('never');
+    setRepeatUntil('');
+    setRepeatCount('12');
+    setErrors([]);
+  };
+
+  const handleSplitModeChange = (mode: SplitMode) => {
+    // Start a receipt from what has been entered so far
+    if (mode === 'itemized' && items.length === 0) {
+      setItems([{ id: generateId(), description: description.trim(), amount, involved }]);
+    }
+    setSplitMode(mode);
+  };
+
+  const toggleMultiplePayers = () => {
+    if (multiplePayers) {
+      const selected = Object.keys(payerAmounts);
+      if (selected.length > 0) {
+        setPayer(selected[0]);
+      }
+      setPayerAmounts({});
+    } else {
+      setPayerAmounts(payer ? { [payer]: '' } : {});
+    }
+    setMultiplePayers(!multiplePayers);
+  };
+
+  const handlePayerClick = (participantId: string) => {
+    if (!multiplePayers) {
+      setPayer(participantId);
+      return;
+    }
+
+    if (participantId in payerAmounts) {
+      const rest = { ...payerAmounts };
+      delete rest[participantId];
+      setPayerAmounts(rest);
+    } else {
+      setPayerAmounts({ ...payerAmounts, [participantId]: '' });
+    }
+  };
+
+  const isPayerSelected = (participantId: string) => {
+    return multiplePayers ? participantId in payerAmounts : payer === participantId;
+  };
+
+  // With one payer they paid the whole amount; several payers enter what each put down
+  const buildPayers = (total: number): ExpensePayer[] => {
+    if (!multiplePayers) {
+      return payer ? [{ participantId: payer, amount: total }] : [];
+    }
+
+    return participants
+      .filter(p => p.id in payerAmounts)
+      .map(p => ({ participantId: p.id, amount: parseAmount(payerAmounts[p.id], currency) }));
+  };
+
+  // A per-expense rate only applies to foreign currencies and is dropped when left empty
+  const buildCurrencyFields = (): Pick<ExpenseData, 'currency' | 'exchangeRate'> => {
+    if (currency === settings.baseCurrency || !exchangeRate.trim()) {
+      return { currency };
+    }
+    return { currency, exchangeRate: parseFloat(exchangeRate) };
+  };
+
+  // Keep the stored time of day when the day itself wasn't changed, so edits don't reorder the list
+  const buildDate = (): string => {
+    if (!date) return '';
+    if (expenseToEdit && toDateInputValue(expenseToEdit.date) === date) {
+      return expenseToEdit.date;
+    }
+    return fromDateInputValue(date);
+  };
+
+  // Assemble the expense fields from the current form state
+  const buildExpenseData = (): ExpenseData => {
+    if (splitMode === 'itemized') {
+      const parsedItems = items.map(item => ({ ...item, amount: parseAmount(item.amount, currency) }));
+      const parsedCharges = {
+        tax: parseAmount(charges.tax, currency),
+        tip: parseAmount(charges.tip, currency),
+        service: parseAmount(charges.service, currency)
+      };
+      // Everyone on at least one item is involved, in participant order
+      const itemizedInvolved = participants
+        .filter(p => parsedItems.some(item => item.involved.includes(p.id)))
+        .map(p => p.id);
+
+      const total = getItemizedTotals(parsedItems, parsedCharges).total;
+
+      return {
+        description: description.trim(),
+        amount: total,
+        payers: buildPayers(total),
+        involved: itemizedInvolved,
+        splitMode,
+        splitValues: {},
+        items: parsedItems,
+        charges: parsedCharges,
+        category,
+        date: buildDate(),
+        ...buildCurrencyFields()
+      };
+    }
+
+    const total = parseAmount(amount, currency);
+    // Participant order decides who gets leftover cents, so don't depend on click order
+    const orderedInvolved = participants.filter(p => involved.includes(p.id)).map(p => p.id);
+
+    return {
+      description: description.trim(),
+      amount: total,
+      payers: buildPayers(total),
+      involved: orderedInvolved,
+      splitMode,
+      splitValues: splitMode === 'equal' ? {} : parseSplitValues(splitValues, orderedInvolved, splitMode, currency),
+      category,
+      date: buildDate(),
+      ...buildCurrencyFields()
+    };
+  };
+
+  const handleCancelEdit = () => {
+    resetForm();
+    onCancelEdit?.();
+  };
+
+  const handleInvolvedChange = (participantId: string, checked: boolean) => {
     if (checked) {
-      setInvolved([...involved, participantName]);
+      setInvolved([...involved, participantId]);
     } else {
-      setInvolved(involved.filter(name => name !== participantName));
+      setInvolved(involved.filter(id => id !== participantId));
     }
   };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
-    const expenseData = {
-      description: description.trim(),
-      amount: parseFloat(amount),
-      payer,
-      involved
-    };
+    const expenseData = buildExpenseData();
+
+    const endDate = repeat && repeatEnd === 'date' && repeatUntil ? fromDateInputValue(repeatUntil) : undefined;
+    const maxOccurrences = repeat && repeatEnd === 'count' ? Number(repeatCount) : undefined;
 
-    const validationErrors = validateExpense(expenseData);
+    const validationErrors = [
+      ...validateExpense(expenseData, settings),
+      ...(repeat && !expenseToEdit ? validateRecurrence(expenseData.date, endDate, maxOccurrences) : []),
+      ...(repeat && repeatEnd === 'date' && !repeatUntil ? ['Choose the date the expense stops repeating'] : [])
+    ];
     if (validationErrors.length > 0) {
       setErrors(validationErrors);
       return;
     }
 
-    const newExpense: Expense = {
-      id: Date.now().toString(),
-      description: expenseData.description,
-      amount: expenseData.amount,
-      payer: expenseData.payer,
-      involved: expenseData.involved,
-      date: new Date().toISOString()
-    };
+    if (expenseToEdit) {
+      // Keep the original id and creation time
+      const updatedExpense: Expense = { ...expenseToEdit, ...expenseData };
+      if (expenseData.splitMode !== 'itemized') {
+        delete updatedExpense.items;
+        delete updatedExpense.charges;
+      }
+      if (expenseData.exchangeRate === undefined) {
+        delete updatedExpense.exchangeRate;
+      }
+      onExpenseUpdated?.(updatedExpense);
+    } else if (repeat) {
+      // The template adds the expense itself once its first date comes around
+      const { date: startDate, ...templateExpense } = expenseData;
+      const template: RecurringTemplate = {
+        id: generateId(),
+        expense: templateExpense,
+        frequency: repeat,
+        startDate,
+        ...(endDate && { endDate }),
+        ...(maxOccurrences !== undefined && { maxOccurrences }),
+        occurrenceCount: 0,
+        paused: false
+      };
+      onRecurringTemplateAdded(template);
+    } else {
+      const newExpense: Expense = {
+        id: Date.now().toString(),
+        ...expenseData,
+        createdAt: new Date().toISOString()
+      };
 
-    // Notify parent component
-    onExpenseAdded(newExpense);
+      // Notify parent component
+      onExpenseAdded(newExpense);
+    }
 
-    // Reset form
-    setDescription('');
-    setAmount('');
-    setPayer(participants.length > 0 ? participants[0].name : '');
-    setInvolved(participants.map(p => p.name)); // Reset to all participants
-    setErrors([]);
+    resetForm();
+  };
+
+  const renderPayersRemaining = () => {
+    const { amount: total, payers } = buildExpenseData();
+    const paid = payers.reduce((sum, p) => sum + p.amount, 0);
+    const remaining = total - paid;
+
+    return (
+      <div className={`text-xs text-right ${remaining === 0 ? 'text-green-600' : 'text-red-500'}`}>
+        {remaining === 0
+          ? 'Payments cover the total'
+          : `${formatCurrency(Math.abs(remaining), currency)} ${remaining > 0 ? 'still unpaid' : 'more than the total'}`}
+      </div>
+    );
   };
 
+  // The base currency plus every currency the group has a rate for
+  const currencyOptions = Array.from(new Set([
+    settings.baseCurrency,
+    ...Object.keys(settings.exchangeRates),
+    currency
+  ]));
+  const previewRate = getExchangeRate(buildCurrencyFields(), settings);
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && e.ctrlKey) {
       handleSubmit(e);
@@ -89,12 +363,18 @@ export default function ExpenseForm({ participants, onExpenseAdded }: ExpenseFor
   }
 
   return (
-    <div className="bg-white rounded-lg shadow-md p-6">
+    <div className="bg-white rounded-lg shadow-md p-6" ref={formRef}>
       <h2 className="text-xl font-semibold text-gray-800 mb-4 flex items-center gap-2">
-        <svg className="w-6 h-6 text-green-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
-        </svg>
-        Add Expense
+        {isEditing ? (
+          <svg className="w-6 h-6 text-amber-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+          </svg>
+        ) : (
+          <svg className="w-6 h-6 text-green-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+          </svg>
+        )}
+        {isEditing ? 'Edit Expense' : 'Add Expense'}
       </h2>
       
       <form onSubmit={handleSubmit} onKeyPress={handleKeyPress}>
@@ -113,109 +393,303 @@ export default function ExpenseForm({ participants, onExpenseAdded }: ExpenseFor
           />
         </div>
 
+        {/* Category */}
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Category
+          </label>
+          <div className="flex flex-wrap gap-2">
+            {getCategories(settings).map(option => (
+              <button
+                key={option.id}
+                type="button"
+                onClick={() => setCategory(option.id)}
+                className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+                  category === option.id ? 'text-white shadow-md' : 'bg-white text-gray-700 hover:bg-gray-50 border-gray-300'
+                }`}
+                style={category === option.id ? { backgroundColor: option.color, borderColor: option.color } : undefined}
+              >
+                {option.icon} {option.name}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Date */}
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Date *
+          </label>
+          <input
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            required
+          />
+          {expenseToEdit && (
+            <p className="text-xs text-gray-500 mt-1">Recorded {formatDate(expenseToEdit.createdAt)}</p>
+          )}
+        </div>
+
         {/* Amount */}
         <div className="mb-4">
           <label className="block text-sm font-medium text-gray-700 mb-2">
             Amount *
           </label>
-          <div className="relative">
-            <span className="absolute left-3 top-2 text-gray-500">$</span>
-            <input
-              type="number"
-              value={amount}
-              onChange={(e) => setAmount(e.target.value)}
-              placeholder="0.00"
-              step="0.01"
-              min="0"
-              className="w-full pl-8 pr-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-              required
-            />
+          <div className="flex gap-2">
+            {splitMode === 'itemized' ? (
+              <div className="flex-1 px-4 py-2 bg-gray-50 border border-gray-200 rounded-md text-gray-700">
+                {formatCurrency(buildExpenseData().amount, currency)}
+                <span className="ml-2 text-xs text-gray-500">from the items below</span>
+              </div>
+            ) : (
+              <div className="relative flex-1">
+                <span className="absolute left-3 top-2 text-gray-500">{getCurrencySymbol(currency)}</span>
+                <input
+                  type="number"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  placeholder="0.00"
+                  step="0.01"
+                  min="0"
+                  className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  required
+                />
+              </div>
+            )}
+            <select
+              value={currency}
+              onChange={(e) => setCurrency(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              title="Currency"
+            >
+              {currencyOptions.map(code => (
+                <option key={code} value={code}>{code}</option>
+              ))}
+            </select>
           </div>
+
+          {/* Exchange rate for foreign currencies */}
+          {currency !== settings.baseCurrency && (
+            <div className="mt-2 flex items-center gap-2 text-sm text-gray-600">
+              <span>1 {currency} =</span>
+              <input
+                type="number"
+                value={exchangeRate}
+                onChange={(e) => setExchangeRate(e.target.value)}
+                placeholder={settings.exchangeRates[currency]?.toString() || 'rate'}
+                step="0.0001"
+                min="0"
+                className="w-28 px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <span>{settings.baseCurrency}</span>
+              <span className="flex-1 text-right text-xs text-gray-500">
+                {previewRate !== null
+                  ? `≈ ${formatCurrency(toBaseCurrency(buildExpenseData().amount, buildCurrencyFields(), settings), settings.baseCurrency)}`
+                  : 'No stored rate, enter one'}
+              </span>
+            </div>
+          )}
         </div>
 
         {/* Payer */}
         <div className="mb-6">
-          <label className="block text-sm font-medium text-gray-700 mb-3">
-            Who Paid? *
-          </label>
+          <div className="flex justify-between items-center mb-3">
+            <label className="block text-sm font-medium text-gray-700">
+              Who Paid? *
+            </label>
+            <button
+              type="button"
+              onClick={toggleMultiplePayers}
+              className="text-xs px-2 py-1 bg-green-100 text-green-700 rounded hover:bg-green-200 transition-colors"
+            >
+              {multiplePayers ? 'Single payer' : 'Multiple payers'}
+            </button>
+          </div>
           <div className="flex flex-wrap gap-2">
             {participants.map((participant) => (
               <button
                 key={participant.id}
                 type="button"
-                onClick={() => setPayer(participant.name)}
+                onClick={() => handlePayerClick(participant.id)}
                 className={`
                   px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200
-                  ${payer === participant.name 
+                  ${isPayerSelected(participant.id) 
                     ? 'bg-green-500 text-white shadow-md hover:bg-green-600' 
                     : 'bg-gray-100 text-gray-700 hover:bg-gray-200 border border-gray-300'
                   }
                 `}
               >
                 {participant.name}
-                {payer === participant.name && (
+                {isPayerSelected(participant.id) && (
                   <span className="ml-1 text-xs">💳</span>
                 )}
               </button>
             ))}
           </div>
+
+          {/* Amount paid by each payer */}
+          {multiplePayers && Object.keys(payerAmounts).length > 0 && (
+            <div className="mt-3 space-y-2">
+              {participants.filter(p => p.id in payerAmounts).map(participant => (
+                <div key={participant.id} className="flex items-center gap-3">
+                  <span className="flex-1 text-sm text-gray-700 truncate">{participant.name} paid</span>
+                  <div className="relative w-28">
+                    <span className="absolute left-2 top-1 text-gray-500 text-sm">{getCurrencySymbol(currency)}</span>
+                    <input
+                      type="number"
+                      value={payerAmounts[participant.id]}
+                      onChange={(e) => setPayerAmounts({ ...payerAmounts, [participant.id]: e.target.value })}
+                      placeholder="0.00"
+                      step="0.01"
+                      min="0"
+                      className="w-full pl-6 pr-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+                    />
+                  </div>
+                </div>
+              ))}
+              {renderPayersRemaining()}
+            </div>
+          )}
         </div>
 
         {/* Involved Participants */}
-        <div className="mb-6">
-          <div className="flex justify-between items-center mb-3">
-            <label className="block text-sm font-medium text-gray-700">
-              Involved Participants *
-            </label>
-            <div className="flex gap-2">
-              <button
-                type="button"
-                onClick={() => setInvolved(participants.map(p => p.name))}
-                className="text-xs px-2 py-1 bg-blue-100 text-blue-700 rounded hover:bg-blue-200 transition-colors"
-              >
-                Select All
-              </button>
-              <button
-                type="button"
-                onClick={() => setInvolved([])}
-                className="text-xs px-2 py-1 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 transition-colors"
-              >
-                Clear All
-              </button>
-            </div>
-          </div>
-          
-          <div className="flex flex-wrap gap-2">
-            {participants.map((participant) => {
-              const isSelected = involved.includes(participant.name);
-              return (
+        {splitMode !== 'itemized' && (
+          <div className="mb-6">
+            <div className="flex justify-between items-center mb-3">
+              <label className="block text-sm font-medium text-gray-700">
+                Involved Participants *
+              </label>
+              <div className="flex gap-2">
                 <button
-                  key={participant.id}
                   type="button"
-                  onClick={() => handleInvolvedChange(participant.name, !isSelected)}
-                  className={`
-                    px-3 py-2 rounded-full text-sm font-medium transition-all duration-200
-                    ${isSelected 
-                      ? 'bg-blue-500 text-white shadow-md hover:bg-blue-600' 
-                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200 border border-gray-300'
-                    }
-                  `}
+                  onClick={() => setInvolved(participants.map(p => p.id))}
+                  className="text-xs px-2 py-1 bg-blue-100 text-blue-700 rounded hover:bg-blue-200 transition-colors"
                 >
-                  {participant.name}
-                  {isSelected && (
-                    <span className="ml-1 text-xs">✓</span>
-                  )}
+                  Select All
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setInvolved([])}
+                  className="text-xs px-2 py-1 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 transition-colors"
+                >
+                  Clear All
                 </button>
-              );
-            })}
+              </div>
+            </div>
+            
+            <div className="flex flex-wrap gap-2">
+              {participants.map((participant) => {
+                const isSelected = involved.includes(participant.id);
+                return (
+                  <button
+                    key={participant.id}
+                    type="button"
+                    onClick={() => handleInvolvedChange(participant.id, !isSelected)}
+                    className={`
+                      px-3 py-2 rounded-full text-sm font-medium transition-all duration-200
+                      ${isSelected 
+                        ? 'bg-blue-500 text-white shadow-md hover:bg-blue-600' 
+                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200 border border-gray-300'
+                      }
+                    `}
+                  >
+                    {participant.name}
+                    {isSelected && (
+                      <span className="ml-1 text-xs">✓</span>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+            
+            {involved.length === 0 && (
+              <p className="text-sm text-red-500 mt-2">
+                Please select at least one participant
+              </p>
+            )}
           </div>
-          
-          {involved.length === 0 && (
-            <p className="text-sm text-red-500 mt-2">
-              Please select at least one participant
-            </p>
-          )}
-        </div>
+        )}
+
+        {/* Split */}
+        <SplitEditor
+          participants={participants.filter(p => involved.includes(p.id))}
+          amount={parseAmount(amount, currency)}
+          currency={currency}
+          splitMode={splitMode}
+          splitValues={splitValues}
+          onSplitModeChange={handleSplitModeChange}
+          onSplitValueChange={(participantId, value) => setSplitValues({ ...splitValues, [participantId]: value })}
+        />
+
+        {splitMode === 'itemized' && (
+          <ItemizedEditor
+            participants={participants}
+            currency={currency}
+            items={items}
+            charges={charges}
+            shares={calculateExpenseShares({ id: '', createdAt: '', ...buildExpenseData() })}
+            onItemsChange={setItems}
+            onChargesChange={setCharges}
+          />
+        )}
+
+        {/* Repeat */}
+        {!isEditing && (
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Repeat
+            </label>
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <select
+                value={repeat}
+                onChange={(e) => setRepeat(e.target.value as RecurrenceFrequency | '')}
+                className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Does not repeat</option>
+                {(Object.keys(RECURRENCE_LABELS) as RecurrenceFrequency[]).map(frequency => (
+                  <option key={frequency} value={frequency}>{RECURRENCE_LABELS[frequency]}</option>
+                ))}
+              </select>
+              {repeat && (
+                <>
+                  <select
+                    value={repeatEnd}
+                    onChange={(e) => setRepeatEnd(e.target.value as RepeatEnd)}
+                    className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="never">forever</option>
+                    <option value="date">until</option>
+                    <option value="count">for</option>
+                  </select>
+                  {repeatEnd === 'date' && (
+                    <input
+                      type="date"
+                      value={repeatUntil}
+                      min={date}
+                      onChange={(e) => setRepeatUntil(e.target.value)}
+                      className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  )}
+                  {repeatEnd === 'count' && (
+                    <span className="flex items-center gap-2">
+                      <input
+                        type="number"
+                        value={repeatCount}
+                        min="1"
+                        step="1"
+                        onChange={(e) => setRepeatCount(e.target.value)}
+                        className="w-20 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      times
+                    </span>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        )}
 
         {/* Error Messages */}
         {errors.length > 0 && (
@@ -229,12 +703,30 @@ export default function ExpenseForm({ participants, onExpenseAdded }: ExpenseFor
         )}
 
         {/* Submit Button */}
-        <button
-          type="submit"
-          className="w-full bg-blue-500 text-white py-2 px-4 rounded-md hover:bg-blue-600 transition-colors"
-        >
-          Add Expense
-        </button>
+        {isEditing ? (
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={handleCancelEdit}
+              className="flex-1 bg-gray-100 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-200 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="flex-1 bg-amber-500 text-white py-2 px-4 rounded-md hover:bg-amber-600 transition-colors"
+            >
+              Save Changes
+            </button>
+          </div>
+        ) : (
+          <button
+            type="submit"
+            className="w-full bg-blue-500 text-white py-2 px-4 rounded-md hover:bg-blue-600 transition-colors"
+          >
+            {repeat ? 'Add Recurring Expense' : 'Add Expense'}
+          </button>
+        )}
       </form>
     </div>
   );
@@ -1,13 +1,402 @@
-import type { Expense } from '../types';
-import { formatDate, formatCurrency } from '../utils';
+import { useState, useMemo } from 'react';
+import type { Participant, Expense, Payment, GroupSettings, DateRange, ExpenseFilters, ExpenseSortKey } from '../types';
+import {
+  formatDate,
+  formatDateOnly,
+  filterByDateRange,
+  toDateInputValue,
+  EMPTY_DATE_RANGE,
+  DEFAULT_EXPENSE_FILTERS,
+  EXPENSE_SORT_LABELS,
+  hasExpenseFilters,
+  filterExpenses,
+  getExpenseSortValue,
+  formatCurrency,
+  getParticipantName,
+  calculateExpenseShares,
+  toBaseCurrency,
+  getCategories,
+  getCategory,
+  getCurrencySymbol,
+  SPLIT_MODE_LABELS
+} from '../utils';
+import VirtualList from './VirtualList';
 
 interface ControlledExpenseListProps {
+  participants: Participant[];
   expenses: Expense[];
-  onExpenseDeleted: (expenseId: string) => void;
+  payments: Payment[];
+  settings: GroupSettings;
+  dateRange: DateRange;
+  filters: ExpenseFilters;
+  onDateRangeChange: (range: DateRange) => void;
+  onFiltersChange: (filters: ExpenseFilters) => void;
+  editingExpenseId?: string | null;
+  // Without these handlers the list is read-only and their buttons are hidden
+  onExpenseDeleted?: (expenseId: string) => void;
+  onExpenseEdit?: (expense: Expense) => void;
+  onExpenseHistory?: (expense: Expense) => void;
+  onPaymentDeleted?: (paymentId: string) => void;
 }
 
-export default function ExpenseList({ expenses, onExpenseDeleted }: ControlledExpenseListProps) {
-  const totalAmount = expenses.reduce((sum, expense) => sum + expense.amount, 0);
+type TimelineEntry =
+  | { kind: 'expense'; date: string; expense: Expense }
+  | { kind: 'payment'; date: string; payment: Payment };
+
+type ListRow =
+  | { kind: 'day'; key: string; day: string; date: string; total: number }
+  | (TimelineEntry & { key: string });
+
+// Long lists only render the rows on screen
+const VIRTUALIZE_AFTER = 60;
+const LIST_HEIGHT = 720;
+
+const CHARGE_LABELS = {
+  tax: 'Tax',
+  tip: 'Tip',
+  service: 'Service charge'
+} as const;
+
+export default function ExpenseList({
+  participants,
+  expenses,
+  payments,
+  settings,
+  dateRange,
+  filters,
+  onDateRangeChange,
+  onFiltersChange,
+  editingExpenseId,
+  onExpenseDeleted,
+  onExpenseEdit,
+  onExpenseHistory,
+  onPaymentDeleted
+}: ControlledExpenseListProps) {
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+  const [groupByDay, setGroupByDay] = useState(false);
+  const narrowed = hasExpenseFilters(filters);
+  const isFiltered = narrowed || Boolean(dateRange.from || dateRange.to);
+  const canGroupByDay = filters.sortBy === 'date';
+
+  // Lists can run to thousands of entries, so the work below is only redone when its inputs change
+  const visibleExpenses = useMemo(
+    () => filterExpenses(filterByDateRange(expenses, dateRange), filters, settings),
+    [expenses, dateRange, filters, settings]
+  );
+  // Payments only match date filters, and only make sense among expenses sorted by date or amount
+  const showPayments = !narrowed && (filters.sortBy === 'date' || filters.sortBy === 'amount');
+  const visiblePayments = useMemo(
+    () => (showPayments ? filterByDateRange(payments, dateRange) : []),
+    [showPayments, payments, dateRange]
+  );
+  const totalAmount = useMemo(
+    () => visibleExpenses.reduce((sum, expense) => sum + toBaseCurrency(expense.amount, expense, settings), 0),
+    [visibleExpenses, settings]
+  );
+
+  // Expenses and settle-up payments in one timeline; ties keep their chronological order. Each
+  // entry's sort value is worked out once rather than on every comparison.
+  const timeline = useMemo((): TimelineEntry[] => {
+    const direction = filters.sortDirection === 'desc' ? -1 : 1;
+    const entries: TimelineEntry[] = [
+      ...visibleExpenses.map(expense => ({ kind: 'expense' as const, date: expense.date, expense })),
+      ...visiblePayments.map(payment => ({ kind: 'payment' as const, date: payment.date, payment }))
+    ];
+
+    return entries
+      .map(entry => {
+        const time = new Date(entry.date).getTime();
+        const value = entry.kind === 'expense'
+          ? getExpenseSortValue(entry.expense, filters.sortBy, settings)
+          : filters.sortBy === 'amount' ? entry.payment.amount : time;
+        return { entry, time, value };
+      })
+      .sort((a, b) => {
+        const order = typeof a.value === 'number' && typeof b.value === 'number'
+          ? a.value - b.value
+          : String(a.value).localeCompare(String(b.value));
+        return order * direction || a.time - b.time;
+      })
+      .map(({ entry }) => entry);
+  }, [visibleExpenses, visiblePayments, filters.sortBy, filters.sortDirection, settings]);
+
+  // Flat rows for rendering, with a heading before each day when grouping
+  const rows = useMemo(() => {
+    const flatRows: ListRow[] = [];
+    let heading: Extract<ListRow, { kind: 'day' }> | null = null;
+    timeline.forEach(entry => {
+      const key = entry.kind === 'expense' ? entry.expense.id : entry.payment.id;
+
+      if (groupByDay && canGroupByDay) {
+        const day = toDateInputValue(entry.date);
+        if (!heading || heading.day !== day) {
+          heading = { kind: 'day', key: `day-${day}`, day, date: entry.date, total: 0 };
+          flatRows.push(heading);
+        }
+        if (entry.kind === 'expense') {
+          heading.total += toBaseCurrency(entry.expense.amount, entry.expense, settings);
+        }
+      }
+      flatRows.push({ ...entry, key });
+    });
+    return flatRows;
+  }, [timeline, groupByDay, canGroupByDay, settings]);
+
+  const updateFilters = (changes: Partial<ExpenseFilters>) => {
+    onFiltersChange({ ...filters, ...changes });
+  };
+
+  const changeSort = (sortBy: ExpenseSortKey) => {
+    if (sortBy === filters.sortBy) {
+      updateFilters({ sortDirection: filters.sortDirection === 'asc' ? 'desc' : 'asc' });
+    } else {
+      // Newest, biggest first is usually what people look for; names read best A to Z
+      updateFilters({ sortBy, sortDirection: sortBy === 'date' || sortBy === 'amount' ? 'desc' : 'asc' });
+    }
+  };
+
+  const toggleExpanded = (expenseId: string) => {
+    const next = new Set(expandedIds);
+    if (next.has(expenseId)) {
+      next.delete(expenseId);
+    } else {
+      next.add(expenseId);
+    }
+    setExpandedIds(next);
+  };
+
+  const renderEntry = (entry: TimelineEntry) => {
+    if (entry.kind === 'payment') {
+      const { payment } = entry;
+      return (
+        <div
+          key={payment.id}
+          className="flex items-center justify-between gap-2 bg-green-50 border border-green-200 rounded-lg px-3 py-2"
+        >
+          <div className="min-w-0 text-sm text-gray-700">
+            <span>💸 </span>
+            <span className="font-medium">{getParticipantName(participants, payment.from)}</span>
+            <span className="text-gray-500"> paid </span>
+            <span className="font-medium">{getParticipantName(participants, payment.to)}</span>
+            <div className="text-xs text-gray-500 truncate">
+              📅 {formatDateOnly(payment.date)}
+              {payment.note && ` · ${payment.note}`}
+            </div>
+          </div>
+          <div className="flex items-center gap-2 flex-shrink-0">
+            <span className="font-semibold text-green-700">
+              {formatCurrency(payment.amount, payment.currency)}
+            </span>
+            {onPaymentDeleted && (
+              <button
+                onClick={() => onPaymentDeleted(payment.id)}
+                className="text-red-500 hover:text-red-700 hover:bg-red-50 p-1 rounded-full transition-all duration-200"
+                title="Delete payment"
+              >
+                ✕
+              </button>
+            )}
+          </div>
+        </div>
+      );
+    }
+
+    const { expense } = entry;
+    const shares = calculateExpenseShares(expense);
+    const category = getCategory(settings, expense.category);
+    return (
+      <div
+        key={expense.id}
+        className={`bg-gradient-to-r from-white to-gray-50 border rounded-lg p-3 hover:shadow-md transition-all duration-200 ${
+          expense.id === editingExpenseId ? 'border-amber-300 ring-2 ring-amber-100' : 'border-gray-200 hover:border-blue-200'
+        }`}
+      >
+        <div className="flex justify-between items-start mb-2">
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center gap-2 mb-1 min-w-0">
+              <h3 className="font-semibold text-gray-800 text-base truncate">
+                {expense.description}
+              </h3>
+              <span
+                className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium text-white flex-shrink-0"
+                style={{ backgroundColor: category.color }}
+              >
+                {category.icon} {category.name}
+              </span>
+              {expense.recurringTemplateId && (
+                <span className="text-xs text-teal-600 flex-shrink-0" title="Added by a recurring expense">
+                  🔁
+                </span>
+              )}
+            </div>
+            <div className="flex items-center gap-2 text-xs text-gray-600">
+              <span>Paid by</span>
+              {expense.payers.map(payer => (
+                <span
+                  key={payer.participantId}
+                  className="inline-flex items-center px-2 py-0.5 bg-green-100 text-green-800 rounded-full text-xs font-medium"
+                >
+                  💳 {getParticipantName(participants, payer.participantId)}
+                  {expense.payers.length > 1 && (
+                    <span className="ml-1 text-green-600">{formatCurrency(payer.amount, expense.currency)}</span>
+                  )}
+                </span>
+              ))}
+            </div>
+          </div>
+          <div className="flex items-center gap-2 ml-2">
+            <div className="text-right">
+              <div className="text-lg font-bold text-green-600">
+                {formatCurrency(expense.amount, expense.currency)}
+              </div>
+              {expense.currency !== settings.baseCurrency && (
+                <div className="text-xs text-gray-500">
+                  ≈ {formatCurrency(toBaseCurrency(expense.amount, expense, settings), settings.baseCurrency)}
+                </div>
+              )}
+            </div>
+            {onExpenseHistory && (
+              <button
+                onClick={() => onExpenseHistory(expense)}
+                className="text-gray-500 hover:text-slate-700 hover:bg-slate-100 p-1.5 rounded-full transition-all duration-200"
+                title="Show change history"
+              >
+                <svg
+                  className="w-4 h-4"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"
+                  />
+                </svg>
+              </button>
+            )}
+            {onExpenseEdit && (
+              <button
+                onClick={() => onExpenseEdit(expense)}
+                className="text-gray-500 hover:text-amber-600 hover:bg-amber-50 p-1.5 rounded-full transition-all duration-200"
+                title="Edit expense"
+              >
+                <svg
+                  className="w-4 h-4"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z"
+                  />
+                </svg>
+              </button>
+            )}
+            {onExpenseDeleted && (
+              <button
+                onClick={() => onExpenseDeleted(expense.id)}
+                className="text-red-500 hover:text-red-700 hover:bg-red-50 p-1.5 rounded-full transition-all duration-200"
+                title="Delete expense"
+              >
+                <svg
+                  className="w-4 h-4"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                  />
+                </svg>
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-1.5 mb-2">
+          <span className="text-xs font-medium text-gray-500">Involved:</span>
+          {expense.involved.map((participantId) => (
+            <span
+              key={participantId}
+              className="inline-block bg-blue-100 text-blue-800 text-xs px-2 py-0.5 rounded-full font-medium"
+            >
+              {getParticipantName(participants, participantId)}
+              {expense.splitMode !== 'equal' && (
+                <span className="ml-1 text-blue-600">
+                  {formatCurrency(shares.get(participantId) || 0, expense.currency)}
+                </span>
+              )}
+            </span>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div className="text-xs text-gray-400 flex items-center gap-2">
+            <span title={`Recorded ${formatDate(expense.createdAt)}`}>📅 {formatDateOnly(expense.date)}</span>
+            {expense.items && expense.items.length > 0 && (
+              <button
+                onClick={() => toggleExpanded(expense.id)}
+                className="text-purple-600 hover:text-purple-800 font-medium"
+              >
+                {expandedIds.has(expense.id) ? '▾' : '▸'} {expense.items.length} item{expense.items.length !== 1 ? 's' : ''}
+              </button>
+            )}
+          </div>
+          <div className="text-xs text-gray-400">
+            {expense.involved.length} participant{expense.involved.length !== 1 ? 's' : ''} · Split {SPLIT_MODE_LABELS[expense.splitMode].toLowerCase()}
+          </div>
+        </div>
+
+        {/* Itemized receipt */}
+        {expense.items && expandedIds.has(expense.id) && (
+          <div className="mt-2 pt-2 border-t border-gray-200 space-y-1">
+            {expense.items.map(item => (
+              <div key={item.id} className="flex justify-between gap-2 text-xs">
+                <span className="text-gray-700 truncate">
+                  {item.description || 'Item'}
+                  <span className="text-gray-400 ml-1">
+                    ({item.involved.map(id => getParticipantName(participants, id)).join(', ')})
+                  </span>
+                </span>
+                <span className="text-gray-600 flex-shrink-0">{formatCurrency(item.amount, expense.currency)}</span>
+              </div>
+            ))}
+            {expense.charges && (['tax', 'tip', 'service'] as const)
+              .filter(key => expense.charges![key] > 0)
+              .map(key => (
+                <div key={key} className="flex justify-between text-xs text-gray-500 italic">
+                  <span>{CHARGE_LABELS[key]} (shared pro rata)</span>
+                  <span>{formatCurrency(expense.charges![key], expense.currency)}</span>
+                </div>
+              ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderRow = (row: ListRow) => {
+    if (row.kind === 'day') {
+      return (
+        <div className="flex justify-between items-center text-xs font-medium text-gray-500 px-1 pt-2 pb-1">
+          <span>{formatDateOnly(row.date)}</span>
+          <span>{formatCurrency(row.total, settings.baseCurrency)}</span>
+        </div>
+      );
+    }
+    return <div className="pb-2">{renderEntry(row)}</div>;
+  };
+
+  const hasEntries = expenses.length > 0 || payments.length > 0;
+  const inputClass = 'px-2 py-1 border border-gray-300 rounded-md text-xs text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500';
 
   return (
     <div className="bg-white rounded-lg shadow-md p-4">
@@ -19,85 +408,165 @@ export default function ExpenseList({ expenses, onExpenseDeleted }: ControlledEx
           Expenses
         </h2>
         <div className="text-sm text-gray-600">
-          Total: <span className="font-semibold text-green-600">{formatCurrency(totalAmount)}</span>
+          {isFiltered && <span className="text-xs text-gray-400 mr-2">{visibleExpenses.length} of {expenses.length}</span>}
+          Total: <span className="font-semibold text-green-600">{formatCurrency(totalAmount, settings.baseCurrency)}</span>
         </div>
       </div>
 
-      {expenses.length === 0 ? (
-        <div className="text-center py-6">
-          <div className="text-gray-400 text-3xl mb-1">💰</div>
-          <p className="text-gray-500">No expenses added yet</p>
-          <p className="text-xs text-gray-400">Add your first expense to get started</p>
-        </div>
-      ) : (
-        <div className="space-y-2">
-          {expenses.map((expense) => (
-            <div
-              key={expense.id}
-              className="bg-gradient-to-r from-white to-gray-50 border border-gray-200 rounded-lg p-3 hover:shadow-md transition-all duration-200 hover:border-blue-200"
+      {hasEntries && (
+        <div className="mb-3 space-y-2">
+          {/* Search */}
+          <input
+            type="search"
+            value={filters.search}
+            onChange={(e) => updateFilters({ search: e.target.value })}
+            placeholder="Search descriptions…"
+            className="w-full px-3 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+
+          {/* Filters */}
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={filters.payerId}
+              onChange={(e) => updateFilters({ payerId: e.target.value })}
+              className={inputClass}
             >
-              <div className="flex justify-between items-start mb-2">
-                <div className="flex-1 min-w-0">
-                  <h3 className="font-semibold text-gray-800 text-base mb-1 truncate">
-                    {expense.description}
-                  </h3>
-                  <div className="flex items-center gap-2 text-xs text-gray-600">
-                    <span>Paid by</span>
-                    <span className="inline-flex items-center px-2 py-0.5 bg-green-100 text-green-800 rounded-full text-xs font-medium">
-                      💳 {expense.payer}
-                    </span>
-                  </div>
-                </div>
-                <div className="flex items-center gap-2 ml-2">
-                  <span className="text-lg font-bold text-green-600">
-                    {formatCurrency(expense.amount)}
-                  </span>
-                  <button
-                    onClick={() => onExpenseDeleted(expense.id)}
-                    className="text-red-500 hover:text-red-700 hover:bg-red-50 p-1.5 rounded-full transition-all duration-200"
-                    title="Delete expense"
-                  >
-                    <svg
-                      className="w-4 h-4"
-                      fill="none"
-                      stroke="currentColor"
-                      viewBox="0 0 24 24"
-                    >
-                      <path
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                        strokeWidth={2}
-                        d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
-                      />
-                    </svg>
-                  </button>
-                </div>
-              </div>
+              <option value="">Any payer</option>
+              {participants.map(p => (
+                <option key={p.id} value={p.id}>Paid by {p.name}</option>
+              ))}
+            </select>
+            <select
+              value={filters.involvedId}
+              onChange={(e) => updateFilters({ involvedId: e.target.value })}
+              className={inputClass}
+            >
+              <option value="">Anyone involved</option>
+              {participants.map(p => (
+                <option key={p.id} value={p.id}>{p.name} involved</option>
+              ))}
+            </select>
+            <select
+              value={filters.category}
+              onChange={(e) => updateFilters({ category: e.target.value })}
+              className={inputClass}
+            >
+              <option value="">All categories</option>
+              {getCategories(settings).map(category => (
+                <option key={category.id} value={category.id}>{category.icon} {category.name}</option>
+              ))}
+            </select>
+            <div className="flex items-center gap-1 text-xs text-gray-600">
+              <span>{getCurrencySymbol(settings.baseCurrency)}</span>
+              <input
+                type="number"
+                value={filters.minAmount}
+                onChange={(e) => updateFilters({ minAmount: e.target.value })}
+                placeholder="Min"
+                step="0.01"
+                min="0"
+                className={`w-20 ${inputClass}`}
+              />
+              <span>–</span>
+              <input
+                type="number"
+                value={filters.maxAmount}
+                onChange={(e) => updateFilters({ maxAmount: e.target.value })}
+                placeholder="Max"
+                step="0.01"
+                min="0"
+                className={`w-20 ${inputClass}`}
+              />
+            </div>
+          </div>
 
-              <div className="flex flex-wrap items-center gap-1.5 mb-2">
-                <span className="text-xs font-medium text-gray-500">Involved:</span>
-                {expense.involved.map((participant, index) => (
-                  <span
-                    key={index}
-                    className="inline-block bg-blue-100 text-blue-800 text-xs px-2 py-0.5 rounded-full font-medium"
-                  >
-                    {participant}
-                  </span>
-                ))}
-              </div>
+          {/* Date Range */}
+          <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600">
+            <input
+              type="date"
+              value={dateRange.from}
+              max={dateRange.to || undefined}
+              onChange={(e) => onDateRangeChange({ ...dateRange, from: e.target.value })}
+              className={inputClass}
+              title="From"
+            />
+            <span>–</span>
+            <input
+              type="date"
+              value={dateRange.to}
+              min={dateRange.from || undefined}
+              onChange={(e) => onDateRangeChange({ ...dateRange, to: e.target.value })}
+              className={inputClass}
+              title="To"
+            />
+            {isFiltered && (
+              <button
+                onClick={() => {
+                  onFiltersChange({ ...DEFAULT_EXPENSE_FILTERS, sortBy: filters.sortBy, sortDirection: filters.sortDirection });
+                  onDateRangeChange(EMPTY_DATE_RANGE);
+                }}
+                className="text-blue-600 hover:text-blue-800 font-medium"
+              >
+                Clear filters
+              </button>
+            )}
+            <label className={`flex items-center gap-1 ml-auto ${canGroupByDay ? '' : 'opacity-50'}`}>
+              <input
+                type="checkbox"
+                checked={groupByDay && canGroupByDay}
+                disabled={!canGroupByDay}
+                onChange={(e) => setGroupByDay(e.target.checked)}
+              />
+              Group by day
+            </label>
+          </div>
 
-              <div className="flex items-center justify-between">
-                <div className="text-xs text-gray-400">
-                  📅 {formatDate(expense.date)}
-                </div>
-                <div className="text-xs text-gray-400">
-                  {expense.involved.length} participant{expense.involved.length !== 1 ? 's' : ''}
-                </div>
-              </div>
-            </div>
+          {/* Sort */}
+          <div className="flex items-center gap-1 text-xs border-b border-gray-200 pb-1">
+            <span className="text-gray-500 mr-1">Sort:</span>
+            {(Object.keys(EXPENSE_SORT_LABELS) as ExpenseSortKey[]).map(key => (
+              <button
+                key={key}
+                onClick={() => changeSort(key)}
+                className={`px-2 py-0.5 rounded transition-colors ${
+                  filters.sortBy === key ? 'bg-blue-100 text-blue-800 font-medium' : 'text-gray-600 hover:bg-gray-100'
+                }`}
+              >
+                {EXPENSE_SORT_LABELS[key]}
+                {filters.sortBy === key && (filters.sortDirection === 'asc' ? ' ↑' : ' ↓')}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {timeline.length === 0 ? (
+        isFiltered ? (
+          <div className="text-center py-6">
+            <p className="text-gray-500">Nothing matches the current filters</p>
+          </div>
+        ) : (
+          <div className="text-center py-6">
+            <div className="text-gray-400 text-3xl mb-1">💰</div>
+            <p className="text-gray-500">No expenses added yet</p>
+            <p className="text-xs text-gray-400">Add your first expense to get started</p>
+          </div>
+        )
+      ) : rows.length > VIRTUALIZE_AFTER ? (
+        <VirtualList
+          items={rows}
+          getKey={row => row.key}
+          renderItem={renderRow}
+          estimatedHeight={120}
+          maxHeight={LIST_HEIGHT}
+        />
+      ) : (
+        <div>
+          {rows.map(row => (
+            <div key={row.key}>{renderRow(row)}</div>
           ))}
         </div>
       )}
     </div>
   );
-} 
\ No newline at end of file
+}
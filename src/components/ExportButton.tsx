@@ -1,72 +1,194 @@
 import { useState } from 'react';
-import type { Participant, Expense, Balance, Settlement, ParticipantStats } from '../types';
-import { formatCurrency, formatDate, roundToTwoDecimals } from '../utils';
+import type { Participant, Expense, Payment, Balance, Settlement, ParticipantStats, GroupSettings, DateRange } from '../types';
+import {
+  formatCurrency,
+  formatDateOnly,
+  getParticipantName,
+  formatPayers,
+  calculateExpenseShares,
+  toBaseCurrency,
+  describeSettlementRules,
+  describeDateRange,
+  getCategory,
+  calculateCategoryBreakdown,
+  SPLIT_MODE_LABELS
+} from '../utils';
 import jsPDF from 'jspdf';
 import html2canvas from 'html2canvas';
 
 interface ExportButtonProps {
   participants: Participant[];
   expenses: Expense[];
+  payments: Payment[];
+  settings: GroupSettings;
+  dateRange: DateRange;
   balances: Balance[];
   settlements: Settlement[];
   stats: ParticipantStats[];
 }
 
+interface ReportData {
+  title: string;
+  generatedAt: string;
+  period: string;
+  baseCurrency: string;
+  settlementRules: string[];
+  exchangeRates: { currency: string; rate: number }[];
+  summary: {
+    totalParticipants: number;
+    totalExpenses: number;
+    totalAmount: number;
+    totalSettlements: number;
+  };
+  participants: { name: string }[];
+  expenses: {
+    description: string;
+    amount: number;
+    currency: string;
+    baseAmount: number;
+    payer: string;
+    involved: string[];
+    date: string;
+    category: string;
+    splitMode: string;
+    shares: { name: string; amount: number }[];
+    items: { description: string; amount: number; involved: string[] }[];
+    charges: { label: string; amount: number }[];
+  }[];
+  balances: { name: string; amount: number; formattedAmount: string }[];
+  settlements: { from: string; to: string; amount: number; formattedAmount: string; blocked: boolean }[];
+  payments: { from: string; to: string; amount: number; formattedAmount: string; date: string; note: string }[];
+  categories: { name: string; icon: string; color: string; total: number; formattedTotal: string }[];
+  categoryShares: { name: string; shares: string[] }[]; // one formatted share per entry in categories
+  detailedStats: {
+    name: string;
+    totalPaid: number;
+    totalOwed: number;
+    netBalance: number;
+    formattedPaid: string;
+    formattedOwed: string;
+    formattedBalance: string;
+  }[];
+}
+
+// The report is rendered from an HTML string, and names, descriptions and notes can come from
+// imported files or share links, so every value is escaped before it goes in
+const escapeHtml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
+
+// Category colors come from a color input, so anything else is replaced rather than put into CSS
+const toCssColor = (color: string): string => (/^#[0-9a-f]{3,8}$/i.test(color) ? color : '#9ca3af');
+
 export default function ExportButton({ 
   participants, 
   expenses, 
+  payments, 
+  settings, 
+  dateRange,
   balances, 
   settlements, 
   stats 
 }: ExportButtonProps) {
   const [isGenerating, setIsGenerating] = useState(false);
+  const categoryBreakdown = calculateCategoryBreakdown(expenses, settings);
+
+  // Create a comprehensive report object shared by every export format
+  const buildReport = (): ReportData => ({
+    title: 'DamFair Expense Report',
+    generatedAt: new Date().toLocaleString(),
+    period: describeDateRange(dateRange),
+    baseCurrency: settings.baseCurrency,
+    settlementRules: describeSettlementRules(settings, participants),
+    exchangeRates: Object.entries(settings.exchangeRates).map(([currency, rate]) => ({ currency, rate })),
+    summary: {
+      totalParticipants: participants.length,
+      totalExpenses: expenses.length,
+      totalAmount: expenses.reduce((sum, expense) => sum + toBaseCurrency(expense.amount, expense, settings), 0),
+      totalSettlements: settlements.length
+    },
+    participants: participants.map(p => ({ name: p.name })),
+    expenses: expenses.map(expense => ({
+      description: expense.description,
+      amount: expense.amount,
+      currency: expense.currency,
+      baseAmount: toBaseCurrency(expense.amount, expense, settings),
+      payer: formatPayers(participants, expense.payers, expense.currency),
+      involved: expense.involved.map(participantId => getParticipantName(participants, participantId)),
+      date: formatDateOnly(expense.date),
+      category: getCategory(settings, expense.category).name,
+      splitMode: SPLIT_MODE_LABELS[expense.splitMode],
+      shares: Array.from(calculateExpenseShares(expense).entries()).map(([participantId, share]) => ({
+        name: getParticipantName(participants, participantId),
+        amount: share
+      })),
+      items: (expense.items || []).map(item => ({
+        description: item.description || 'Item',
+        amount: item.amount,
+        involved: item.involved.map(participantId => getParticipantName(participants, participantId))
+      })),
+      charges: expense.charges
+        ? [
+          { label: 'Tax', amount: expense.charges.tax },
+          { label: 'Tip', amount: expense.charges.tip },
+          { label: 'Service charge', amount: expense.charges.service }
+        ].filter(charge => charge.amount > 0)
+        : []
+    })),
+    balances: balances.map(balance => ({
+      name: balance.name,
+      amount: balance.amount,
+      formattedAmount: formatCurrency(balance.amount, settings.baseCurrency)
+    })),
+    settlements: settlements.map(settlement => ({
+      from: getParticipantName(participants, settlement.from),
+      to: getParticipantName(participants, settlement.to),
+      amount: settlement.amount,
+      formattedAmount: formatCurrency(settlement.amount, settings.baseCurrency),
+      blocked: Boolean(settlement.blocked)
+    })),
+    payments: payments.map(payment => ({
+      from: getParticipantName(participants, payment.from),
+      to: getParticipantName(participants, payment.to),
+      amount: payment.amount,
+      formattedAmount: formatCurrency(payment.amount, payment.currency),
+      date: formatDateOnly(payment.date),
+      note: payment.note
+    })),
+    categories: categoryBreakdown.map(({ category, total }) => ({
+      name: category.name,
+      icon: category.icon,
+      color: category.color,
+      total,
+      formattedTotal: formatCurrency(total, settings.baseCurrency)
+    })),
+    categoryShares: participants.map(participant => ({
+      name: participant.name,
+      shares: categoryBreakdown.map(({ byParticipant }) => (
+        formatCurrency(byParticipant.get(participant.id) || 0, settings.baseCurrency)
+      ))
+    })),
+    detailedStats: stats.map(stat => ({
+      name: stat.name,
+      totalPaid: stat.totalPaid,
+      totalOwed: stat.totalOwed,
+      netBalance: stat.netBalance,
+      formattedPaid: formatCurrency(stat.totalPaid, settings.baseCurrency),
+      formattedOwed: formatCurrency(stat.totalOwed, settings.baseCurrency),
+      formattedBalance: formatCurrency(stat.netBalance, settings.baseCurrency)
+    }))
+  });
 
   const generatePDFReport = async () => {
     setIsGenerating(true);
     
     try {
-      // Create a comprehensive report object
-      const report = {
-        title: 'DamFair Expense Report',
-        generatedAt: new Date().toLocaleString(),
-        summary: {
-          totalParticipants: participants.length,
-          totalExpenses: expenses.length,
-          totalAmount: expenses.reduce((sum, expense) => sum + expense.amount, 0),
-          totalSettlements: settlements.length
-        },
-        participants: participants.map(p => ({ name: p.name })),
-        expenses: expenses.map(expense => ({
-          description: expense.description,
-          amount: expense.amount,
-          payer: expense.payer,
-          involved: expense.involved,
-          date: formatDate(expense.date),
-          sharePerPerson: roundToTwoDecimals(expense.amount / expense.involved.length)
-        })),
-        balances: balances.map(balance => ({
-          name: balance.name,
-          amount: balance.amount,
-          formattedAmount: formatCurrency(balance.amount)
-        })),
-        settlements: settlements.map(settlement => ({
-          from: settlement.from,
-          to: settlement.to,
-          amount: settlement.amount,
-          formattedAmount: formatCurrency(settlement.amount)
-        })),
-        detailedStats: stats.map(stat => ({
-          name: stat.name,
-          totalPaid: stat.totalPaid,
-          totalOwed: stat.totalOwed,
-          netBalance: stat.netBalance,
-          formattedPaid: formatCurrency(stat.totalPaid),
-          formattedOwed: formatCurrency(stat.totalOwed),
-          formattedBalance: formatCurrency(stat.netBalance)
-        }))
-      };
-
-      await exportAsPDF(report);
+      await exportAsPDF(buildReport());
       
     } catch (error) {
       console.error('Error generating PDF report:', error);
@@ -80,7 +202,7 @@ export default function ExportButton({
     setIsGenerating(true);
     
     try {
-      await exportAsImage();
+      await exportAsImage(buildReport());
     } catch (error) {
       console.error('Error generating image export:', error);
       alert('Error generating image export. Please try again.');
@@ -89,8 +211,8 @@ export default function ExportButton({
     }
   };
 
-  const exportAsPDF = async (report: any) => {
-    // Create a temporary div to render the report content
+  // Render the report off-screen so html2canvas can capture it
+  const createReportContainer = (report: ReportData): HTMLDivElement => {
     const tempDiv = document.createElement('div');
     tempDiv.style.position = 'absolute';
     tempDiv.style.left = '-9999px';
@@ -102,12 +224,16 @@ export default function ExportButton({
     tempDiv.style.fontSize = '12px';
     tempDiv.style.lineHeight = '1.4';
     
-    // Generate HTML content for the PDF
+    // Generate HTML content for the report
     tempDiv.innerHTML = `
       <div style="text-align: center; margin-bottom: 20px; border-bottom: 2px solid #3b82f6; padding-bottom: 10px;">
         <h1 style="color: #1f2937; margin: 0 0 10px 0; font-size: 24px;">🦫 DamFair Expense Report</h1>
         <p style="color: #6b7280; margin: 0; font-size: 14px;">Fair expense splitting, no drama</p>
-        <p style="color: #6b7280; margin: 5px 0 0 0; font-size: 12px;">Generated: ${report.generatedAt}</p>
+        <p style="color: #6b7280; margin: 5px 0 0 0; font-size: 12px;">Generated: ${escapeHtml(report.generatedAt)}</p>
+        <p style="color: #6b7280; margin: 5px 0 0 0; font-size: 12px;">Period: ${escapeHtml(report.period)}</p>
+        <p style="color: #6b7280; margin: 5px 0 0 0; font-size: 12px;">
+          Base currency: ${escapeHtml(report.baseCurrency)}${report.exchangeRates.length === 0 ? '' : ` · Rates: ${report.exchangeRates.map(rate => `1 ${escapeHtml(rate.currency)} = ${rate.rate} ${escapeHtml(report.baseCurrency)}`).join(', ')}`}
+        </p>
       </div>
       
       <div style="background: #f8fafc; padding: 15px; border-radius: 8px; margin-bottom: 20px;">
@@ -123,7 +249,7 @@ export default function ExportButton({
           </div>
           <div style="text-align: center;">
             <div style="font-size: 10px; color: #6b7280; text-transform: uppercase;">Total Amount</div>
-            <div style="font-size: 20px; font-weight: bold; color: #3b82f6;">${formatCurrency(report.summary.totalAmount)}</div>
+            <div style="font-size: 20px; font-weight: bold; color: #3b82f6;">${escapeHtml(formatCurrency(report.summary.totalAmount, report.baseCurrency))}</div>
           </div>
           <div style="text-align: center;">
             <div style="font-size: 10px; color: #6b7280; text-transform: uppercase;">Settlements</div>
@@ -134,24 +260,37 @@ export default function ExportButton({
       
       <div style="margin-bottom: 20px;">
         <h2 style="color: #374151; border-bottom: 1px solid #e5e7eb; padding-bottom: 5px; margin-bottom: 15px; font-size: 16px;">Individual Balances</h2>
-        ${report.balances.map((balance: any) => `
+        ${report.balances.map((balance) => `
           <div style="display: flex; justify-content: space-between; padding: 8px 0; border-bottom: 1px solid #f3f4f6;">
-            <span style="font-weight: 500;">${balance.name}</span>
+            <span style="font-weight: 500;">${escapeHtml(balance.name)}</span>
             <span style="font-weight: bold; color: ${balance.amount > 0 ? '#059669' : balance.amount < 0 ? '#dc2626' : '#6b7280'};">
-              ${balance.amount >= 0 ? '+' : ''}${balance.formattedAmount}
+              ${balance.amount >= 0 ? '+' : ''}${escapeHtml(balance.formattedAmount)}
             </span>
           </div>
         `).join('')}
       </div>
       
+      ${report.payments.length === 0 ? '' : `
+        <div style="margin-bottom: 20px;">
+          <h2 style="color: #374151; border-bottom: 1px solid #e5e7eb; padding-bottom: 5px; margin-bottom: 15px; font-size: 16px;">Recorded Payments</h2>
+          ${report.payments.map((payment) => `
+            <div style="display: flex; justify-content: space-between; padding: 8px 0; border-bottom: 1px solid #f3f4f6;">
+              <span>${escapeHtml(payment.date)} · ${escapeHtml(payment.from)} → ${escapeHtml(payment.to)}${payment.note ? ` <span style="color: #6b7280;">(${escapeHtml(payment.note)})</span>` : ''}</span>
+              <span style="font-weight: bold; color: #059669;">${escapeHtml(payment.formattedAmount)}</span>
+            </div>
+          `).join('')}
+        </div>
+      `}
+
       <div style="margin-bottom: 20px;">
         <h2 style="color: #374151; border-bottom: 1px solid #e5e7eb; padding-bottom: 5px; margin-bottom: 15px; font-size: 16px;">Settlement Plan</h2>
+        <p style="color: #6b7280; margin: 0 0 10px 0; font-size: 11px;">Strategy: ${escapeHtml(report.settlementRules.join(' · '))}</p>
         ${report.settlements.length === 0 ? 
           '<p style="text-align: center; color: #059669; font-weight: bold;">🎉 All debts are already settled!</p>' :
-          report.settlements.map((settlement: any, index: number) => `
+          report.settlements.map((settlement, index) => `
             <div style="display: flex; justify-content: space-between; padding: 8px 0; border-bottom: 1px solid #f3f4f6;">
-              <span>${index + 1}. ${settlement.from} → ${settlement.to}</span>
-              <span style="font-weight: bold; color: #3b82f6;">${settlement.formattedAmount}</span>
+              <span>${index + 1}. ${escapeHtml(settlement.from)} → ${escapeHtml(settlement.to)}${settlement.blocked ? ' <span style="color: #dc2626;">(blocked transfer)</span>' : ''}</span>
+              <span style="font-weight: bold; color: #3b82f6;">${escapeHtml(settlement.formattedAmount)}</span>
             </div>
           `).join('')
         }
@@ -169,13 +308,13 @@ export default function ExportButton({
             </tr>
           </thead>
           <tbody>
-            ${report.detailedStats.map((stat: any) => `
+            ${report.detailedStats.map((stat) => `
               <tr style="border-bottom: 1px solid #e5e7eb;">
-                <td style="padding: 8px; font-weight: 500; font-size: 12px;">${stat.name}</td>
-                <td style="padding: 8px; font-size: 12px;">${stat.formattedPaid}</td>
-                <td style="padding: 8px; font-size: 12px;">${stat.formattedOwed}</td>
+                <td style="padding: 8px; font-weight: 500; font-size: 12px;">${escapeHtml(stat.name)}</td>
+                <td style="padding: 8px; font-size: 12px;">${escapeHtml(stat.formattedPaid)}</td>
+                <td style="padding: 8px; font-size: 12px;">${escapeHtml(stat.formattedOwed)}</td>
                 <td style="padding: 8px; font-weight: bold; font-size: 12px; color: ${stat.netBalance >= 0 ? '#059669' : '#dc2626'};">
-                  ${stat.formattedBalance}
+                  ${escapeHtml(stat.formattedBalance)}
                 </td>
               </tr>
             `).join('')}
@@ -183,20 +322,79 @@ export default function ExportButton({
         </table>
       </div>
       
+      ${report.categories.length === 0 ? '' : `
+        <div style="margin-bottom: 20px;">
+          <h2 style="color: #374151; border-bottom: 1px solid #e5e7eb; padding-bottom: 5px; margin-bottom: 15px; font-size: 16px;">Spending by Category</h2>
+          ${report.categories.map((category) => `
+            <div style="display: flex; justify-content: space-between; align-items: center; padding: 6px 8px; margin: 4px 0; border-left: 4px solid ${toCssColor(category.color)}; background: #f9fafb; font-size: 12px;">
+              <span>${escapeHtml(category.icon)} ${escapeHtml(category.name)}</span>
+              <span style="font-weight: bold;">${escapeHtml(category.formattedTotal)}</span>
+            </div>
+          `).join('')}
+          <table style="width: 100%; border-collapse: collapse; margin-top: 15px;">
+            <thead>
+              <tr style="background: #3b82f6; color: white;">
+                <th style="padding: 8px; text-align: left; font-size: 11px;">Name</th>
+                ${report.categories.map(category => `<th style="padding: 8px; text-align: right; font-size: 11px;">${escapeHtml(category.icon)} ${escapeHtml(category.name)}</th>`).join('')}
+              </tr>
+            </thead>
+            <tbody>
+              ${report.categoryShares.map((row) => `
+                <tr style="border-bottom: 1px solid #e5e7eb;">
+                  <td style="padding: 8px; font-weight: 500; font-size: 11px;">${escapeHtml(row.name)}</td>
+                  ${row.shares.map(share => `<td style="padding: 8px; text-align: right; font-size: 11px;">${escapeHtml(share)}</td>`).join('')}
+                </tr>
+              `).join('')}
+            </tbody>
+          </table>
+        </div>
+      `}
+
       <div style="margin-bottom: 20px;">
         <h2 style="color: #374151; border-bottom: 1px solid #e5e7eb; padding-bottom: 5px; margin-bottom: 15px; font-size: 16px;">Expense Details</h2>
-        ${report.expenses.map((expense: any, index: number) => `
+        ${report.expenses.map((expense, index) => `
           <div style="border: 1px solid #e5e7eb; border-radius: 6px; padding: 15px; margin-bottom: 15px; background: #fafafa;">
             <div style="display: flex; justify-content: space-between; align-items: center; margin-bottom: 10px; padding-bottom: 8px; border-bottom: 1px solid #e5e7eb;">
-              <h3 style="margin: 0; font-size: 14px; font-weight: 600; color: #1f2937;">${index + 1}. ${expense.description}</h3>
-              <span style="font-size: 16px; font-weight: bold; color: #3b82f6;">${formatCurrency(expense.amount)}</span>
+              <h3 style="margin: 0; font-size: 14px; font-weight: 600; color: #1f2937;">${index + 1}. ${escapeHtml(expense.description)}</h3>
+              <span style="font-size: 16px; font-weight: bold; color: #3b82f6;">
+                ${escapeHtml(formatCurrency(expense.amount, expense.currency))}
+                ${expense.currency === report.baseCurrency ? '' : `<span style="font-size: 11px; font-weight: normal; color: #6b7280;">≈ ${escapeHtml(formatCurrency(expense.baseAmount, report.baseCurrency))}</span>`}
+              </span>
             </div>
             <div style="font-size: 11px; color: #6b7280;">
-              <div style="margin-bottom: 5px;"><strong>Payer:</strong> ${expense.payer}</div>
-              <div style="margin-bottom: 5px;"><strong>Date:</strong> ${expense.date}</div>
-              <div style="margin-bottom: 5px;"><strong>Share per person:</strong> ${formatCurrency(expense.sharePerPerson)}</div>
-              <div><strong>Involved:</strong> ${expense.involved.join(', ')}</div>
+              <div style="margin-bottom: 5px;"><strong>Paid by:</strong> ${escapeHtml(expense.payer)}</div>
+              <div style="margin-bottom: 5px;"><strong>Date:</strong> ${escapeHtml(expense.date)}</div>
+              <div style="margin-bottom: 5px;"><strong>Category:</strong> ${escapeHtml(expense.category)}</div>
+              <div style="margin-bottom: 5px;"><strong>Split:</strong> ${escapeHtml(expense.splitMode)}</div>
+              <div><strong>Shares:</strong> ${expense.shares.map(share => `${escapeHtml(share.name)} ${escapeHtml(formatCurrency(share.amount, expense.currency))}`).join(', ')}</div>
             </div>
+            ${expense.items.length === 0 ? '' : `
+              <table style="width: 100%; border-collapse: collapse; margin-top: 10px; font-size: 11px;">
+                <thead>
+                  <tr style="background: #ede9fe; color: #5b21b6;">
+                    <th style="padding: 5px; text-align: left;">Item</th>
+                    <th style="padding: 5px; text-align: left;">Shared by</th>
+                    <th style="padding: 5px; text-align: right;">Amount</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  ${expense.items.map(item => `
+                    <tr style="border-bottom: 1px solid #e5e7eb;">
+                      <td style="padding: 5px;">${escapeHtml(item.description)}</td>
+                      <td style="padding: 5px; color: #6b7280;">${escapeHtml(item.involved.join(', '))}</td>
+                      <td style="padding: 5px; text-align: right;">${escapeHtml(formatCurrency(item.amount, expense.currency))}</td>
+                    </tr>
+                  `).join('')}
+                  ${expense.charges.map(charge => `
+                    <tr style="border-bottom: 1px solid #e5e7eb; color: #6b7280; font-style: italic;">
+                      <td style="padding: 5px;">${escapeHtml(charge.label)}</td>
+                      <td style="padding: 5px;">Shared pro rata</td>
+                      <td style="padding: 5px; text-align: right;">${escapeHtml(formatCurrency(charge.amount, expense.currency))}</td>
+                    </tr>
+                  `).join('')}
+                </tbody>
+              </table>
+            `}
           </div>
         `).join('')}
       </div>
@@ -206,7 +404,12 @@ export default function ExportButton({
         <p style="margin: 5px 0 0 0;">Works offline. Your data is saved in this browser.</p>
       </div>
     `;
-    
+
+    return tempDiv;
+  };
+
+  const exportAsPDF = async (report: ReportData) => {
+    const tempDiv = createReportContainer(report);
     document.body.appendChild(tempDiv);
     
     try {
@@ -257,165 +460,8 @@ export default function ExportButton({
     }
   };
 
-  const exportAsImage = async () => {
-    // Create a comprehensive report object (same as PDF export)
-    const report = {
-      title: 'DamFair Expense Report',
-      generatedAt: new Date().toLocaleString(),
-      summary: {
-        totalParticipants: participants.length,
-        totalExpenses: expenses.length,
-        totalAmount: expenses.reduce((sum, expense) => sum + expense.amount, 0),
-        totalSettlements: settlements.length
-      },
-      participants: participants.map(p => ({ name: p.name })),
-      expenses: expenses.map(expense => ({
-        description: expense.description,
-        amount: expense.amount,
-        payer: expense.payer,
-        involved: expense.involved,
-        date: formatDate(expense.date),
-        sharePerPerson: roundToTwoDecimals(expense.amount / expense.involved.length)
-      })),
-      balances: balances.map(balance => ({
-        name: balance.name,
-        amount: balance.amount,
-        formattedAmount: formatCurrency(balance.amount)
-      })),
-      settlements: settlements.map(settlement => ({
-        from: settlement.from,
-        to: settlement.to,
-        amount: settlement.amount,
-        formattedAmount: formatCurrency(settlement.amount)
-      })),
-      detailedStats: stats.map(stat => ({
-        name: stat.name,
-        totalPaid: stat.totalPaid,
-        totalOwed: stat.totalOwed,
-        netBalance: stat.netBalance,
-        formattedPaid: formatCurrency(stat.totalPaid),
-        formattedOwed: formatCurrency(stat.totalOwed),
-        formattedBalance: formatCurrency(stat.netBalance)
-      }))
-    };
-
-    // Create a temporary div to render the receipt content
-    const tempDiv = document.createElement('div');
-    tempDiv.style.position = 'absolute';
-    tempDiv.style.left = '-9999px';
-    tempDiv.style.top = '0';
-    tempDiv.style.width = '800px';
-    tempDiv.style.backgroundColor = 'white';
-    tempDiv.style.padding = '20px';
-    tempDiv.style.fontFamily = 'Arial, sans-serif';
-    tempDiv.style.fontSize = '12px';
-    tempDiv.style.lineHeight = '1.4';
-    
-    // Generate HTML content for the receipt image
-    tempDiv.innerHTML = `
-      <div style="text-align: center; margin-bottom: 20px; border-bottom: 2px solid #3b82f6; padding-bottom: 10px;">
-        <h1 style="color: #1f2937; margin: 0 0 10px 0; font-size: 24px;">🦫 DamFair Expense Report</h1>
-        <p style="color: #6b7280; margin: 0; font-size: 14px;">Fair expense splitting, no drama</p>
-        <p style="color: #6b7280; margin: 5px 0 0 0; font-size: 12px;">Generated: ${report.generatedAt}</p>
-      </div>
-      
-      <div style="background: #f8fafc; padding: 15px; border-radius: 8px; margin-bottom: 20px;">
-        <h2 style="color: #374151; margin: 0 0 15px 0; font-size: 18px;">Summary</h2>
-        <div style="display: grid; grid-template-columns: repeat(2, 1fr); gap: 10px;">
-          <div style="text-align: center;">
-            <div style="font-size: 10px; color: #6b7280; text-transform: uppercase;">Participants</div>
-            <div style="font-size: 20px; font-weight: bold; color: #3b82f6;">${report.summary.totalParticipants}</div>
-          </div>
-          <div style="text-align: center;">
-            <div style="font-size: 10px; color: #6b7280; text-transform: uppercase;">Total Expenses</div>
-            <div style="font-size: 20px; font-weight: bold; color: #3b82f6;">${report.summary.totalExpenses}</div>
-          </div>
-          <div style="text-align: center;">
-            <div style="font-size: 10px; color: #6b7280; text-transform: uppercase;">Total Amount</div>
-            <div style="font-size: 20px; font-weight: bold; color: #3b82f6;">${formatCurrency(report.summary.totalAmount)}</div>
-          </div>
-          <div style="text-align: center;">
-            <div style="font-size: 10px; color: #6b7280; text-transform: uppercase;">Settlements</div>
-            <div style="font-size: 20px; font-weight: bold; color: #3b82f6;">${report.summary.totalSettlements}</div>
-          </div>
-        </div>
-      </div>
-      
-      <div style="margin-bottom: 20px;">
-        <h2 style="color: #374151; border-bottom: 1px solid #e5e7eb; padding-bottom: 5px; margin-bottom: 15px; font-size: 16px;">Individual Balances</h2>
-        ${report.balances.map((balance: any) => `
-          <div style="display: flex; justify-content: space-between; padding: 8px 0; border-bottom: 1px solid #f3f4f6;">
-            <span style="font-weight: 500;">${balance.name}</span>
-            <span style="font-weight: bold; color: ${balance.amount > 0 ? '#059669' : balance.amount < 0 ? '#dc2626' : '#6b7280'};">
-              ${balance.amount >= 0 ? '+' : ''}${balance.formattedAmount}
-            </span>
-          </div>
-        `).join('')}
-      </div>
-      
-      <div style="margin-bottom: 20px;">
-        <h2 style="color: #374151; border-bottom: 1px solid #e5e7eb; padding-bottom: 5px; margin-bottom: 15px; font-size: 16px;">Settlement Plan</h2>
-        ${report.settlements.length === 0 ? 
-          '<p style="text-align: center; color: #059669; font-weight: bold;">🎉 All debts are already settled!</p>' :
-          report.settlements.map((settlement: any, index: number) => `
-            <div style="display: flex; justify-content: space-between; padding: 8px 0; border-bottom: 1px solid #f3f4f6;">
-              <span>${index + 1}. ${settlement.from} → ${settlement.to}</span>
-              <span style="font-weight: bold; color: #3b82f6;">${settlement.formattedAmount}</span>
-            </div>
-          `).join('')
-        }
-      </div>
-      
-      <div style="margin-bottom: 20px;">
-        <h2 style="color: #374151; border-bottom: 1px solid #e5e7eb; padding-bottom: 5px; margin-bottom: 15px; font-size: 16px;">Detailed Spending Breakdown</h2>
-        <table style="width: 100%; border-collapse: collapse; margin-bottom: 15px;">
-          <thead>
-            <tr style="background: #3b82f6; color: white;">
-              <th style="padding: 8px; text-align: left; font-size: 12px;">Name</th>
-              <th style="padding: 8px; text-align: left; font-size: 12px;">Total Paid</th>
-              <th style="padding: 8px; text-align: left; font-size: 12px;">Total Owed</th>
-              <th style="padding: 8px; text-align: left; font-size: 12px;">Net Balance</th>
-            </tr>
-          </thead>
-          <tbody>
-            ${report.detailedStats.map((stat: any) => `
-              <tr style="border-bottom: 1px solid #e5e7eb;">
-                <td style="padding: 8px; font-weight: 500; font-size: 12px;">${stat.name}</td>
-                <td style="padding: 8px; font-size: 12px;">${stat.formattedPaid}</td>
-                <td style="padding: 8px; font-size: 12px;">${stat.formattedOwed}</td>
-                <td style="padding: 8px; font-weight: bold; font-size: 12px; color: ${stat.netBalance >= 0 ? '#059669' : '#dc2626'};">
-                  ${stat.formattedBalance}
-                </td>
-              </tr>
-            `).join('')}
-          </tbody>
-        </table>
-      </div>
-      
-      <div style="margin-bottom: 20px;">
-        <h2 style="color: #374151; border-bottom: 1px solid #e5e7eb; padding-bottom: 5px; margin-bottom: 15px; font-size: 16px;">Expense Details</h2>
-        ${report.expenses.map((expense: any, index: number) => `
-          <div style="border: 1px solid #e5e7eb; border-radius: 6px; padding: 15px; margin-bottom: 15px; background: #fafafa;">
-            <div style="display: flex; justify-content: space-between; align-items: center; margin-bottom: 10px; padding-bottom: 8px; border-bottom: 1px solid #e5e7eb;">
-              <h3 style="margin: 0; font-size: 14px; font-weight: 600; color: #1f2937;">${index + 1}. ${expense.description}</h3>
-              <span style="font-size: 16px; font-weight: bold; color: #3b82f6;">${formatCurrency(expense.amount)}</span>
-            </div>
-            <div style="font-size: 11px; color: #6b7280;">
-              <div style="margin-bottom: 5px;"><strong>Payer:</strong> ${expense.payer}</div>
-              <div style="margin-bottom: 5px;"><strong>Date:</strong> ${expense.date}</div>
-              <div style="margin-bottom: 5px;"><strong>Share per person:</strong> ${formatCurrency(expense.sharePerPerson)}</div>
-              <div><strong>Involved:</strong> ${expense.involved.join(', ')}</div>
-            </div>
-          </div>
-        `).join('')}
-      </div>
-      
-      <div style="text-align: center; margin-top: 30px; padding-top: 15px; border-top: 2px solid #e5e7eb; color: #6b7280; font-size: 11px;">
-        <p style="margin: 0;">Made with ❤️ for fair expense splitting</p>
-        <p style="margin: 5px 0 0 0;">Works offline. Your data is saved in this browser.</p>
-      </div>
-    `;
-    
+  const exportAsImage = async (report: ReportData) => {
+    const tempDiv = createReportContainer(report);
     document.body.appendChild(tempDiv);
     
     try {
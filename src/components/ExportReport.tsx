@@ -1,6 +1,6 @@
 import { useState } from 'react';
 import type { Participant, Expense, Balance, Settlement, ParticipantStats } from '../types';
-import { formatCurrency, formatDate, roundToTwoDecimals } from '../utils';
+import { formatCurrency, formatDate, getParticipantName, formatPayers } from '../utils';
 import jsPDF from 'jspdf';
 import html2canvas from 'html2canvas';
 
@@ -39,10 +39,10 @@ export default function ExportReport({
         expenses: expenses.map(expense => ({
           description: expense.description,
           amount: expense.amount,
-          payer: expense.payer,
-          involved: expense.involved,
+          payer: formatPayers(participants, expense.payers),
+          involved: expense.involved.map(participantId => getParticipantName(participants, participantId)),
           date: formatDate(expense.date),
-          sharePerPerson: roundToTwoDecimals(expense.amount / expense.involved.length)
+          sharePerPerson: Math.round(expense.amount / expense.involved.length)
         })),
         balances: balances.map(balance => ({
           name: balance.name,
@@ -50,8 +50,8 @@ export default function ExportReport({
           formattedAmount: formatCurrency(balance.amount)
         })),
         settlements: settlements.map(settlement => ({
-          from: settlement.from,
-          to: settlement.to,
+          from: getParticipantName(participants, settlement.from),
+          to: getParticipantName(participants, settlement.to),
           amount: settlement.amount,
           formattedAmount: formatCurrency(settlement.amount)
         })),
@@ -328,7 +328,7 @@ export default function ExportReport({
               <span style="font-size: 16px; font-weight: bold; color: #3b82f6;">${formatCurrency(expense.amount)}</span>
             </div>
             <div style="font-size: 11px; color: #6b7280;">
-              <div style="margin-bottom: 5px;"><strong>Payer:</strong> ${expense.payer}</div>
+              <div style="margin-bottom: 5px;"><strong>Paid by:</strong> ${expense.payer}</div>
               <div style="margin-bottom: 5px;"><strong>Date:</strong> ${expense.date}</div>
               <div style="margin-bottom: 5px;"><strong>Share per person:</strong> ${formatCurrency(expense.sharePerPerson)}</div>
               <div><strong>Involved:</strong> ${expense.involved.join(', ')}</div>
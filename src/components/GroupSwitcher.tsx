@@ -0,0 +1,258 @@
+import { useState, useEffect, useRef } from 'react';
+import type { Group } from '../types';
+import { validateGroupName, formatDateOnly } from '../utils';
+
+interface GroupSwitcherProps {
+  groups: Group[];
+  activeGroupId: string;
+  onGroupSelect: (groupId: string) => void;
+  onGroupCreate: (name: string) => void;
+  onGroupRename: (groupId: string, name: string) => void;
+  onGroupDuplicate: (groupId: string) => void;
+  onGroupArchive: (groupId: string, archived: boolean) => void;
+  onGroupDelete: (groupId: string) => void;
+}
+
+export default function GroupSwitcher({
+  groups,
+  activeGroupId,
+  onGroupSelect,
+  onGroupCreate,
+  onGroupRename,
+  onGroupDuplicate,
+  onGroupArchive,
+  onGroupDelete
+}: GroupSwitcherProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
+  const [newGroupName, setNewGroupName] = useState('');
+  const [editingGroupId, setEditingGroupId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [error, setError] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const activeGroup = groups.find(group => group.id === activeGroupId);
+  const openGroups = groups.filter(group => !group.archived);
+  const archivedGroups = groups.filter(group => group.archived);
+
+  // Close the menu when clicking outside of it
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+        setEditingGroupId(null);
+        setError('');
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const createGroup = () => {
+    const validationError = validateGroupName(newGroupName);
+
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    onGroupCreate(newGroupName.trim());
+    setNewGroupName('');
+    setError('');
+    setIsOpen(false);
+  };
+
+  const startRename = (group: Group) => {
+    setEditingGroupId(group.id);
+    setEditingName(group.name);
+    setError('');
+  };
+
+  const saveRename = () => {
+    if (!editingGroupId) return;
+
+    const validationError = validateGroupName(editingName);
+
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    onGroupRename(editingGroupId, editingName.trim());
+    setEditingGroupId(null);
+    setError('');
+  };
+
+  const deleteGroup = (group: Group) => {
+    if (window.confirm(`Delete "${group.name}"? All of its participants and expenses will be lost.`)) {
+      onGroupDelete(group.id);
+    }
+  };
+
+  const selectGroup = (groupId: string) => {
+    onGroupSelect(groupId);
+    setIsOpen(false);
+  };
+
+  const renderGroupRow = (group: Group) => {
+    const isActive = group.id === activeGroupId;
+
+    if (editingGroupId === group.id) {
+      return (
+        <div key={group.id} className="flex gap-2 p-2">
+          <input
+            type="text"
+            value={editingName}
+            onChange={(e) => {
+              setEditingName(e.target.value);
+              setError('');
+            }}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') saveRename();
+              if (e.key === 'Escape') setEditingGroupId(null);
+            }}
+            autoFocus
+            className="flex-1 px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            onClick={saveRename}
+            className="bg-blue-500 text-white px-3 py-1 rounded-md text-sm hover:bg-blue-600 transition-colors"
+          >
+            Save
+          </button>
+        </div>
+      );
+    }
+
+    return (
+      <div
+        key={group.id}
+        className={`flex items-center justify-between p-2 rounded-lg transition-colors ${
+          isActive ? 'bg-blue-50 border border-blue-200' : 'hover:bg-gray-50 border border-transparent'
+        }`}
+      >
+        <button
+          onClick={() => selectGroup(group.id)}
+          className="flex-1 min-w-0 text-left"
+        >
+          <div className="font-medium text-gray-800 text-sm truncate">{group.name}</div>
+          <div className="text-xs text-gray-500">
+            {group.participants.length} participant{group.participants.length !== 1 ? 's' : ''} · {group.expenses.length} expense{group.expenses.length !== 1 ? 's' : ''} · {formatDateOnly(group.createdAt)}
+          </div>
+        </button>
+        <div className="flex items-center gap-1 ml-2 text-sm">
+          <button
+            onClick={() => startRename(group)}
+            className="text-gray-500 hover:text-blue-600 hover:bg-blue-50 p-1 rounded transition-colors"
+            title="Rename group"
+          >
+            ✎
+          </button>
+          <button
+            onClick={() => onGroupDuplicate(group.id)}
+            className="text-gray-500 hover:text-blue-600 hover:bg-blue-50 p-1 rounded transition-colors"
+            title="Duplicate group"
+          >
+            ⧉
+          </button>
+          <button
+            onClick={() => onGroupArchive(group.id, !group.archived)}
+            className="text-gray-500 hover:text-amber-600 hover:bg-amber-50 p-1 rounded transition-colors"
+            title={group.archived ? 'Restore group' : 'Archive group'}
+          >
+            {group.archived ? '↩' : '🗄'}
+          </button>
+          <button
+            onClick={() => deleteGroup(group)}
+            className="text-red-500 hover:text-red-700 hover:bg-red-50 p-1 rounded transition-colors"
+            title="Delete group"
+          >
+            ✕
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors max-w-xs"
+      >
+        <span className="truncate">{activeGroup ? activeGroup.name : 'Select group'}</span>
+        {activeGroup?.archived && (
+          <span className="ml-2 text-xs px-1.5 py-0.5 bg-amber-100 text-amber-800 rounded">Archived</span>
+        )}
+        <svg
+          className={`w-4 h-4 ml-2 transition-transform ${isOpen ? 'rotate-180' : ''}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 mt-2 w-80 bg-white rounded-lg shadow-lg border border-gray-200 p-3 z-20">
+          <h3 className="text-xs font-medium text-gray-500 uppercase mb-2">Groups</h3>
+          <div className="space-y-1 max-h-64 overflow-y-auto">
+            {openGroups.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-2">No open groups</p>
+            ) : (
+              openGroups.map(renderGroupRow)
+            )}
+          </div>
+
+          {archivedGroups.length > 0 && (
+            <div className="mt-3">
+              <button
+                onClick={() => setShowArchived(!showArchived)}
+                className="text-xs font-medium text-gray-500 uppercase hover:text-gray-700"
+              >
+                {showArchived ? '▾' : '▸'} Archived ({archivedGroups.length})
+              </button>
+              {showArchived && (
+                <div className="space-y-1 mt-1 max-h-48 overflow-y-auto">
+                  {archivedGroups.map(renderGroupRow)}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* New Group Form */}
+          <div className="mt-3 pt-3 border-t border-gray-200">
+            <div className="flex gap-2">
+              <input
+                type="text"
+                placeholder="New group name"
+                value={newGroupName}
+                onChange={(e) => {
+                  setNewGroupName(e.target.value);
+                  setError('');
+                }}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') createGroup();
+                }}
+                className="flex-1 px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                onClick={createGroup}
+                className="bg-blue-500 text-white px-3 py-1 rounded-md text-sm hover:bg-blue-600 transition-colors"
+              >
+                Create
+              </button>
+            </div>
+            {error && (
+              <p className="text-red-500 text-xs mt-2">{error}</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
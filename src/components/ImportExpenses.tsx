@@ -0,0 +1,139 @@
+import { useRef, useState } from 'react';
+import type { ChangeEvent } from 'react';
+import type {
+  Participant,
+  Expense,
+  GroupSettings,
+  CsvColumnMapping,
+  CsvImportOptions,
+  ImportSource,
+  ImportTarget,
+  AppImport
+} from '../types';
+import { guessImportOptions } from '../csvImport';
+import { detectImportSource } from '../importers';
+import CsvImportDialog from './CsvImportDialog';
+import AppImportDialog from './AppImportDialog';
+
+interface ImportExpensesProps {
+  groupName: string;
+  participants: Participant[];
+  settings: GroupSettings;
+  onImport: (newParticipants: Participant[], expenses: Expense[]) => void;
+  onAppImport: (result: AppImport, target: ImportTarget, newGroupName: string) => void;
+}
+
+interface PendingCsv {
+  fileName: string;
+  text: string;
+  options: CsvImportOptions;
+  mapping: CsvColumnMapping;
+}
+
+interface PendingAppExport {
+  source: ImportSource;
+  fileName: string;
+  text: string;
+}
+
+export default function ImportExpenses({ groupName, participants, settings, onImport, onAppImport }: ImportExpensesProps) {
+  const [pendingCsv, setPendingCsv] = useState<PendingCsv | null>(null);
+  const [pendingAppExport, setPendingAppExport] = useState<PendingAppExport | null>(null);
+  const [error, setError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const openImportFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Let the same file be picked again after cancelling
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      if (!text.trim()) {
+        setError('The file is empty');
+        return;
+      }
+      setError('');
+      // Exports from other apps carry more than a plain CSV, so they get their own importer
+      const source = detectImportSource(text);
+      if (source) {
+        setPendingAppExport({ source, fileName: file.name, text });
+      } else {
+        setPendingCsv({ fileName: file.name, text, ...guessImportOptions(text) });
+      }
+    } catch (readError) {
+      console.error('Error reading import file:', readError);
+      setError('The file could not be read');
+    }
+  };
+
+  const confirmImport = (newParticipants: Participant[], expenses: Expense[]) => {
+    onImport(newParticipants, expenses);
+    setPendingCsv(null);
+  };
+
+  const confirmAppImport = (result: AppImport, target: ImportTarget, newGroupName: string) => {
+    onAppImport(result, target, newGroupName);
+    setPendingAppExport(null);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <h2 className="text-xl font-semibold text-gray-800 mb-4 flex items-center gap-2">
+        <svg className="w-6 h-6 text-sky-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+        </svg>
+        Import Expenses
+      </h2>
+      <p className="text-sm text-gray-500 mb-4">
+        Bring in expenses from a spreadsheet or bank export. Splitwise and Tricount exports are recognized
+        with their payments and splits. The file is read in your browser and never uploaded.
+      </p>
+
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        className="w-full px-4 py-2 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50 transition-colors"
+      >
+        Import CSV…
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="text/csv,.csv,.tsv,.txt"
+        onChange={openImportFile}
+        className="hidden"
+      />
+
+      {error && (
+        <p className="text-red-500 text-sm mt-2">{error}</p>
+      )}
+
+      {pendingCsv && (
+        <CsvImportDialog
+          fileName={pendingCsv.fileName}
+          text={pendingCsv.text}
+          initialOptions={pendingCsv.options}
+          initialMapping={pendingCsv.mapping}
+          participants={participants}
+          settings={settings}
+          onImport={confirmImport}
+          onCancel={() => setPendingCsv(null)}
+        />
+      )}
+
+      {pendingAppExport && (
+        <AppImportDialog
+          source={pendingAppExport.source}
+          fileName={pendingAppExport.fileName}
+          text={pendingAppExport.text}
+          groupName={groupName}
+          participants={participants}
+          settings={settings}
+          onImport={confirmAppImport}
+          onCancel={() => setPendingAppExport(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+import type { Participant, ExpenseCharges } from '../types';
+import { formatCurrency, generateId, getCurrencySymbol, parseAmount } from '../utils';
+
+export interface ItemDraft {
+  id: string;
+  description: string;
+  amount: string;
+  involved: string[];
+}
+
+export type ChargesDraft = Record<keyof ExpenseCharges, string>;
+
+interface ItemizedEditorProps {
+  participants: Participant[];
+  currency: string;
+  items: ItemDraft[];
+  charges: ChargesDraft;
+  shares: Map<string, number>;
+  onItemsChange: (items: ItemDraft[]) => void;
+  onChargesChange: (charges: ChargesDraft) => void;
+}
+
+const CHARGE_LABELS: Record<keyof ExpenseCharges, string> = {
+  tax: 'Tax',
+  tip: 'Tip',
+  service: 'Service'
+};
+
+export default function ItemizedEditor({
+  participants,
+  currency,
+  items,
+  charges,
+  shares,
+  onItemsChange,
+  onChargesChange
+}: ItemizedEditorProps) {
+  const subtotal = items.reduce((sum, item) => sum + parseAmount(item.amount, currency), 0);
+  const extras = Object.values(charges).reduce((sum, charge) => sum + parseAmount(charge, currency), 0);
+
+  const updateItem = (itemId: string, changes: Partial<ItemDraft>) => {
+    onItemsChange(items.map(item => (item.id === itemId ? { ...item, ...changes } : item)));
+  };
+
+  const toggleItemParticipant = (item: ItemDraft, participantId: string) => {
+    const involved = item.involved.includes(participantId)
+      ? item.involved.filter(id => id !== participantId)
+      : [...item.involved, participantId];
+    updateItem(item.id, { involved });
+  };
+
+  const addItem = () => {
+    onItemsChange([
+      ...items,
+      { id: generateId(), description: '', amount: '', involved: participants.map(p => p.id) }
+    ]);
+  };
+
+  return (
+    <div className="mb-6 space-y-3">
+      {items.map((item, index) => (
+        <div key={item.id} className="p-3 bg-gray-50 border border-gray-200 rounded-lg">
+          <div className="flex gap-2 mb-2">
+            <input
+              type="text"
+              value={item.description}
+              onChange={(e) => updateItem(item.id, { description: e.target.value })}
+              placeholder={`Item ${index + 1}`}
+              className="flex-1 min-w-0 px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+            />
+            <div className="relative w-28">
+              <span className="absolute left-2 top-1 text-gray-500 text-sm">{getCurrencySymbol(currency)}</span>
+              <input
+                type="number"
+                value={item.amount}
+                onChange={(e) => updateItem(item.id, { amount: e.target.value })}
+                placeholder="0.00"
+                step="0.01"
+                min="0"
+                className="w-full pl-6 pr-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+              />
+            </div>
+            <button
+              type="button"
+              onClick={() => onItemsChange(items.filter(i => i.id !== item.id))}
+              className="text-red-500 hover:text-red-700 hover:bg-red-50 px-2 rounded transition-colors"
+              title="Remove item"
+            >
+              ✕
+            </button>
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {participants.map(participant => {
+              const isSelected = item.involved.includes(participant.id);
+              return (
+                <button
+                  key={participant.id}
+                  type="button"
+                  onClick={() => toggleItemParticipant(item, participant.id)}
+                  className={`px-2 py-0.5 rounded-full text-xs font-medium transition-colors ${
+                    isSelected
+                      ? 'bg-blue-500 text-white hover:bg-blue-600'
+                      : 'bg-white text-gray-600 hover:bg-gray-100 border border-gray-300'
+                  }`}
+                >
+                  {participant.name}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={addItem}
+        className="w-full py-2 border-2 border-dashed border-gray-300 rounded-lg text-sm text-gray-600 hover:border-purple-400 hover:text-purple-600 transition-colors"
+      >
+        + Add item
+      </button>
+
+      {/* Tax, tip and service */}
+      <div className="grid grid-cols-3 gap-2">
+        {(Object.keys(CHARGE_LABELS) as (keyof ExpenseCharges)[]).map(key => (
+          <div key={key}>
+            <label className="block text-xs font-medium text-gray-600 mb-1">{CHARGE_LABELS[key]}</label>
+            <div className="relative">
+              <span className="absolute left-2 top-1 text-gray-500 text-sm">{getCurrencySymbol(currency)}</span>
+              <input
+                type="number"
+                value={charges[key]}
+                onChange={(e) => onChargesChange({ ...charges, [key]: e.target.value })}
+                placeholder="0.00"
+                step="0.01"
+                min="0"
+                className="w-full pl-6 pr-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Receipt summary */}
+      <div className="p-3 bg-purple-50 border border-purple-200 rounded-lg text-sm">
+        <div className="flex justify-between text-gray-600">
+          <span>Items subtotal</span>
+          <span>{formatCurrency(subtotal, currency)}</span>
+        </div>
+        <div className="flex justify-between text-gray-600">
+          <span>Tax, tip & service</span>
+          <span>{formatCurrency(extras, currency)}</span>
+        </div>
+        <div className="flex justify-between font-semibold text-gray-800 border-t border-purple-200 mt-1 pt-1">
+          <span>Total</span>
+          <span>{formatCurrency(subtotal + extras, currency)}</span>
+        </div>
+        {shares.size > 0 && (
+          <div className="mt-2 pt-2 border-t border-purple-200 space-y-0.5">
+            {participants.filter(p => shares.has(p.id)).map(participant => (
+              <div key={participant.id} className="flex justify-between text-xs text-gray-600">
+                <span>{participant.name}</span>
+                <span>{formatCurrency(shares.get(participant.id) || 0, currency)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
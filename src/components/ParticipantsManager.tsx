@@ -1,15 +1,32 @@
 import { useState } from 'react';
-import type { Participant } from '../types';
-import { validateParticipantName } from '../utils';
+import type { Participant, Expense, Payment, RecurringTemplate, GroupSettings } from '../types';
+import { validateParticipantName, renameParticipant, countParticipantExpenses, countParticipantPayments } from '../utils';
+import RemoveParticipantDialog from './RemoveParticipantDialog';
 
 interface ControlledParticipantsManagerProps {
   participants: Participant[];
+  expenses: Expense[];
+  payments: Payment[];
+  recurringTemplates: RecurringTemplate[];
+  settings: GroupSettings;
   onParticipantsChange: (participants: Participant[]) => void;
+  onParticipantReassigned: (participantId: string, replacementId: string, isMerge: boolean) => void;
 }
 
-export default function ParticipantsManager({ participants, onParticipantsChange }: ControlledParticipantsManagerProps) {
+export default function ParticipantsManager({
+  participants,
+  expenses,
+  payments,
+  recurringTemplates,
+  settings,
+  onParticipantsChange,
+  onParticipantReassigned
+}: ControlledParticipantsManagerProps) {
   const [newParticipantName, setNewParticipantName] = useState('');
   const [error, setError] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [removingParticipant, setRemovingParticipant] = useState<Participant | null>(null);
 
   const addParticipant = () => {
     const validationError = validateParticipantName(newParticipantName, participants);
@@ -31,11 +48,55 @@ export default function ParticipantsManager({ participants, onParticipantsChange
     setError('');
   };
 
-  const removeParticipant = (id: string) => {
-    const updatedParticipants = participants.filter(participant => participant.id !== id);
+  // Participants with expense or payment history, or a part in a recurring expense, need a
+  // decision about it before they go
+  const removeParticipant = (participant: Participant) => {
+    const templateExpenses = recurringTemplates.map(template => template.expense);
+    if (
+      countParticipantExpenses(expenses, participant.id) > 0 ||
+      countParticipantExpenses(templateExpenses, participant.id) > 0 ||
+      countParticipantPayments(payments, participant.id) > 0
+    ) {
+      setRemovingParticipant(participant);
+      return;
+    }
+
+    const updatedParticipants = participants.filter(p => p.id !== participant.id);
     onParticipantsChange(updatedParticipants);
   };
 
+  const confirmReassign = (participantId: string, replacementId: string, isMerge: boolean) => {
+    onParticipantReassigned(participantId, replacementId, isMerge);
+    setRemovingParticipant(null);
+  };
+
+  const startRename = (participant: Participant) => {
+    setEditingId(participant.id);
+    setEditingName(participant.name);
+    setError('');
+  };
+
+  const cancelRename = () => {
+    setEditingId(null);
+    setError('');
+  };
+
+  // Expenses reference participants by id, so a rename only touches the participant itself
+  const saveRename = () => {
+    if (!editingId) return;
+
+    const validationError = validateParticipantName(editingName, participants, editingId);
+
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    onParticipantsChange(renameParticipant(participants, editingId, editingName));
+    setEditingId(null);
+    setError('');
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
       addParticipant();
@@ -95,24 +156,65 @@ export default function ParticipantsManager({ participants, onParticipantsChange
                 key={participant.id}
                 className="flex justify-between items-center p-3 bg-gradient-to-r from-blue-50 to-indigo-50 border border-blue-200 rounded-lg hover:shadow-md transition-all duration-200"
               >
-                <div className="flex items-center">
-                  <div className="w-8 h-8 bg-blue-500 text-white rounded-full flex items-center justify-center text-sm font-bold mr-3">
+                <div className="flex items-center min-w-0">
+                  <div className="w-8 h-8 flex-shrink-0 bg-blue-500 text-white rounded-full flex items-center justify-center text-sm font-bold mr-3">
                     {participant.name.charAt(0).toUpperCase()}
                   </div>
-                  <span className="font-medium text-gray-800">{participant.name}</span>
+                  {editingId === participant.id ? (
+                    <input
+                      type="text"
+                      value={editingName}
+                      onChange={(e) => {
+                        setEditingName(e.target.value);
+                        setError('');
+                      }}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') saveRename();
+                        if (e.key === 'Escape') cancelRename();
+                      }}
+                      autoFocus
+                      className="w-full min-w-0 px-2 py-1 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  ) : (
+                    <span className="font-medium text-gray-800 truncate">{participant.name}</span>
+                  )}
+                </div>
+                <div className="flex items-center flex-shrink-0 ml-1">
+                  {editingId !== participant.id && (
+                    <button
+                      onClick={() => startRename(participant)}
+                      className="text-gray-500 hover:text-blue-600 hover:bg-blue-50 p-1 rounded transition-all duration-200"
+                      title="Rename participant"
+                    >
+                      ✎
+                    </button>
+                  )}
+                  <button
+                    onClick={() => removeParticipant(participant)}
+                    className="text-red-500 hover:text-red-700 hover:bg-red-50 p-1 rounded transition-all duration-200"
+                    title="Remove participant"
+                  >
+                    ✕
+                  </button>
                 </div>
-                <button
-                  onClick={() => removeParticipant(participant.id)}
-                  className="text-red-500 hover:text-red-700 hover:bg-red-50 p-1 rounded transition-all duration-200"
-                  title="Remove participant"
-                >
-                  ✕
-                </button>
               </div>
             ))}
           </div>
         )}
       </div>
+
+      {removingParticipant && (
+        <RemoveParticipantDialog
+          participant={removingParticipant}
+          participants={participants}
+          expenses={expenses}
+          payments={payments}
+          recurringTemplates={recurringTemplates}
+          settings={settings}
+          onConfirm={confirmReassign}
+          onCancel={() => setRemovingParticipant(null)}
+        />
+      )}
     </div>
   );
 } 
\ No newline at end of file
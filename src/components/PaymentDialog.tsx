@@ -0,0 +1,148 @@
+import { useState } from 'react';
+import type { Participant, Payment, Settlement } from '../types';
+import {
+  formatCurrency,
+  formatAmountInput,
+  parseAmount,
+  getCurrencySymbol,
+  getParticipantName,
+  toDateInputValue,
+  fromDateInputValue,
+  validatePayment,
+  generateId
+} from '../utils';
+
+interface PaymentDialogProps {
+  participants: Participant[];
+  settlement: Settlement;
+  currency: string;
+  onConfirm: (payment: Payment) => void;
+  onCancel: () => void;
+}
+
+export default function PaymentDialog({
+  participants,
+  settlement,
+  currency,
+  onConfirm,
+  onCancel
+}: PaymentDialogProps) {
+  const [amount, setAmount] = useState(formatAmountInput(settlement.amount, currency));
+  const [date, setDate] = useState(toDateInputValue(new Date().toISOString()));
+  const [note, setNote] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const fromName = getParticipantName(participants, settlement.from);
+  const toName = getParticipantName(participants, settlement.to);
+  const parsedAmount = parseAmount(amount, currency);
+  const remaining = settlement.amount - parsedAmount;
+
+  const handleConfirm = () => {
+    const payment: Payment = {
+      id: generateId(),
+      from: settlement.from,
+      to: settlement.to,
+      amount: parsedAmount,
+      currency,
+      date: date ? fromDateInputValue(date) : '',
+      note: note.trim()
+    };
+
+    const validationErrors = validatePayment(payment, participants);
+    if (validationErrors.length > 0) {
+      setErrors(validationErrors);
+      return;
+    }
+
+    onConfirm(payment);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-30">
+      <div className="bg-white rounded-xl shadow-xl max-w-md w-full p-6">
+        <h3 className="text-lg font-semibold text-gray-800 mb-2">Record a payment</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          {fromName} owes {toName} {formatCurrency(settlement.amount, currency)}. Enter what was actually paid; a partial payment leaves the rest in the plan.
+        </p>
+
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Amount *
+          </label>
+          <div className="relative">
+            <span className="absolute left-3 top-2 text-gray-500">{getCurrencySymbol(currency)}</span>
+            <input
+              type="number"
+              value={amount}
+              onChange={(e) => {
+                setAmount(e.target.value);
+                setErrors([]);
+              }}
+              step="0.01"
+              min="0"
+              autoFocus
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          {parsedAmount > 0 && remaining !== 0 && (
+            <p className="text-xs text-gray-500 mt-1">
+              {remaining > 0
+                ? `${formatCurrency(remaining, currency)} will still be owed`
+                : `${formatCurrency(-remaining, currency)} more than the suggested amount`}
+            </p>
+          )}
+        </div>
+
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Date *
+          </label>
+          <input
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Note
+          </label>
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="e.g. Bank transfer"
+            className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+
+        {errors.length > 0 && (
+          <div className="mb-4">
+            {errors.map((error, index) => (
+              <p key={index} className="text-red-500 text-sm">
+                {error}
+              </p>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 rounded-md text-sm text-gray-700 bg-gray-100 hover:bg-gray-200 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleConfirm}
+            className="px-4 py-2 rounded-md text-sm text-white bg-green-500 hover:bg-green-600 transition-colors"
+          >
+            Mark as paid
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
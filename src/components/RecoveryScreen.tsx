@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import type { DataProblem } from '../types';
+import { loadRawData, downloadJson } from '../utils';
+
+interface RecoveryScreenProps {
+  problems: DataProblem[];
+  loadedCount: number; // groups that loaded fine
+  onContinue: () => void;
+}
+
+// Problems listed per group before the rest are summarized
+const MAX_LISTED_ERRORS = 5;
+
+export default function RecoveryScreen({ problems, loadedCount, onContinue }: RecoveryScreenProps) {
+  const [hasDownloaded, setHasDownloaded] = useState(false);
+
+  const downloadRawData = async () => {
+    try {
+      downloadJson(await loadRawData(), `damfair-raw-data-${new Date().toISOString().split('T')[0]}.json`);
+      setHasDownloaded(true);
+    } catch (error) {
+      console.error('Error downloading raw data:', error);
+      alert('The saved data could not be read for download. Please try again.');
+    }
+  };
+
+  const continueWithoutDamagedData = () => {
+    if (hasDownloaded || window.confirm('The damaged data will be deleted. Continue without downloading it first?')) {
+      onContinue();
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-lg border border-gray-100 max-w-2xl w-full p-8">
+        <div className="flex items-center gap-3 mb-4">
+          <div className="text-3xl">🦫</div>
+          <h1 className="text-2xl font-bold text-gray-900">Some saved data could not be loaded</h1>
+        </div>
+        <p className="text-gray-600 mb-6">
+          DamFair found data it can't use safely, so it hasn't been touched yet. Download a copy of everything
+          that is saved in this browser before continuing, so nothing is lost.
+          {loadedCount > 0 && ` ${loadedCount} other group${loadedCount === 1 ? '' : 's'} loaded fine.`}
+        </p>
+
+        {/* Problems */}
+        <div className="space-y-3 mb-6 max-h-80 overflow-y-auto">
+          {problems.map(problem => (
+            <div key={problem.key} className="p-3 bg-red-50 border border-red-200 rounded-lg">
+              <div className="font-medium text-red-800">{problem.name}</div>
+              <ul className="mt-1 text-sm text-red-700 list-disc list-inside">
+                {problem.errors.slice(0, MAX_LISTED_ERRORS).map(error => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+              {problem.errors.length > MAX_LISTED_ERRORS && (
+                <div className="mt-1 text-xs text-red-600">
+                  …and {problem.errors.length - MAX_LISTED_ERRORS} more
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-3">
+          <button
+            onClick={downloadRawData}
+            className="flex-1 px-4 py-2 rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 transition-colors"
+          >
+            Download raw data
+          </button>
+          <button
+            onClick={continueWithoutDamagedData}
+            className="flex-1 px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 transition-colors"
+          >
+            Continue without the damaged data
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
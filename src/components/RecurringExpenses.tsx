@@ -0,0 +1,111 @@
+import type { Participant, Expense, RecurringTemplate } from '../types';
+import {
+  formatCurrency,
+  formatDateOnly,
+  formatPayers,
+  describeRecurrence,
+  getNextOccurrence,
+  skipNextOccurrence,
+  resumeTemplate
+} from '../utils';
+
+interface RecurringExpensesProps {
+  participants: Participant[];
+  expenses: Expense[];
+  templates: RecurringTemplate[];
+  onTemplateChanged: (template: RecurringTemplate) => void;
+  onTemplateDeleted: (templateId: string) => void;
+}
+
+export default function RecurringExpenses({
+  participants,
+  expenses,
+  templates,
+  onTemplateChanged,
+  onTemplateDeleted
+}: RecurringExpensesProps) {
+  const deleteTemplate = (template: RecurringTemplate) => {
+    if (window.confirm(`Stop repeating "${template.expense.description}"? Expenses it already added are kept.`)) {
+      onTemplateDeleted(template.id);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <h2 className="text-xl font-semibold text-gray-800 mb-4 flex items-center gap-2">
+        <svg className="w-6 h-6 text-teal-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+        </svg>
+        Recurring Expenses
+      </h2>
+
+      {templates.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          Rent, bills and subscriptions can repeat automatically: choose how often under Repeat when adding an expense.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {templates.map(template => {
+            const next = getNextOccurrence(template);
+            const generatedCount = expenses.filter(expense => expense.recurringTemplateId === template.id).length;
+            return (
+              <div
+                key={template.id}
+                className={`p-3 border rounded-lg ${template.paused ? 'bg-gray-50 border-gray-200' : 'bg-teal-50 border-teal-200'}`}
+              >
+                <div className="flex justify-between items-start gap-2">
+                  <div className="min-w-0">
+                    <div className="font-medium text-gray-800 truncate">{template.expense.description}</div>
+                    <div className="text-xs text-gray-500">
+                      {describeRecurrence(template)} · {formatPayers(participants, template.expense.payers, template.expense.currency)}
+                    </div>
+                  </div>
+                  <span className="font-semibold text-teal-700 flex-shrink-0">
+                    {formatCurrency(template.expense.amount, template.expense.currency)}
+                  </span>
+                </div>
+
+                <div className="flex justify-between items-center mt-2 text-xs">
+                  <span className="text-gray-500">
+                    {template.paused
+                      ? 'Paused'
+                      : next ? `Next: ${formatDateOnly(next)}` : 'Finished'}
+                    {generatedCount > 0 && ` · ${generatedCount} added`}
+                  </span>
+                  <div className="flex gap-1">
+                    {next && (
+                      <button
+                        onClick={() => onTemplateChanged(template.paused
+                          ? resumeTemplate(template, new Date())
+                          : { ...template, paused: true })}
+                        className="px-2 py-1 rounded-md text-gray-700 bg-white border border-gray-300 hover:bg-gray-100 transition-colors"
+                      >
+                        {template.paused ? 'Resume' : 'Pause'}
+                      </button>
+                    )}
+                    {next && !template.paused && (
+                      <button
+                        onClick={() => onTemplateChanged(skipNextOccurrence(template))}
+                        className="px-2 py-1 rounded-md text-gray-700 bg-white border border-gray-300 hover:bg-gray-100 transition-colors"
+                        title={`Don't add the ${formatDateOnly(next)} occurrence`}
+                      >
+                        Skip next
+                      </button>
+                    )}
+                    <button
+                      onClick={() => deleteTemplate(template)}
+                      className="px-2 py-1 rounded-md text-red-600 hover:bg-red-50 transition-colors"
+                      title="Stop repeating"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
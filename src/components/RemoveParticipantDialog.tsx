@@ -0,0 +1,153 @@
+import { useState } from 'react';
+import type { Participant, Expense, Payment, RecurringTemplate, GroupSettings } from '../types';
+import {
+  formatCurrency,
+  calculateParticipantStats,
+  getNetBalance,
+  countParticipantExpenses,
+  countParticipantPayments
+} from '../utils';
+
+type RemovalChoice = 'keep' | 'reassign' | 'merge';
+
+interface RemoveParticipantDialogProps {
+  participant: Participant;
+  participants: Participant[];
+  expenses: Expense[];
+  payments: Payment[];
+  recurringTemplates: RecurringTemplate[];
+  settings: GroupSettings;
+  onConfirm: (participantId: string, replacementId: string, isMerge: boolean) => void;
+  onCancel: () => void;
+}
+
+export default function RemoveParticipantDialog({
+  participant,
+  participants,
+  expenses,
+  payments,
+  recurringTemplates,
+  settings,
+  onConfirm,
+  onCancel
+}: RemoveParticipantDialogProps) {
+  const otherParticipants = participants.filter(p => p.id !== participant.id);
+  const [choice, setChoice] = useState<RemovalChoice>('keep');
+  const [targetId, setTargetId] = useState(otherParticipants[0]?.id || '');
+
+  const stats = calculateParticipantStats(participants, expenses, settings, payments).get(participant.id);
+  const balance = stats ? getNetBalance(stats) : 0;
+  const expenseCount = countParticipantExpenses(expenses, participant.id);
+  const paymentCount = countParticipantPayments(payments, participant.id);
+  const templateCount = countParticipantExpenses(recurringTemplates.map(template => template.expense), participant.id);
+  const targetName = otherParticipants.find(p => p.id === targetId)?.name || '';
+
+  const handleConfirm = () => {
+    if (choice === 'keep') {
+      onCancel();
+      return;
+    }
+
+    if (targetId) {
+      onConfirm(participant.id, targetId, choice === 'merge');
+    }
+  };
+
+  const options: { value: RemovalChoice; title: string; description: string }[] = [
+    {
+      value: 'keep',
+      title: `Keep ${participant.name}`,
+      description: balance !== 0
+        ? `${participant.name} still has a balance of ${balance > 0 ? '+' : ''}${formatCurrency(balance, settings.baseCurrency)}, so they can't simply be removed until it is settled.`
+        : `${participant.name} is settled up, but their expenses and payments still count towards everyone else's balance, so they can only leave by handing them to someone.`
+    },
+    {
+      value: 'reassign',
+      title: 'Reassign their expenses',
+      description: `Everything ${participant.name} paid or shared moves to another participant, who takes over their balance. Their household and blocked transfers are dropped.`
+    },
+    {
+      value: 'merge',
+      title: 'Merge into an existing participant',
+      description: `Use this when ${participant.name} is a duplicate of someone already in the group. Their history, household and blocked transfers all move over.`
+    }
+  ];
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-30">
+      <div className="bg-white rounded-xl shadow-xl max-w-md w-full p-6">
+        <h3 className="text-lg font-semibold text-gray-800 mb-2">Remove {participant.name}?</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          {participant.name} appears in {expenseCount} expense{expenseCount !== 1 ? 's' : ''}
+          {paymentCount > 0 && `, ${paymentCount} payment${paymentCount !== 1 ? 's' : ''}`}
+          {templateCount > 0 && `, ${templateCount} recurring expense${templateCount !== 1 ? 's' : ''}`}. Choose what should happen to their history.
+        </p>
+
+        <div className="space-y-2 mb-4">
+          {options.map(option => {
+            const isDisabled = option.value !== 'keep' && otherParticipants.length === 0;
+            return (
+              <label
+                key={option.value}
+                className={`flex gap-3 p-3 rounded-lg border transition-colors ${
+                  choice === option.value ? 'border-blue-300 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                } ${isDisabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+              >
+                <input
+                  type="radio"
+                  name="removal-choice"
+                  value={option.value}
+                  checked={choice === option.value}
+                  disabled={isDisabled}
+                  onChange={() => setChoice(option.value)}
+                  className="mt-1"
+                />
+                <div>
+                  <div className="font-medium text-gray-800 text-sm">{option.title}</div>
+                  <div className="text-xs text-gray-500">{option.description}</div>
+                </div>
+              </label>
+            );
+          })}
+        </div>
+
+        {choice !== 'keep' && (
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              {choice === 'merge' ? `Merge ${participant.name} into` : 'Reassign to'}
+            </label>
+            <select
+              value={targetId}
+              onChange={(e) => setTargetId(e.target.value)}
+              className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {otherParticipants.map(p => (
+                <option key={p.id} value={p.id}>{p.name}</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-2">
+              {targetName} will take over {formatCurrency(Math.abs(balance), settings.baseCurrency)} {balance >= 0 ? 'owed to' : 'owed by'} {participant.name}.
+            </p>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 rounded-md text-sm text-gray-700 bg-gray-100 hover:bg-gray-200 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleConfirm}
+            className={`px-4 py-2 rounded-md text-sm text-white transition-colors ${
+              choice === 'keep' ? 'bg-blue-500 hover:bg-blue-600' : 'bg-red-500 hover:bg-red-600'
+            }`}
+          >
+            {choice === 'keep' ? 'Keep participant' : choice === 'merge' ? 'Merge and remove' : 'Reassign and remove'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
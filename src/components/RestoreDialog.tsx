@@ -0,0 +1,189 @@
+import { useState } from 'react';
+import type { Group, GroupBackup, RestoreMode, RestoreConflictChoice, RestorePreviewItem, RestoreStatus } from '../types';
+import { formatDate } from '../utils';
+import { previewRestore, findMergeProblems } from '../backup';
+
+interface RestoreDialogProps {
+  currentGroup: Group;
+  backup: GroupBackup;
+  onConfirm: (mode: RestoreMode, conflictChoice: RestoreConflictChoice) => void;
+  onCancel: () => void;
+}
+
+// Names listed per line of the preview before the rest are counted
+const MAX_LISTED_NAMES = 4;
+
+const SECTION_LABELS = {
+  participants: 'Participants',
+  expenses: 'Expenses',
+  payments: 'Payments',
+  recurringTemplates: 'Recurring expenses'
+} as const;
+
+// What each status means for the current group, per mode; statuses without a label aren't listed
+const STATUS_LABELS: Record<Exclude<RestoreMode, 'new'>, Partial<Record<RestoreStatus, string>>> = {
+  replace: { new: 'Added', changed: 'Replaced', missing: 'Removed' },
+  merge: { new: 'Added', changed: 'Conflict' }
+};
+
+const STATUS_STYLES: Partial<Record<RestoreStatus, string>> = {
+  new: 'text-green-700',
+  changed: 'text-amber-700',
+  missing: 'text-red-700'
+};
+
+export default function RestoreDialog({ currentGroup, backup, onConfirm, onCancel }: RestoreDialogProps) {
+  const [mode, setMode] = useState<RestoreMode>('new');
+  const [conflictChoice, setConflictChoice] = useState<RestoreConflictChoice>('current');
+  const incoming = backup.group;
+  const preview = previewRestore(currentGroup, incoming);
+  const conflictCount = Object.values(preview).flat().filter(item => item.status === 'changed').length;
+  const mergeProblems = mode === 'merge' ? findMergeProblems(currentGroup, incoming, conflictChoice) : [];
+
+  const options: { value: RestoreMode; title: string; description: string }[] = [
+    {
+      value: 'new',
+      title: 'Import as a new group',
+      description: `Adds "${incoming.name}" next to your other groups. Nothing existing changes.`
+    },
+    {
+      value: 'replace',
+      title: `Replace "${currentGroup.name}"`,
+      description: 'The current group becomes exactly what is in the backup. Anything added since is removed.'
+    },
+    {
+      value: 'merge',
+      title: `Merge into "${currentGroup.name}"`,
+      description: 'Adds whatever the current group is missing and keeps everything else.'
+    }
+  ];
+
+  const renderNames = (items: RestorePreviewItem[]) => {
+    const names = items.slice(0, MAX_LISTED_NAMES).map(item => item.name).join(', ');
+    return items.length > MAX_LISTED_NAMES ? `${names} and ${items.length - MAX_LISTED_NAMES} more` : names;
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-30">
+      <div className="bg-white rounded-xl shadow-xl max-w-lg w-full p-6 max-h-[90vh] overflow-y-auto">
+        <h3 className="text-lg font-semibold text-gray-800 mb-1">Restore "{incoming.name}"?</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          Backup from {formatDate(backup.exportedAt)}: {incoming.participants.length} participants,{' '}
+          {incoming.expenses.length} expenses, {incoming.payments.length} payments.
+        </p>
+
+        <div className="space-y-2 mb-4">
+          {options.map(option => (
+            <label
+              key={option.value}
+              className={`flex gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${
+                mode === option.value ? 'border-blue-300 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+              }`}
+            >
+              <input
+                type="radio"
+                name="restore-mode"
+                value={option.value}
+                checked={mode === option.value}
+                onChange={() => setMode(option.value)}
+                className="mt-1"
+              />
+              <div>
+                <div className="font-medium text-gray-800 text-sm">{option.title}</div>
+                <div className="text-xs text-gray-500">{option.description}</div>
+              </div>
+            </label>
+          ))}
+        </div>
+
+        {/* Preview */}
+        {mode !== 'new' && (
+          <div className="mb-4 p-3 bg-gray-50 rounded-lg text-sm space-y-2">
+            {(Object.keys(SECTION_LABELS) as (keyof typeof SECTION_LABELS)[]).map(section => {
+              const lines = Object.entries(STATUS_LABELS[mode])
+                .map(([status, label]) => ({
+                  status: status as RestoreStatus,
+                  label,
+                  items: preview[section].filter(item => item.status === status)
+                }))
+                .filter(line => line.items.length > 0);
+              const unchangedCount = preview[section].filter(item =>
+                item.status === 'unchanged' || (mode === 'merge' && item.status === 'missing')).length;
+
+              return (
+                <div key={section}>
+                  <div className="font-medium text-gray-700">{SECTION_LABELS[section]}</div>
+                  {lines.map(line => (
+                    <div key={line.status} className={`text-xs ${STATUS_STYLES[line.status]}`}>
+                      {line.label} ({line.items.length}): {renderNames(line.items)}
+                    </div>
+                  ))}
+                  <div className="text-xs text-gray-500">
+                    {lines.length === 0 ? 'No changes' : `${unchangedCount} unchanged`}
+                  </div>
+                </div>
+              );
+            })}
+            {mode === 'replace' && incoming.settings.baseCurrency !== currentGroup.settings.baseCurrency && (
+              <div className="text-xs text-amber-700">
+                The base currency changes from {currentGroup.settings.baseCurrency} to {incoming.settings.baseCurrency}.
+              </div>
+            )}
+            {mode === 'merge' && incoming.settings.baseCurrency !== currentGroup.settings.baseCurrency && (
+              <div className="text-xs text-amber-700">
+                The backup settles in {incoming.settings.baseCurrency}; its exchange rates are converted to{' '}
+                {currentGroup.settings.baseCurrency}.
+              </div>
+            )}
+          </div>
+        )}
+
+        {mode === 'merge' && conflictCount > 0 && (
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              {conflictCount} item{conflictCount !== 1 ? 's were' : ' was'} changed on both sides. Keep
+            </label>
+            <select
+              value={conflictChoice}
+              onChange={(e) => setConflictChoice(e.target.value as RestoreConflictChoice)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="current">the current version</option>
+              <option value="backup">the version from the backup</option>
+            </select>
+          </div>
+        )}
+
+        {mergeProblems.length > 0 && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+            <div className="text-sm font-medium text-red-800">This backup can't be merged into the current group</div>
+            <ul className="mt-1 text-xs text-red-700 list-disc list-inside">
+              {mergeProblems.slice(0, MAX_LISTED_NAMES).map(problem => (
+                <li key={problem}>{problem}</li>
+              ))}
+            </ul>
+            {mergeProblems.length > MAX_LISTED_NAMES && (
+              <div className="mt-1 text-xs text-red-600">…and {mergeProblems.length - MAX_LISTED_NAMES} more</div>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 rounded-md text-sm text-gray-700 bg-gray-100 hover:bg-gray-200 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(mode, conflictChoice)}
+            disabled={mergeProblems.length > 0}
+            className="px-4 py-2 rounded-md text-sm text-white bg-blue-500 hover:bg-blue-600 disabled:opacity-50 transition-colors"
+          >
+            Restore
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,217 @@
+import { useState } from 'react';
+import type { Participant, GroupSettings, SettlementStrategy } from '../types';
+import { getParticipantName, SETTLEMENT_STRATEGY_LABELS } from '../utils';
+
+interface SettlementSettingsProps {
+  participants: Participant[];
+  settings: GroupSettings;
+  onSettingsChange: (settings: GroupSettings) => void;
+}
+
+const STRATEGY_DESCRIPTIONS: Record<SettlementStrategy, string> = {
+  minimal: 'Settle up with as few transfers as possible, even between people who never shared an expense.',
+  pairwise: 'Only people who owe each other directly exchange money; nobody pays on behalf of someone else.',
+  hub: 'Everyone settles with one treasurer, who collects and pays out.'
+};
+
+export default function SettlementSettings({ participants, settings, onSettingsChange }: SettlementSettingsProps) {
+  const [blockFrom, setBlockFrom] = useState('');
+  const [blockTo, setBlockTo] = useState('');
+  const [error, setError] = useState('');
+
+  const { settlementStrategy, treasurerId, blockedTransfers, households, preferSameHousehold } = settings;
+  const householdNames = Array.from(new Set(Object.values(households).filter(Boolean)));
+
+  const changeStrategy = (strategy: SettlementStrategy) => {
+    // The hub strategy needs a treasurer; default to the first participant
+    const treasurer = strategy === 'hub' && !participants.some(p => p.id === treasurerId)
+      ? participants[0]?.id
+      : treasurerId;
+    onSettingsChange({ ...settings, settlementStrategy: strategy, treasurerId: treasurer });
+  };
+
+  const addBlockedTransfer = () => {
+    if (!blockFrom || !blockTo) {
+      setError('Please choose both participants');
+      return;
+    }
+
+    if (blockFrom === blockTo) {
+      setError('Choose two different participants');
+      return;
+    }
+
+    if (blockedTransfers.some(transfer => transfer.from === blockFrom && transfer.to === blockTo)) {
+      setError('This transfer is already blocked');
+      return;
+    }
+
+    onSettingsChange({ ...settings, blockedTransfers: [...blockedTransfers, { from: blockFrom, to: blockTo }] });
+    setBlockFrom('');
+    setBlockTo('');
+    setError('');
+  };
+
+  const removeBlockedTransfer = (index: number) => {
+    onSettingsChange({ ...settings, blockedTransfers: blockedTransfers.filter((_, i) => i !== index) });
+  };
+
+  const updateHousehold = (participantId: string, household: string) => {
+    const nextHouseholds = { ...households };
+    if (household.trim()) {
+      nextHouseholds[participantId] = household.trim();
+    } else {
+      delete nextHouseholds[participantId];
+    }
+    onSettingsChange({ ...settings, households: nextHouseholds });
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <h2 className="text-xl font-semibold text-gray-800 mb-4 flex items-center gap-2">
+        <svg className="w-6 h-6 text-indigo-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+        </svg>
+        Settling Up
+      </h2>
+
+      {/* Strategy */}
+      <div className="space-y-2 mb-4">
+        {(Object.keys(SETTLEMENT_STRATEGY_LABELS) as SettlementStrategy[]).map(strategy => (
+          <label
+            key={strategy}
+            className={`flex gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${
+              settlementStrategy === strategy ? 'border-blue-300 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+            }`}
+          >
+            <input
+              type="radio"
+              name="settlement-strategy"
+              value={strategy}
+              checked={settlementStrategy === strategy}
+              onChange={() => changeStrategy(strategy)}
+              className="mt-1"
+            />
+            <div>
+              <div className="font-medium text-gray-800 text-sm">{SETTLEMENT_STRATEGY_LABELS[strategy]}</div>
+              <div className="text-xs text-gray-500">{STRATEGY_DESCRIPTIONS[strategy]}</div>
+            </div>
+          </label>
+        ))}
+      </div>
+
+      {settlementStrategy === 'hub' && (
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Treasurer
+          </label>
+          <select
+            value={treasurerId || ''}
+            onChange={(e) => onSettingsChange({ ...settings, treasurerId: e.target.value })}
+            className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {participants.map(p => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {/* Blocked Transfers */}
+      <div className="mb-4">
+        <h3 className="text-sm font-medium text-gray-700 mb-2">Blocked transfers</h3>
+        {blockedTransfers.length > 0 && (
+          <div className="space-y-1 mb-2">
+            {blockedTransfers.map((transfer, index) => (
+              <div key={`${transfer.from}-${transfer.to}`} className="flex items-center justify-between text-sm p-2 bg-gray-50 rounded-md">
+                <span className="text-gray-700">
+                  {getParticipantName(participants, transfer.from)} can't send to {getParticipantName(participants, transfer.to)}
+                </span>
+                <button
+                  onClick={() => removeBlockedTransfer(index)}
+                  className="text-red-500 hover:text-red-700 hover:bg-red-50 p-1 rounded transition-colors"
+                  title="Remove rule"
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="flex gap-2">
+          <select
+            value={blockFrom}
+            onChange={(e) => {
+              setBlockFrom(e.target.value);
+              setError('');
+            }}
+            className="flex-1 min-w-0 px-2 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">From…</option>
+            {participants.map(p => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+          <select
+            value={blockTo}
+            onChange={(e) => {
+              setBlockTo(e.target.value);
+              setError('');
+            }}
+            className="flex-1 min-w-0 px-2 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">To…</option>
+            {participants.map(p => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={addBlockedTransfer}
+            className="bg-blue-500 text-white px-4 py-2 rounded-md text-sm hover:bg-blue-600 transition-colors"
+          >
+            Block
+          </button>
+        </div>
+        {error && (
+          <p className="text-red-500 text-sm mt-2">{error}</p>
+        )}
+      </div>
+
+      {/* Households */}
+      {participants.length > 0 && (
+        <div>
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Households</h3>
+          <div className="space-y-2 mb-2">
+            {participants.map(participant => (
+              <div key={participant.id} className="flex items-center gap-2 text-sm">
+                <span className="flex-1 text-gray-700 truncate">{participant.name}</span>
+                <input
+                  key={households[participant.id] || ''}
+                  type="text"
+                  list="household-options"
+                  defaultValue={households[participant.id] || ''}
+                  onBlur={(e) => updateHousehold(participant.id, e.target.value)}
+                  placeholder="Household"
+                  className="w-36 px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            ))}
+            <datalist id="household-options">
+              {householdNames.map(name => (
+                <option key={name} value={name} />
+              ))}
+            </datalist>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={preferSameHousehold}
+              onChange={(e) => onSettingsChange({ ...settings, preferSameHousehold: e.target.checked })}
+            />
+            Prefer transfers within the same household
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
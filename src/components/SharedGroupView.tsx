@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import type { GroupBackup, DateRange, ExpenseFilters } from '../types';
+import { formatDate, filterByDateRange, EMPTY_DATE_RANGE, DEFAULT_EXPENSE_FILTERS } from '../utils';
+import ExpenseList from './ExpenseList';
+import DebtCalculator from './DebtCalculator';
+
+interface SharedGroupViewProps {
+  backup: GroupBackup | null; // null when the link couldn't be read
+  errors: string[];
+  onImport: () => void;
+  onClose: () => void;
+}
+
+// A group opened from a share link. Nothing here is saved unless the group is imported.
+export default function SharedGroupView({ backup, errors, onImport, onClose }: SharedGroupViewProps) {
+  const [dateRange, setDateRange] = useState<DateRange>(EMPTY_DATE_RANGE);
+  const [filters, setFilters] = useState<ExpenseFilters>(DEFAULT_EXPENSE_FILTERS);
+
+  if (!backup) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 flex items-center justify-center p-4">
+        <div className="bg-white rounded-xl shadow-lg border border-gray-100 max-w-lg w-full p-8">
+          <div className="flex items-center gap-3 mb-4">
+            <div className="text-3xl">🦫</div>
+            <h1 className="text-2xl font-bold text-gray-900">This share link can't be opened</h1>
+          </div>
+          <ul className="mb-6 text-sm text-red-700 list-disc list-inside">
+            {errors.map(error => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+          <button
+            onClick={onClose}
+            className="w-full px-4 py-2 rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 transition-colors"
+          >
+            Continue to DamFair
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const { group } = backup;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 flex flex-col">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b border-gray-200 sticky top-0 z-10">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center py-4 gap-4">
+            <div className="flex items-center space-x-3">
+              <div className="text-3xl">🦫</div>
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">{group.name}</h1>
+                <p className="text-sm text-gray-600">
+                  Shared on {formatDate(backup.exportedAt)} · read only, nothing is saved until you import it
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-3">
+              <button
+                onClick={onClose}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 transition-colors"
+              >
+                Close
+              </button>
+              <button
+                onClick={onImport}
+                className="px-4 py-2 rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 transition-colors"
+              >
+                Import as a new group
+              </button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="flex-1 max-w-7xl mx-auto w-full px-4 sm:px-6 lg:px-8 py-8">
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <div className="bg-white rounded-xl shadow-lg border border-gray-100 overflow-hidden">
+            <ExpenseList
+              participants={group.participants}
+              expenses={group.expenses}
+              payments={group.payments}
+              settings={group.settings}
+              dateRange={dateRange}
+              filters={filters}
+              onDateRangeChange={setDateRange}
+              onFiltersChange={setFilters}
+            />
+          </div>
+
+          <div className="bg-white rounded-xl shadow-lg border border-gray-100 overflow-hidden">
+            <DebtCalculator
+              participants={group.participants}
+              expenses={filterByDateRange(group.expenses, dateRange)}
+              payments={filterByDateRange(group.payments, dateRange)}
+              settings={group.settings}
+              dateRange={dateRange}
+            />
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import type { Participant, SplitMode } from '../types';
+import {
+  formatCurrency,
+  roundToTwoDecimals,
+  calculateExpenseShares,
+  parseSplitValues,
+  getCurrencySymbol,
+  SPLIT_MODE_LABELS
+} from '../utils';
+
+interface SplitEditorProps {
+  participants: Participant[];
+  amount: number;
+  currency: string;
+  splitMode: SplitMode;
+  splitValues: Record<string, string>;
+  onSplitModeChange: (splitMode: SplitMode) => void;
+  onSplitValueChange: (participantId: string, value: string) => void;
+}
+
+export default function SplitEditor({
+  participants,
+  amount,
+  currency,
+  splitMode,
+  splitValues,
+  onSplitModeChange,
+  onSplitValueChange
+}: SplitEditorProps) {
+  const involved = participants.map(p => p.id);
+  const parsedValues = parseSplitValues(splitValues, involved, splitMode, currency);
+  const total = Object.values(parsedValues).reduce((sum, value) => sum + value, 0);
+  const shares = calculateExpenseShares({
+    id: '',
+    description: '',
+    amount,
+    payers: [],
+    involved,
+    splitMode,
+    splitValues: parsedValues,
+    category: '',
+    currency,
+    date: '',
+    createdAt: ''
+  });
+
+  // Live feedback on how much is left to hand out
+  const renderRemaining = () => {
+    if (splitMode === 'exact') {
+      const remaining = amount - total;
+      return (
+        <span className={remaining === 0 ? 'text-green-600' : 'text-red-500'}>
+          {remaining === 0 ? 'Fully allocated' : `${formatCurrency(Math.abs(remaining), currency)} ${remaining > 0 ? 'left to allocate' : 'over the total'}`}
+        </span>
+      );
+    }
+
+    if (splitMode === 'percentage') {
+      const remaining = roundToTwoDecimals(100 - total);
+      return (
+        <span className={remaining === 0 ? 'text-green-600' : 'text-red-500'}>
+          {remaining === 0 ? 'Fully allocated' : `${Math.abs(remaining)}% ${remaining > 0 ? 'left to allocate' : 'over 100%'}`}
+        </span>
+      );
+    }
+
+    if (splitMode === 'shares') {
+      return (
+        <span className={total > 0 ? 'text-green-600' : 'text-red-500'}>
+          {total > 0 ? `${roundToTwoDecimals(total)} share${total !== 1 ? 's' : ''} in total` : 'Enter at least one share'}
+        </span>
+      );
+    }
+
+    return null;
+  };
+
+  const inputSuffix = splitMode === 'percentage' ? '%' : splitMode === 'shares' ? '×' : '';
+
+  return (
+    <div className={splitMode === 'itemized' ? 'mb-3' : 'mb-6'}>
+      <label className="block text-sm font-medium text-gray-700 mb-3">
+        Split *
+      </label>
+      <div className="flex flex-wrap gap-2 mb-3">
+        {(Object.keys(SPLIT_MODE_LABELS) as SplitMode[]).map(mode => (
+          <button
+            key={mode}
+            type="button"
+            onClick={() => onSplitModeChange(mode)}
+            className={`
+              px-3 py-1 rounded-lg text-xs font-medium transition-all duration-200
+              ${splitMode === mode
+                ? 'bg-purple-500 text-white shadow-md hover:bg-purple-600'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200 border border-gray-300'
+              }
+            `}
+          >
+            {SPLIT_MODE_LABELS[mode]}
+          </button>
+        ))}
+      </div>
+
+      {participants.length > 0 && splitMode !== 'itemized' && (
+        <div className="space-y-2">
+          {participants.map(participant => (
+            <div key={participant.id} className="flex items-center gap-3">
+              <span className="flex-1 text-sm text-gray-700 truncate">{participant.name}</span>
+              {splitMode !== 'equal' && (
+                <div className="relative w-28">
+                  {splitMode === 'exact' && (
+                    <span className="absolute left-2 top-1 text-gray-500 text-sm">{getCurrencySymbol(currency)}</span>
+                  )}
+                  <input
+                    type="number"
+                    value={splitValues[participant.id] || ''}
+                    onChange={(e) => onSplitValueChange(participant.id, e.target.value)}
+                    placeholder="0"
+                    step={splitMode === 'shares' ? '1' : '0.01'}
+                    min="0"
+                    className={`w-full ${splitMode === 'exact' ? 'pl-6' : 'pl-2'} pr-6 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-purple-500`}
+                  />
+                  {inputSuffix && (
+                    <span className="absolute right-2 top-1 text-gray-500 text-sm">{inputSuffix}</span>
+                  )}
+                </div>
+              )}
+              <span className="w-20 text-right text-sm font-medium text-gray-600">
+                {formatCurrency(shares.get(participant.id) || 0, currency)}
+              </span>
+            </div>
+          ))}
+          <div className="text-xs text-right pt-1">
+            {renderRemaining()}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+import { useState } from 'react';
+import type { FormEvent } from 'react';
+import type { Group, SyncSettings, SyncStatus } from '../types';
+
+interface SyncPanelProps {
+  group?: Group;
+  settings: SyncSettings;
+  status: SyncStatus;
+  error: string;
+  lastSyncedAt: number | null;
+  pendingCount: number;
+  onConnect: (serverUrl: string, token: string) => Promise<string | null>;
+  onDisconnect: () => void;
+  onSyncNow: () => void;
+  onGroupSyncedChange: (groupId: string, isSynced: boolean) => void;
+  onJoin: (code: string) => Promise<string | null>;
+}
+
+const STATUS_LABELS: Record<SyncStatus, string> = {
+  off: 'Off',
+  idle: 'Up to date',
+  syncing: 'Syncing…',
+  offline: 'Offline, changes are kept until the connection is back',
+  error: 'Sync failed'
+};
+
+const STATUS_COLORS: Record<SyncStatus, string> = {
+  off: 'bg-gray-400',
+  idle: 'bg-green-500',
+  syncing: 'bg-blue-500',
+  offline: 'bg-amber-500',
+  error: 'bg-red-500'
+};
+
+export default function SyncPanel({
+  group,
+  settings,
+  status,
+  error,
+  lastSyncedAt,
+  pendingCount,
+  onConnect,
+  onDisconnect,
+  onSyncNow,
+  onGroupSyncedChange,
+  onJoin
+}: SyncPanelProps) {
+  const [serverUrl, setServerUrl] = useState(settings.serverUrl);
+  const [token, setToken] = useState(settings.token);
+  const [joinCode, setJoinCode] = useState('');
+  const [formError, setFormError] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  const isConnected = settings.serverUrl !== '';
+  const isGroupSynced = !!group && settings.groupIds.includes(group.id);
+
+  const connect = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!serverUrl.trim()) {
+      setFormError('Enter the address of your sync server');
+      return;
+    }
+    setIsBusy(true);
+    setFormError((await onConnect(serverUrl, token)) || '');
+    setIsBusy(false);
+  };
+
+  const join = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!joinCode.trim()) return;
+    setIsBusy(true);
+    const joinError = await onJoin(joinCode);
+    setFormError(joinError || '');
+    if (!joinError) {
+      setJoinCode('');
+    }
+    setIsBusy(false);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <h2 className="text-xl font-semibold text-gray-800 mb-4 flex items-center gap-2">
+        <svg className="w-6 h-6 text-sky-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+        </svg>
+        Sync
+      </h2>
+
+      {!isConnected ? (
+        <>
+          <p className="text-sm text-gray-500 mb-4">
+            Everything is kept in this browser only. To use your groups on several devices, run your own
+            sync server and connect to it here. DamFair keeps working offline either way.
+          </p>
+
+          {/* Server */}
+          <form onSubmit={connect} className="space-y-2">
+            <input
+              type="url"
+              value={serverUrl}
+              onChange={(e) => setServerUrl(e.target.value)}
+              placeholder="Server address, e.g. http://localhost:8787"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <input
+              type="password"
+              value={token}
+              onChange={(e) => setToken(e.target.value)}
+              placeholder="Access token (if the server needs one)"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              type="submit"
+              disabled={isBusy}
+              className="w-full px-4 py-2 rounded-md text-sm text-white bg-blue-500 hover:bg-blue-600 disabled:opacity-50 transition-colors"
+            >
+              Connect
+            </button>
+          </form>
+        </>
+      ) : (
+        <>
+          {/* Status */}
+          <div className="flex items-start justify-between gap-3 mb-4">
+            <div className="min-w-0">
+              <div className="flex items-center gap-2 text-sm text-gray-700">
+                <span className={`inline-block w-2 h-2 rounded-full ${STATUS_COLORS[status]}`} />
+                {STATUS_LABELS[status]}
+              </div>
+              <p className="text-xs text-gray-500 mt-1 truncate">
+                {settings.serverUrl}
+                {lastSyncedAt && ` · last synced ${new Date(lastSyncedAt).toLocaleTimeString()}`}
+                {pendingCount > 0 && ` · ${pendingCount} change${pendingCount === 1 ? '' : 's'} waiting`}
+              </p>
+              {status === 'error' && error && (
+                <p className="text-xs text-red-500 mt-1">{error}</p>
+              )}
+            </div>
+            <div className="flex gap-2 shrink-0">
+              <button
+                onClick={onSyncNow}
+                disabled={status === 'syncing' || settings.groupIds.length === 0}
+                className="px-3 py-1 rounded-md text-sm text-white bg-blue-500 hover:bg-blue-600 disabled:opacity-50 transition-colors"
+              >
+                Sync now
+              </button>
+              <button
+                onClick={onDisconnect}
+                className="px-3 py-1 rounded-md text-sm text-gray-700 bg-gray-100 hover:bg-gray-200 transition-colors"
+              >
+                Disconnect
+              </button>
+            </div>
+          </div>
+
+          {/* Current group */}
+          {group && (
+            <div className="border-t border-gray-100 pt-4 mb-4">
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={isGroupSynced}
+                  onChange={(e) => onGroupSyncedChange(group.id, e.target.checked)}
+                  className="rounded border-gray-300"
+                />
+                Keep “{group.name}” in sync
+              </label>
+              {isGroupSynced && (
+                <div className="mt-2">
+                  <p className="text-xs text-gray-500 mb-1">Sync code, to add this group on another device:</p>
+                  <input
+                    type="text"
+                    readOnly
+                    value={group.id}
+                    onFocus={(e) => e.target.select()}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-xs font-mono text-gray-600 bg-gray-50"
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Join */}
+          <form onSubmit={join} className="border-t border-gray-100 pt-4">
+            <p className="text-sm text-gray-700 mb-2">Add a synced group from another device</p>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={joinCode}
+                onChange={(e) => setJoinCode(e.target.value)}
+                placeholder="Sync code"
+                className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                type="submit"
+                disabled={isBusy || !joinCode.trim()}
+                className="px-4 py-2 rounded-md text-sm text-white bg-blue-500 hover:bg-blue-600 disabled:opacity-50 transition-colors"
+              >
+                Join
+              </button>
+            </div>
+          </form>
+        </>
+      )}
+
+      {formError && (
+        <p className="text-red-500 text-sm mt-2">{formError}</p>
+      )}
+    </div>
+  );
+}
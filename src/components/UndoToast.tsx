@@ -0,0 +1,36 @@
+import { useEffect } from 'react';
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+}
+
+const TOAST_DURATION_MS = 6000;
+
+export default function UndoToast({ message, onUndo, onDismiss }: UndoToastProps) {
+  // onDismiss should be stable; give the toast a new key to restart the timer
+  useEffect(() => {
+    const timer = window.setTimeout(onDismiss, TOAST_DURATION_MS);
+    return () => window.clearTimeout(timer);
+  }, [onDismiss]);
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 flex items-center gap-4 bg-gray-900 text-white text-sm px-4 py-3 rounded-lg shadow-xl">
+      <span>{message}</span>
+      <button
+        onClick={onUndo}
+        className="font-semibold text-amber-300 hover:text-amber-200 transition-colors"
+      >
+        Undo
+      </button>
+      <button
+        onClick={onDismiss}
+        className="text-gray-400 hover:text-white transition-colors"
+        title="Dismiss"
+      >
+        ✕
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import { useEffect, useRef, useState } from 'react';
+import type { ReactNode } from 'react';
+
+interface VirtualListProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T) => ReactNode;
+  estimatedHeight: number; // used for rows that haven't been on screen yet
+  maxHeight: number;
+  overscan?: number; // extra pixels rendered above and below the visible area
+}
+
+// Renders only the rows near the visible part of a scrolling box. Rows can have any height:
+// each one is measured once it has been rendered, and re-measured when it changes size.
+export default function VirtualList<T>({
+  items,
+  getKey,
+  renderItem,
+  estimatedHeight,
+  maxHeight,
+  overscan = 400
+}: VirtualListProps<T>) {
+  const [scrollTop, setScrollTop] = useState(0);
+  const [, setMeasuredCount] = useState(0);
+  const heightsRef = useRef(new Map<string, number>());
+  const observerRef = useRef<ResizeObserver | null>(null);
+
+  // One observer for every rendered row; a new measurement triggers a re-render
+  const getObserver = () => {
+    if (!observerRef.current) {
+      observerRef.current = new ResizeObserver(entries => {
+        let changed = false;
+        entries.forEach(entry => {
+          const key = (entry.target as HTMLElement).dataset.key;
+          const height = (entry.target as HTMLElement).offsetHeight;
+          if (key && height > 0 && heightsRef.current.get(key) !== height) {
+            heightsRef.current.set(key, height);
+            changed = true;
+          }
+        });
+        if (changed) {
+          setMeasuredCount(count => count + 1);
+        }
+      });
+    }
+    return observerRef.current;
+  };
+
+  useEffect(() => {
+    return () => observerRef.current?.disconnect();
+  }, []);
+
+  // Top offset of every row, plus the total height at the end
+  const offsets = new Array<number>(items.length + 1);
+  offsets[0] = 0;
+  items.forEach((item, index) => {
+    offsets[index + 1] = offsets[index] + (heightsRef.current.get(getKey(item)) ?? estimatedHeight);
+  });
+
+  // First row that ends below the top of the rendered window
+  const windowTop = Math.max(0, scrollTop - overscan);
+  let low = 0;
+  let high = items.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (offsets[middle + 1] <= windowTop) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  const start = low;
+
+  const windowBottom = scrollTop + maxHeight + overscan;
+  let end = start;
+  while (end < items.length && offsets[end] < windowBottom) {
+    end++;
+  }
+
+  return (
+    <div
+      className="overflow-y-auto"
+      style={{ maxHeight }}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+    >
+      <div style={{ height: offsets[items.length], position: 'relative' }}>
+        <div style={{ position: 'absolute', top: offsets[start], left: 0, right: 0 }}>
+          {items.slice(start, end).map(item => {
+            const key = getKey(item);
+            return (
+              <div
+                key={key}
+                data-key={key}
+                ref={(node) => {
+                  if (!node) return;
+                  const observer = getObserver();
+                  observer.observe(node);
+                  return () => observer.unobserve(node);
+                }}
+              >
+                {renderItem(item)}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
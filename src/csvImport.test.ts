@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import type { CsvImportOptions } from './types';
+import { createDefaultSettings } from './utils';
+import { parseCsv, buildImportRows, guessColumnMapping } from './csvImport';
+
+const participants = [{ id: 'ann', name: 'Ann' }, { id: 'bob', name: 'Bob' }];
+
+const options: CsvImportOptions = { delimiter: ',', hasHeader: true, decimalSeparator: '.', dateFormat: 'ymd' };
+
+describe('parseCsv', () => {
+  it('reads quoted fields, doubled quotes and line breaks inside quotes', () => {
+    expect(parseCsv('a,"b, c","say ""hi"""\r\n"two\nlines",x,y', ',').map(row => row.cells)).toEqual([
+      ['a', 'b, c', 'say "hi"'],
+      ['two\nlines', 'x', 'y']
+    ]);
+  });
+
+  it('records the line each row starts on', () => {
+    const text = '\uFEFFDescription,Amount\n\n"Dinner\nwith friends",40\r\n\r\n"Taxi\r\nhome",12\nCoffee,3';
+
+    expect(parseCsv(text, ',').map(row => row.line)).toEqual([1, 3, 6, 8]);
+  });
+});
+
+describe('buildImportRows', () => {
+  it('reports the file line of rows that can\'t be imported', () => {
+    const text = 'Description,Amount,Paid by\n\n"Dinner\nwith friends",40,Ann\nTaxi,twelve,Bob\nCoffee,3,Carol';
+    const rows = parseCsv(text, ',');
+    const mapping = guessColumnMapping(rows[0].cells);
+    const settings = { ...createDefaultSettings(), baseCurrency: 'EUR' };
+
+    expect(buildImportRows(rows, mapping, options, participants, settings).map(row => [row.line, row.errors])).toEqual([
+      [3, []],
+      [5, ['"twelve" is not an amount']],
+      [6, ['Carol is not a participant']]
+    ]);
+  });
+});
@@ -0,0 +1,294 @@
+import type {
+  Participant,
+  Expense,
+  GroupSettings,
+  CsvField,
+  CsvColumnMapping,
+  CsvDateFormat,
+  CsvImportOptions,
+  CsvImportRow,
+  CsvRow
+} from './types';
+import {
+  generateId,
+  toMinorUnits,
+  fromDateInputValue,
+  validateExpense,
+  DEFAULT_CATEGORY_ID
+} from './utils';
+
+// CSV import
+// Turns a spreadsheet or bank export into expenses. Files are read in the browser and never
+// uploaded. Parsing follows RFC 4180 (quoted fields, doubled quotes, line breaks inside quotes);
+// the delimiter, decimal separator and date format are guessed from the file and can be overridden.
+
+export const CSV_FIELD_LABELS: Record<CsvField, string> = {
+  description: 'Description',
+  amount: 'Amount',
+  date: 'Date',
+  payer: 'Paid by',
+  involved: 'Split between'
+};
+
+// Fields without which no row can be imported
+export const REQUIRED_CSV_FIELDS: CsvField[] = ['description', 'amount', 'payer'];
+
+export const CSV_DELIMITERS: Record<string, string> = {
+  ',': 'Comma',
+  ';': 'Semicolon',
+  '\t': 'Tab',
+  '|': 'Pipe'
+};
+
+export const CSV_DATE_FORMAT_LABELS: Record<CsvDateFormat, string> = {
+  ymd: 'Year-month-day (2024-03-31)',
+  dmy: 'Day/month/year (31/03/2024)',
+  mdy: 'Month/day/year (03/31/2024)'
+};
+
+// The delimiter that splits the first line into the most fields, ignoring quoted text
+export const detectDelimiter = (text: string): string => {
+  const counts = new Map(Object.keys(CSV_DELIMITERS).map(delimiter => [delimiter, 0]));
+  let inQuotes = false;
+
+  for (const char of text) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (char === '\n' || char === '\r')) {
+      break;
+    } else if (!inQuotes && counts.has(char)) {
+      counts.set(char, (counts.get(char) || 0) + 1);
+    }
+  }
+
+  return Array.from(counts).reduce((best, entry) => (entry[1] > best[1] ? entry : best))[0];
+};
+
+// Rows of fields with the line each starts on; blank lines are skipped
+export const parseCsv = (text: string, delimiter: string): CsvRow[] => {
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+  // Spreadsheet programs often start UTF-8 files with a byte order mark
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let index = 0; index < input.length; index++) {
+    const char = input[index];
+
+    if (inQuotes) {
+      if (char === '"' && input[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n' || (char === '\r' && input[index + 1] !== '\n')) {
+          line++;
+        }
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[index + 1] === '\n') {
+        index++;
+      }
+      row.push(field);
+      rows.push({ cells: row, line: rowLine });
+      row = [];
+      field = '';
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push({ cells: row, line: rowLine });
+  }
+
+  return rows.filter(({ cells }) => cells.some(cell => cell.trim() !== ''));
+};
+
+const COLUMN_PATTERNS: [CsvField, RegExp][] = [
+  ['payer', /paid|payer|who/i],
+  ['involved', /involv|split|shared|between|participants|for whom/i],
+  ['amount', /amount|cost|price|total|sum|value/i],
+  ['date', /date|day|when|time/i],
+  ['description', /desc|memo|item|title|what|payee|details|note|name/i]
+];
+
+// Picks a column for each field by its heading
+export const guessColumnMapping = (headers: string[]): CsvColumnMapping => {
+  const mapping: CsvColumnMapping = { description: null, amount: null, date: null, payer: null, involved: null };
+
+  headers.forEach((header, index) => {
+    const match = COLUMN_PATTERNS.find(([field, pattern]) => mapping[field] === null && pattern.test(header));
+    if (match) {
+      mapping[match[0]] = index;
+    }
+  });
+
+  return mapping;
+};
+
+// A comma followed by one or two digits at the end, as in "12,50", means decimal commas
+export const guessDecimalSeparator = (values: string[]): '.' | ',' => {
+  const commaDecimals = values.filter(value => /,\d{1,2}\s*$/.test(value.trim())).length;
+  const dotDecimals = values.filter(value => /\.\d{1,2}\s*$/.test(value.trim())).length;
+  return commaDecimals > dotDecimals ? ',' : '.';
+};
+
+const DATE_PATTERN = /^(\d{1,4})[-./](\d{1,2})[-./](\d{1,4})/;
+
+// Day-first unless a value shows otherwise: a four-digit first part means year first, and a
+// middle part above 12 can only be a day
+export const guessDateFormat = (values: string[]): CsvDateFormat => {
+  for (const value of values) {
+    const parts = value.trim().match(DATE_PATTERN);
+    if (!parts) continue;
+    if (parts[1].length === 4) return 'ymd';
+    if (Number(parts[2]) > 12) return 'mdy';
+    if (Number(parts[1]) > 12) return 'dmy';
+  }
+  return 'dmy';
+};
+
+export const guessImportOptions = (text: string): { options: CsvImportOptions; mapping: CsvColumnMapping } => {
+  const delimiter = detectDelimiter(text);
+  const rows = parseCsv(text, delimiter).map(row => row.cells);
+  const headers = rows[0] || [];
+  const mapping = guessColumnMapping(headers);
+  // Without a single recognizable heading, the first line is probably data
+  const hasHeader = Object.values(mapping).some(index => index !== null);
+  const body = hasHeader ? rows.slice(1) : rows;
+  const columnValues = (index: number | null) => (index === null ? [] : body.map(row => row[index] || ''));
+
+  return {
+    options: {
+      delimiter,
+      hasHeader,
+      decimalSeparator: guessDecimalSeparator(columnValues(mapping.amount)),
+      dateFormat: guessDateFormat(columnValues(mapping.date))
+    },
+    mapping
+  };
+};
+
+// Reads an amount in major units, dropping currency symbols, spaces and thousands separators.
+// Bank exports list money going out as negative, so the sign is dropped too.
+export const parseCsvAmount = (value: string, decimalSeparator: '.' | ','): number | null => {
+  const thousandsSeparator = decimalSeparator === ',' ? '.' : ',';
+  const digits = value
+    .replace(/[^\d.,]/g, '')
+    .split(thousandsSeparator).join('')
+    .replace(decimalSeparator, '.');
+
+  return /^\d+(\.\d+)?$/.test(digits) ? Number(digits) : null;
+};
+
+const getDaysInMonth = (year: number, month: number): number => new Date(year, month, 0).getDate();
+
+// Reads a date in the given order of parts, ignoring any time after it
+export const parseCsvDate = (value: string, format: CsvDateFormat): string | null => {
+  const parts = value.trim().match(DATE_PATTERN);
+  if (!parts) return null;
+
+  const [first, second, third] = parts.slice(1).map(Number);
+  const [rawYear, month, day] = format === 'ymd'
+    ? [first, second, third]
+    : format === 'dmy' ? [third, second, first] : [third, first, second];
+  const year = rawYear < 100 ? 2000 + rawYear : rawYear;
+
+  if (month < 1 || month > 12 || day < 1 || day > getDaysInMonth(year, month)) {
+    return null;
+  }
+  return fromDateInputValue(`${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`);
+};
+
+// "Ann, Bob & Carl" -> ["Ann", "Bob", "Carl"]
+const splitNames = (value: string): string[] => {
+  return value.split(/\s*(?:[;,|+&/]|\band\b)\s*/i).map(name => name.trim()).filter(Boolean);
+};
+
+// Words that mean everyone in the group rather than a person
+const EVERYONE = ['all', 'everyone', 'everybody'];
+
+// Names in the file that match no participant, in the order they first appear
+export const findUnknownNames = (rows: CsvImportRow[]): string[] => {
+  const names = new Map<string, string>();
+  rows.flatMap(row => row.unknownNames).forEach(name => {
+    if (!names.has(name.toLowerCase())) {
+      names.set(name.toLowerCase(), name);
+    }
+  });
+  return Array.from(names.values());
+};
+
+// Turns the data rows into expenses split equally in the base currency. Participants are matched
+// by name, ignoring case; an empty "split between" cell means everyone.
+export const buildImportRows = (
+  rows: CsvRow[],
+  mapping: CsvColumnMapping,
+  options: CsvImportOptions,
+  participants: Participant[],
+  settings: GroupSettings
+): CsvImportRow[] => {
+  const idsByName = new Map(participants.map(participant => [participant.name.trim().toLowerCase(), participant.id]));
+  const createdAt = new Date().toISOString();
+
+  return (options.hasHeader ? rows.slice(1) : rows).map(({ cells, line }) => {
+    const cell = (field: CsvField) => {
+      const column = mapping[field];
+      return column === null ? '' : (cells[column] || '').trim();
+    };
+    const unknownNames: string[] = [];
+    const toId = (name: string): string | null => {
+      const id = idsByName.get(name.toLowerCase());
+      if (!id) {
+        unknownNames.push(name);
+      }
+      return id || null;
+    };
+
+    const major = parseCsvAmount(cell('amount'), options.decimalSeparator);
+    const amount = major === null ? 0 : toMinorUnits(major, settings.baseCurrency);
+    const payerId = cell('payer') ? toId(cell('payer')) : null;
+    const involvedNames = splitNames(cell('involved'));
+    const involved = involvedNames.length === 0 || involvedNames.some(name => EVERYONE.includes(name.toLowerCase()))
+      ? participants.map(participant => participant.id)
+      : involvedNames.map(toId).filter((id): id is string => id !== null);
+    const date = mapping.date === null ? createdAt : parseCsvDate(cell('date'), options.dateFormat) || '';
+
+    const expense: Expense = {
+      id: generateId(),
+      description: cell('description'),
+      amount,
+      payers: payerId ? [{ participantId: payerId, amount }] : [],
+      involved: Array.from(new Set(involved)),
+      splitMode: 'equal',
+      splitValues: {},
+      category: DEFAULT_CATEGORY_ID,
+      currency: settings.baseCurrency,
+      date,
+      createdAt
+    };
+
+    const readErrors = [
+      ...(major === null && cell('amount') ? [`"${cell('amount')}" is not an amount`] : []),
+      ...(!date && cell('date') ? [`"${cell('date')}" is not a valid date`] : []),
+      ...unknownNames.map(name => `${name} is not a participant`)
+    ];
+    // Checks that only repeat why a cell couldn't be read are left out
+    const errors = readErrors.length > 0 ? readErrors : validateExpense(expense, settings);
+    return { line, expense, unknownNames, errors };
+  });
+};
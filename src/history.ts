@@ -0,0 +1,149 @@
+import type { Group } from './types';
+import { STORAGE_KEYS } from './types';
+import { loadFromStorage, removeFromStorage, upgradeStoredGroup } from './utils';
+import { getStorage } from './storage';
+
+// Undo history
+// Every change to the groups is recorded as the before and after state of each group it touched,
+// so undoing or redoing a step is just putting those states back. Groups are immutable, so
+// unchanged parts of a snapshot are shared with the live data and cost nothing extra in memory.
+
+export interface GroupChange {
+  groupId: string;
+  index: number; // position in the group list, so a deleted group comes back in the same place
+  before: Group | null; // null when the change created the group
+  after: Group | null; // null when the change deleted it
+}
+
+export interface HistoryEntry {
+  label: string; // what the user did, e.g. "Delete expense"
+  changes: GroupChange[];
+  at: number; // when it happened, in ms since the epoch
+}
+
+export interface History {
+  past: HistoryEntry[]; // most recent last
+  future: HistoryEntry[]; // undone entries, most recently undone last
+}
+
+export const EMPTY_HISTORY: History = { past: [], future: [] };
+
+const MAX_HISTORY_DEPTH = 50;
+// Every stored step holds whole groups, so less is kept across reloads than in memory
+const MAX_STORED_HISTORY_DEPTH = 10;
+
+// The groups that differ between two versions of the group list
+export const diffGroups = (previous: Group[], next: Group[]): GroupChange[] => {
+  const changes: GroupChange[] = [];
+
+  previous.forEach((group, index) => {
+    const updated = next.find(candidate => candidate.id === group.id) || null;
+    if (updated !== group) {
+      changes.push({ groupId: group.id, index, before: group, after: updated });
+    }
+  });
+
+  next.forEach((group, index) => {
+    if (!previous.some(candidate => candidate.id === group.id)) {
+      changes.push({ groupId: group.id, index, before: null, after: group });
+    }
+  });
+
+  return changes;
+};
+
+// Repeats of the same small change in quick succession, like dragging a colour picker, can be
+// merged into one step
+const MERGE_WINDOW_MS = 1000;
+
+const canMerge = (previous: HistoryEntry, entry: HistoryEntry): boolean => {
+  return previous.label === entry.label &&
+    entry.at - previous.at < MERGE_WINDOW_MS &&
+    entry.changes.every(change => previous.changes.some(earlier => earlier.groupId === change.groupId && earlier.after));
+};
+
+export const recordChange = (history: History, entry: HistoryEntry, mergeRepeats = false): History => {
+  const previous = history.past[history.past.length - 1];
+
+  if (mergeRepeats && previous && canMerge(previous, entry)) {
+    const merged: HistoryEntry = {
+      ...entry,
+      changes: previous.changes.map(earlier => {
+        const later = entry.changes.find(change => change.groupId === earlier.groupId);
+        return later ? { ...earlier, after: later.after } : earlier;
+      })
+    };
+    return { past: [...history.past.slice(0, -1), merged], future: [] };
+  }
+
+  return { past: [...history.past, entry].slice(-MAX_HISTORY_DEPTH), future: [] };
+};
+
+const applyGroupState = (groups: Group[], change: GroupChange, state: Group | null): Group[] => {
+  const remaining = groups.filter(group => group.id !== change.groupId);
+  if (!state) {
+    return remaining;
+  }
+
+  const existingIndex = groups.findIndex(group => group.id === change.groupId);
+  const index = existingIndex === -1 ? Math.min(change.index, remaining.length) : existingIndex;
+  return [...remaining.slice(0, index), state, ...remaining.slice(index)];
+};
+
+export const undoChange = (groups: Group[], entry: HistoryEntry): Group[] => {
+  return [...entry.changes].reverse().reduce((current, change) => applyGroupState(current, change, change.before), groups);
+};
+
+export const redoChange = (groups: Group[], entry: HistoryEntry): Group[] => {
+  return entry.changes.reduce((current, change) => applyGroupState(current, change, change.after), groups);
+};
+
+export const loadHistory = async (): Promise<History> => {
+  const stored = await loadFromStorage<History>(STORAGE_KEYS.HISTORY);
+  if (!stored || !Array.isArray(stored.past) || !Array.isArray(stored.future)) {
+    return EMPTY_HISTORY;
+  }
+
+  // Snapshots may predate the current data format. Any that can't be brought up to date make
+  // the whole history unusable, since undoing past them would restore a broken group.
+  const upgradeSnapshot = (snapshot: Group | null): Group | null => {
+    if (!snapshot) return null;
+    const { group, errors } = upgradeStoredGroup(snapshot);
+    if (!group) {
+      throw new Error(errors[0]);
+    }
+    return group;
+  };
+
+  const upgradeEntry = (entry: HistoryEntry): HistoryEntry => ({
+    ...entry,
+    changes: entry.changes.map(change => ({
+      ...change,
+      before: upgradeSnapshot(change.before),
+      after: upgradeSnapshot(change.after)
+    }))
+  });
+
+  try {
+    return { past: stored.past.map(upgradeEntry), future: stored.future.map(upgradeEntry) };
+  } catch (error) {
+    console.error('Discarding undo history that could not be loaded:', error);
+    return EMPTY_HISTORY;
+  }
+};
+
+// History is a convenience: if it doesn't fit in storage it is dropped rather than
+// competing with the groups themselves for space
+export const saveHistory = async (history: History): Promise<void> => {
+  const stored: History = {
+    past: history.past.slice(-MAX_STORED_HISTORY_DEPTH),
+    future: history.future.slice(-MAX_STORED_HISTORY_DEPTH)
+  };
+
+  try {
+    await (await getStorage()).setItem(STORAGE_KEYS.HISTORY, stored);
+  } catch (error) {
+    console.error('Error saving undo history, it will not survive a reload:', error);
+    await removeFromStorage(STORAGE_KEYS.HISTORY);
+  }
+};
@@ -0,0 +1,203 @@
+import { describe, it, expect } from 'vitest';
+import type { AppImport } from './types';
+import { createDefaultSettings } from './utils';
+import { detectImportSource, readSplitwiseExport, readTricountExport } from './importers';
+import splitwiseExport from './fixtures/splitwise-export.csv?raw';
+import tricountExport from './fixtures/tricount-export.csv?raw';
+
+// Participant ids are generated, so expectations name people instead
+const withNames = (result: AppImport) => {
+  const nameOf = (id: string) => result.newParticipants.find(participant => participant.id === id)?.name ?? id;
+  const byName = (values: Record<string, number>) => Object.fromEntries(Object.entries(values).map(([id, value]) => [nameOf(id), value]));
+
+  return {
+    expenses: result.expenses.map(expense => ({
+      description: expense.description,
+      amount: expense.amount,
+      currency: expense.currency,
+      exchangeRate: expense.exchangeRate,
+      payers: expense.payers.map(payer => [nameOf(payer.participantId), payer.amount]),
+      involved: expense.involved.map(nameOf),
+      splitMode: expense.splitMode,
+      splitValues: byName(expense.splitValues),
+      category: expense.category
+    })),
+    payments: result.payments.map(payment => ({
+      from: nameOf(payment.from),
+      to: nameOf(payment.to),
+      amount: payment.amount,
+      currency: payment.currency,
+      note: payment.note
+    }))
+  };
+};
+
+describe('detectImportSource', () => {
+  it('recognises both exports', () => {
+    expect(detectImportSource(splitwiseExport)).toBe('splitwise');
+    expect(detectImportSource(tricountExport)).toBe('tricount');
+    expect(detectImportSource('Description,Amount\nCoffee,3.50')).toBeNull();
+  });
+});
+
+describe('readSplitwiseExport', () => {
+  const result = readSplitwiseExport(splitwiseExport, null);
+
+  it('creates the members and settles in the most used currency', () => {
+    expect(result.newParticipants.map(participant => participant.name)).toEqual(['Alice', 'Bob', 'Carol']);
+    expect(result.baseCurrency).toBe('EUR');
+  });
+
+  it('works payers and shares back from the balance changes', () => {
+    expect(withNames(result).expenses).toEqual([
+      {
+        description: 'Groceries',
+        amount: 9000,
+        currency: 'EUR',
+        exchangeRate: undefined,
+        payers: [['Alice', 9000]],
+        involved: ['Alice', 'Bob', 'Carol'],
+        splitMode: 'equal',
+        splitValues: {},
+        category: 'groceries'
+      },
+      {
+        description: 'Dinner',
+        amount: 9000,
+        currency: 'EUR',
+        exchangeRate: undefined,
+        payers: [['Alice', 9000]],
+        involved: ['Alice', 'Carol'],
+        splitMode: 'exact',
+        splitValues: { Alice: 6000, Carol: 3000 },
+        category: 'food'
+      },
+      {
+        description: 'Taxi to the airport',
+        amount: 2000,
+        currency: 'EUR',
+        exchangeRate: undefined,
+        payers: [['Bob', 2000]],
+        involved: ['Alice', 'Bob', 'Carol'],
+        splitMode: 'exact',
+        splitValues: { Alice: 1200, Bob: 300, Carol: 500 },
+        category: 'transport'
+      },
+      {
+        description: 'Board games',
+        amount: 3000,
+        currency: 'EUR',
+        exchangeRate: undefined,
+        payers: [['Bob', 3000]],
+        involved: ['Alice', 'Bob', 'Carol'],
+        splitMode: 'equal',
+        splitValues: {},
+        category: 'other'
+      }
+    ]);
+  });
+
+  it('reads payments', () => {
+    expect(withNames(result).payments).toEqual([
+      { from: 'Alice', to: 'Bob', amount: 2500, currency: 'EUR', note: 'Alice paid Bob' }
+    ]);
+  });
+
+  it('reports the guesses and the lines it left out', () => {
+    expect(result.issues.map(issue => [issue.line, issue.skipped])).toEqual([
+      [2, false],
+      [3, false],
+      [4, false],
+      [6, true],
+      [7, true],
+      [8, false],
+      [null, false]
+    ]);
+    expect(result.issues[1].message).toMatch(/Bob had no balance change and was left out/);
+    expect(result.issues[3].message).toMatch(/refunds/);
+    expect(result.issues[4].message).toMatch(/no exchange rate from USD to EUR/);
+    expect(result.issues[6].message).toMatch(/Hobbies/);
+  });
+
+  it('matches members to existing participants by name', () => {
+    const alice = { id: 'alice', name: 'alice' };
+    const imported = readSplitwiseExport(splitwiseExport, {
+      participants: [alice],
+      settings: { ...createDefaultSettings(), baseCurrency: 'EUR' }
+    });
+
+    expect(imported.newParticipants.map(participant => participant.name)).toEqual(['Bob', 'Carol']);
+    expect(imported.expenses[0].payers).toEqual([{ participantId: 'alice', amount: 9000 }]);
+  });
+});
+
+describe('readTricountExport', () => {
+  const result = readTricountExport(tricountExport, null);
+
+  it('creates the members and settles in the main currency', () => {
+    expect(result.newParticipants.map(participant => participant.name)).toEqual(['Alice', 'Bob', 'Carol']);
+    expect(result.baseCurrency).toBe('EUR');
+  });
+
+  it('reads expenses with their split and exchange rate', () => {
+    expect(withNames(result).expenses).toEqual([
+      {
+        description: 'Groceries',
+        amount: 9000,
+        currency: 'EUR',
+        exchangeRate: undefined,
+        payers: [['Alice', 9000]],
+        involved: ['Alice', 'Bob', 'Carol'],
+        splitMode: 'equal',
+        splitValues: {},
+        category: 'groceries'
+      },
+      {
+        description: 'Concert',
+        amount: 7500,
+        currency: 'EUR',
+        exchangeRate: undefined,
+        payers: [['Bob', 7500]],
+        involved: ['Alice', 'Bob'],
+        splitMode: 'exact',
+        splitValues: { Alice: 5000, Bob: 2500 },
+        category: 'entertainment'
+      },
+      {
+        description: 'Dinner in Zurich',
+        amount: 10000,
+        currency: 'CHF',
+        exchangeRate: 1.05,
+        payers: [['Carol', 10000]],
+        involved: ['Alice', 'Bob', 'Carol'],
+        splitMode: 'exact',
+        splitValues: { Alice: 4000, Bob: 3000, Carol: 3000 },
+        category: 'food'
+      },
+      {
+        description: 'Taxi',
+        amount: 3000,
+        currency: 'EUR',
+        exchangeRate: undefined,
+        payers: [['Carol', 3000]],
+        involved: ['Alice', 'Bob', 'Carol'],
+        splitMode: 'shares',
+        splitValues: { Alice: 1000, Bob: 1000, Carol: 500 },
+        category: 'transport'
+      }
+    ]);
+  });
+
+  it('turns money transfers into payments', () => {
+    expect(withNames(result).payments).toEqual([
+      { from: 'Bob', to: 'Alice', amount: 2000, currency: 'EUR', note: 'Bob pays Alice back' }
+    ]);
+  });
+
+  it('reports income and shares that do not add up', () => {
+    expect(result.issues).toEqual([
+      { line: 6, message: expect.stringMatching(/money the group received/), skipped: true },
+      { line: 7, message: expect.stringMatching(/used as proportions/), skipped: false }
+    ]);
+  });
+});
@@ -0,0 +1,468 @@
+import type {
+  Participant,
+  Expense,
+  Payment,
+  GroupSettings,
+  ImportSource,
+  ImportIssue,
+  AppImport
+} from './types';
+import {
+  generateId,
+  toMinorUnits,
+  fromMinorUnits,
+  allocateAmount,
+  isValidCurrencyCode,
+  getCategories,
+  createDefaultSettings,
+  validateExpense,
+  validatePayment,
+  DEFAULT_CATEGORY_ID,
+  DEFAULT_CURRENCY
+} from './utils';
+import { detectDelimiter, parseCsv, parseCsvAmount, parseCsvDate, guessDecimalSeparator, guessDateFormat } from './csvImport';
+
+// Imports from other apps
+// Reads the CSV exports of Splitwise and Tricount into participants, expenses and payments.
+// Splitwise only exports how much each line moved each person's balance, so payers and shares
+// are worked back from those amounts. Whatever can't be represented exactly is listed as an issue.
+
+export const IMPORT_SOURCE_LABELS: Record<ImportSource, string> = {
+  splitwise: 'Splitwise',
+  tricount: 'Tricount'
+};
+
+// The group an export is added to; null when it becomes a new group
+interface ImportDestination {
+  participants: Participant[];
+  settings: GroupSettings;
+}
+
+const SPLITWISE_COLUMNS = ['date', 'description', 'category', 'cost', 'currency'];
+
+// Tricount names one column per person, e.g. "Paid for Ann" or, in older exports, "Impacted to Ann"
+const TRICOUNT_SHARE_PATTERN = /^(?:paid for|impacted to)\s+(.+)$/i;
+
+// Category names used by Splitwise and Tricount that match a built-in category under another name
+const CATEGORY_ALIASES: Record<string, string> = {
+  'general': DEFAULT_CATEGORY_ID,
+  'dining out': 'food',
+  'food and drink': 'food',
+  'food & drink': 'food',
+  'restaurants & bars': 'food',
+  'liquor': 'food',
+  'rent': 'accommodation',
+  'hotel': 'accommodation',
+  'lodging': 'accommodation',
+  'taxi': 'transport',
+  'gas/fuel': 'transport',
+  'parking': 'transport',
+  'plane': 'transport',
+  'bus/train': 'transport',
+  'car': 'transport',
+  'electricity': 'utilities',
+  'heat/gas': 'utilities',
+  'water': 'utilities',
+  'tv/phone/internet': 'utilities',
+  'movies': 'entertainment',
+  'games': 'entertainment',
+  'music': 'entertainment',
+  'sports': 'entertainment',
+  'clothing': 'shopping',
+  'household supplies': 'shopping'
+};
+
+const readHeaders = (text: string): string[] => {
+  return (parseCsv(text, detectDelimiter(text))[0]?.cells || []).map(header => header.trim().toLowerCase());
+};
+
+export const detectImportSource = (text: string): ImportSource | null => {
+  const headers = readHeaders(text);
+  if (SPLITWISE_COLUMNS.every((column, index) => headers[index] === column)) {
+    return 'splitwise';
+  }
+  if (headers.includes('paid by') && headers.some(header => TRICOUNT_SHARE_PATTERN.test(header))) {
+    return 'tricount';
+  }
+  return null;
+};
+
+// Like parseCsvAmount, but keeps the sign
+const parseSignedAmount = (value: string, decimalSeparator: '.' | ','): number | null => {
+  const amount = parseCsvAmount(value, decimalSeparator);
+  return amount !== null && value.trim().startsWith('-') ? -amount : amount;
+};
+
+const mostCommon = (values: string[]): string | null => {
+  const counts = new Map<string, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  return Array.from(counts).sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+};
+
+const sum = (amounts: number[]): number => amounts.reduce((total, amount) => total + amount, 0);
+
+// Finds participants by name, ignoring case, and creates the ones that don't exist yet
+const createParticipantResolver = (existing: Participant[]) => {
+  const idsByName = new Map(existing.map(participant => [participant.name.trim().toLowerCase(), participant.id]));
+  const newParticipants: Participant[] = [];
+
+  const resolve = (name: string): string => {
+    const key = name.trim().toLowerCase();
+    const id = idsByName.get(key) || generateId();
+    if (!idsByName.has(key)) {
+      idsByName.set(key, id);
+      newParticipants.push({ id, name: name.trim() });
+    }
+    return id;
+  };
+
+  return { resolve, newParticipants, getAll: () => [...existing, ...newParticipants] };
+};
+
+// Finds categories by name or alias; the ones without a match are collected for the report
+const createCategoryResolver = (settings: GroupSettings) => {
+  const idsByName = new Map(getCategories(settings).map(category => [category.name.toLowerCase(), category.id]));
+  const unmatched = new Set<string>();
+
+  const resolve = (name: string): string => {
+    const key = name.trim().toLowerCase();
+    const id = idsByName.get(key) || CATEGORY_ALIASES[key];
+    if (!id && key) {
+      unmatched.add(name.trim());
+    }
+    return id || DEFAULT_CATEGORY_ID;
+  };
+
+  return { resolve, unmatched };
+};
+
+// Equal when the shares are exactly what an equal split gives, exact amounts otherwise
+const describeShares = (amount: number, shares: [string, number][]): Pick<Expense, 'involved' | 'splitMode' | 'splitValues'> => {
+  const involved = shares.map(([id]) => id);
+  const equalParts = allocateAmount(amount, involved.map(() => 1));
+
+  if (shares.every(([, share], index) => share === equalParts[index])) {
+    return { involved, splitMode: 'equal', splitValues: {} };
+  }
+  return { involved, splitMode: 'exact', splitValues: Object.fromEntries(shares) };
+};
+
+// Collects what was read and what wasn't, and checks every entry the way the forms do
+const createImportCollector = (settings: GroupSettings, getParticipants: () => Participant[]) => {
+  const expenses: Expense[] = [];
+  const payments: Payment[] = [];
+  const issues: ImportIssue[] = [];
+
+  const skip = (line: number, message: string) => {
+    issues.push({ line, message, skipped: true });
+  };
+  const note = (line: number | null, message: string) => {
+    issues.push({ line, message, skipped: false });
+  };
+  const addExpense = (line: number, expense: Expense) => {
+    const errors = validateExpense(expense, settings);
+    if (errors.length > 0) {
+      skip(line, `"${expense.description}": ${errors.join('; ')}`);
+    } else {
+      expenses.push(expense);
+    }
+  };
+  const addPayment = (line: number, payment: Payment) => {
+    const errors = validatePayment(payment, getParticipants());
+    if (errors.length > 0) {
+      skip(line, `Payment: ${errors.join('; ')}`);
+    } else {
+      payments.push(payment);
+    }
+  };
+
+  return { expenses, payments, issues, skip, note, addExpense, addPayment };
+};
+
+const reportUnmatchedCategories = (unmatched: Set<string>, note: (line: number | null, message: string) => void) => {
+  if (unmatched.size > 0) {
+    note(null, `These categories have no match and were filed under Other: ${Array.from(unmatched).join(', ')}`);
+  }
+};
+
+// Converts an amount in another currency to the base currency, or null without a rate
+const convertToBase = (amount: number, currency: string, rate: number | undefined, settings: GroupSettings): number | null => {
+  if (currency === settings.baseCurrency) return amount;
+  const exchangeRate = rate ?? settings.exchangeRates[currency];
+  return exchangeRate ? toMinorUnits(fromMinorUnits(amount, currency) * exchangeRate, settings.baseCurrency) : null;
+};
+
+const missingRateMessage = (currency: string, settings: GroupSettings): string => {
+  return `There is no exchange rate from ${currency} to ${settings.baseCurrency}; add one under Currencies and import again`;
+};
+
+// Splitwise's group export has Date, Description, Category, Cost and Currency columns, then one
+// column per member with how much the line changed their balance: positive for whoever is owed
+// money, negative for whoever owes it. Payments are lines in the "Payment" category, and a
+// "Total balance" line closes the file.
+export const readSplitwiseExport = (text: string, destination: ImportDestination | null): AppImport => {
+  const [headerRow, ...rows] = parseCsv(text, detectDelimiter(text));
+  const headers = headerRow?.cells || [];
+  const baseCurrency = destination?.settings.baseCurrency
+    || mostCommon(rows.map(({ cells }) => (cells[4] || '').trim().toUpperCase()).filter(isValidCurrencyCode))
+    || DEFAULT_CURRENCY;
+  const settings = { ...(destination?.settings || createDefaultSettings()), baseCurrency };
+  const people = createParticipantResolver(destination?.participants || []);
+  const categories = createCategoryResolver(settings);
+  const collector = createImportCollector(settings, people.getAll);
+  const { skip, note } = collector;
+  const createdAt = new Date().toISOString();
+
+  const memberIds = headers.slice(SPLITWISE_COLUMNS.length).map(name => (name.trim() ? people.resolve(name) : null));
+
+  rows.forEach(({ cells: row, line }) => {
+    const [dateCell = '', description = '', category = '', costCell = '', currencyCell = ''] = row.map(cell => cell.trim());
+    if (description.toLowerCase() === 'total balance') return;
+
+    const currency = currencyCell.toUpperCase() || baseCurrency;
+    if (!isValidCurrencyCode(currency)) {
+      skip(line, `"${description}": unknown currency ${currencyCell}`);
+      return;
+    }
+    if (currency !== baseCurrency && !settings.exchangeRates[currency]) {
+      skip(line, `"${description}": ${missingRateMessage(currency, settings)}`);
+      return;
+    }
+    const cost = parseSignedAmount(costCell, '.');
+    const date = parseCsvDate(dateCell, 'ymd');
+    if (cost === null || !date) {
+      skip(line, `"${description}": the cost or date can't be read`);
+      return;
+    }
+
+    const changes = memberIds
+      .map((id, column) => [id, toMinorUnits(parseSignedAmount(row[SPLITWISE_COLUMNS.length + column] || '', '.') ?? 0, currency)] as const)
+      .filter((change): change is [string, number] => change[0] !== null && change[1] !== 0);
+    const credited = changes.filter(([, change]) => change > 0);
+    const debited = changes.filter(([, change]) => change < 0);
+
+    if (sum(changes.map(([, change]) => change)) !== 0) {
+      skip(line, `"${description}": the balances in this line don't add up`);
+      return;
+    }
+
+    if (category.toLowerCase() === 'payment') {
+      if (credited.length !== 1 || debited.length !== 1) {
+        skip(line, `"${description}": a payment between more than two people can't be recorded`);
+        return;
+      }
+      collector.addPayment(line, {
+        id: generateId(),
+        from: credited[0][0],
+        to: debited[0][0],
+        amount: convertToBase(credited[0][1], currency, undefined, settings)!,
+        currency: baseCurrency,
+        date,
+        note: description
+      });
+      return;
+    }
+
+    if (cost <= 0) {
+      skip(line, `"${description}": refunds and other negative costs can't be recorded as expenses`);
+      return;
+    }
+    if (credited.length === 0) {
+      skip(line, `"${description}": no one's balance changed, so who paid can't be told`);
+      return;
+    }
+
+    // Those who owe money owe exactly their share. What's left of the cost is the payers' own share.
+    const amount = toMinorUnits(cost, currency);
+    const owed = debited.map(([id, change]): [string, number] => [id, -change]);
+    const payersShare = amount - sum(owed.map(([, share]) => share));
+    if (payersShare < 0) {
+      skip(line, `"${description}": the balances in this line are more than its cost`);
+      return;
+    }
+    const payerShares = allocateAmount(payersShare, credited.map(() => 1));
+    // Someone who paid exactly their share, or paid part of the bill and still owes, looks just like
+    // someone who wasn't involved or only owes, so the payers' part is a best guess
+    if (payersShare > 0) {
+      const unchanged = memberIds
+        .filter((id): id is string => id !== null && !changes.some(([changedId]) => changedId === id))
+        .map(id => people.getAll().find(participant => participant.id === id)!.name);
+      const guess = credited.length > 1
+        ? "Splitwise doesn't export how the payers split their own part, so it was split equally between them"
+        : "Splitwise doesn't export the payer's own part, so the rest of the cost was counted as theirs";
+      const leftOut = unchanged.length > 0
+        ? `; ${unchanged.join(', ')} had no balance change and ${unchanged.length === 1 ? 'was' : 'were'} left out, though they may have paid exactly their share`
+        : '';
+      note(line, `"${description}": ${guess}${leftOut}`);
+    }
+
+    const shares = new Map([...credited.map(([id], payer): [string, number] => [id, payerShares[payer]]), ...owed]);
+    const orderedShares = memberIds
+      .filter((id): id is string => id !== null && (shares.get(id) || 0) > 0)
+      .map((id): [string, number] => [id, shares.get(id)!]);
+
+    collector.addExpense(line, {
+      id: generateId(),
+      description,
+      amount,
+      payers: credited.map(([id, change], payer) => ({ participantId: id, amount: change + payerShares[payer] })),
+      ...describeShares(amount, orderedShares),
+      category: categories.resolve(category),
+      currency,
+      date,
+      createdAt
+    });
+  });
+
+  reportUnmatchedCategories(categories.unmatched, note);
+
+  return {
+    source: 'splitwise',
+    baseCurrency,
+    newParticipants: people.newParticipants,
+    expenses: collector.expenses,
+    payments: collector.payments,
+    issues: collector.issues
+  };
+};
+
+// Tricount's export has a row per transaction with its title, amount, currency, the amount in the
+// tricount's main currency, who paid, a "Paid for" column per person, the date and the
+// transaction type: an expense, a money transfer or income.
+export const readTricountExport = (text: string, destination: ImportDestination | null): AppImport => {
+  const [headerRow, ...lines] = parseCsv(text, detectDelimiter(text));
+  const headers = (headerRow?.cells || []).map(cell => cell.trim());
+  const rows = lines.map(row => row.cells);
+  const findColumn = (pattern: RegExp) => headers.findIndex(header => pattern.test(header));
+  const columns = {
+    title: findColumn(/^(title|name|description|what)$/i),
+    amount: findColumn(/^amount$/i),
+    currency: findColumn(/^currency$/i),
+    mainAmount: findColumn(/^amount in (default|main) currency$/i),
+    paidBy: findColumn(/^paid by$/i),
+    date: findColumn(/^date/i),
+    type: findColumn(/type$/i),
+    category: findColumn(/^category$/i)
+  };
+  const cellOf = (row: string[], column: number) => (column < 0 ? '' : (row[column] || '').trim());
+
+  const decimalSeparator = guessDecimalSeparator(rows.flatMap(row => [cellOf(row, columns.amount), cellOf(row, columns.mainAmount)]));
+  const dateFormat = guessDateFormat(rows.map(row => cellOf(row, columns.date)));
+  const currencyOf = (row: string[]) => cellOf(row, columns.currency).toUpperCase();
+
+  // The main currency is the one whose amounts never need converting
+  const fileCurrency = mostCommon(rows
+    .filter(row => columns.mainAmount < 0 || cellOf(row, columns.amount) === cellOf(row, columns.mainAmount))
+    .map(currencyOf)
+    .filter(isValidCurrencyCode)) || DEFAULT_CURRENCY;
+  const baseCurrency = destination?.settings.baseCurrency || fileCurrency;
+  const settings = { ...(destination?.settings || createDefaultSettings()), baseCurrency };
+  const people = createParticipantResolver(destination?.participants || []);
+  const categories = createCategoryResolver(settings);
+  const collector = createImportCollector(settings, people.getAll);
+  const { skip, note } = collector;
+  const createdAt = new Date().toISOString();
+
+  const shareColumns = headers.flatMap((header, column) => {
+    const match = header.match(TRICOUNT_SHARE_PATTERN);
+    return match ? [{ column, id: people.resolve(match[1]) }] : [];
+  });
+
+  lines.forEach(({ cells: row, line }) => {
+    const title = cellOf(row, columns.title);
+    const type = cellOf(row, columns.type).toLowerCase();
+    const currency = currencyOf(row) || fileCurrency;
+    if (!isValidCurrencyCode(currency)) {
+      skip(line, `"${title}": unknown currency ${currencyOf(row)}`);
+      return;
+    }
+
+    const major = parseSignedAmount(cellOf(row, columns.amount), decimalSeparator);
+    const mainMajor = parseSignedAmount(cellOf(row, columns.mainAmount), decimalSeparator);
+    const date = parseCsvDate(cellOf(row, columns.date), dateFormat);
+    if (major === null || !date) {
+      skip(line, `"${title}": the amount or date can't be read`);
+      return;
+    }
+    if (type.includes('income') || major < 0) {
+      skip(line, `"${title}": money the group received can't be recorded in DamFair`);
+      return;
+    }
+    if (!cellOf(row, columns.paidBy)) {
+      skip(line, `"${title}": no one is named as having paid`);
+      return;
+    }
+
+    // The export's own rate only applies when it converts into the group's base currency
+    const rate = currency !== baseCurrency && fileCurrency === baseCurrency && mainMajor && major
+      ? Math.abs(mainMajor) / major
+      : undefined;
+    if (currency !== baseCurrency && !rate && !settings.exchangeRates[currency]) {
+      skip(line, `"${title}": ${missingRateMessage(currency, settings)}`);
+      return;
+    }
+
+    const amount = toMinorUnits(major, currency);
+    const payerId = people.resolve(cellOf(row, columns.paidBy));
+    const shares = shareColumns
+      .map(({ column, id }): [string, number] => [id, toMinorUnits(parseSignedAmount(cellOf(row, column), decimalSeparator) ?? 0, currency)])
+      .filter(([, share]) => share > 0);
+    if (shares.length === 0) {
+      skip(line, `"${title}": no one is listed as taking part`);
+      return;
+    }
+
+    if (type.includes('transfer') || type.includes('balance')) {
+      // A transfer to several people becomes one payment to each of them
+      const total = convertToBase(amount, currency, rate, settings)!;
+      const parts = allocateAmount(total, shares.map(([, share]) => share));
+      shares.forEach(([recipientId], recipient) => {
+        collector.addPayment(line, {
+          id: generateId(),
+          from: payerId,
+          to: recipientId,
+          amount: parts[recipient],
+          currency: baseCurrency,
+          date,
+          note: title
+        });
+      });
+      return;
+    }
+
+    const sharesTotal = sum(shares.map(([, share]) => share));
+    let split = describeShares(amount, shares);
+    if (sharesTotal !== amount) {
+      split = { involved: shares.map(([id]) => id), splitMode: 'shares', splitValues: Object.fromEntries(shares) };
+      note(line, `"${title}": the amounts per person don't add up to the total, so they were used as proportions`);
+    }
+
+    collector.addExpense(line, {
+      id: generateId(),
+      description: title,
+      amount,
+      payers: [{ participantId: payerId, amount }],
+      ...split,
+      category: categories.resolve(cellOf(row, columns.category)),
+      currency,
+      ...(rate ? { exchangeRate: rate } : {}),
+      date,
+      createdAt
+    });
+  });
+
+  reportUnmatchedCategories(categories.unmatched, note);
+
+  return {
+    source: 'tricount',
+    baseCurrency,
+    newParticipants: people.newParticipants,
+    expenses: collector.expenses,
+    payments: collector.payments,
+    issues: collector.issues
+  };
+};
+
+export const readAppExport = (source: ImportSource, text: string, destination: ImportDestination | null): AppImport => {
+  return source === 'splitwise' ? readSplitwiseExport(text, destination) : readTricountExport(text, destination);
+};
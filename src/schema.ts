@@ -0,0 +1,224 @@
+import type {
+  Participant,
+  ExpenseItem,
+  ExpenseCharges,
+  Category,
+  ExpensePayer,
+  Expense,
+  RecurringTemplate,
+  Payment,
+  AuditEntry,
+  BlockedTransfer,
+  GroupSettings,
+  Group,
+  SplitMode,
+  RecurrenceFrequency,
+  SettlementStrategy,
+  AuditEntityType,
+  AuditAction
+} from './types';
+
+// Data validators
+// Stored data is checked against these before the app uses it, so a damaged or hand-edited save
+// is reported instead of turning into NaN balances. There is one validator per stored type in
+// types.ts; shape() requires every field of the type to be listed, so adding a field without
+// validating it doesn't compile. Each validator returns a list of problems, empty when valid.
+
+type Validator = (value: unknown, path: string) => string[];
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const describePath = (path: string): string => path || 'The data';
+
+const expect = (test: (value: unknown) => boolean, description: string): Validator => {
+  return (value, path) => (test(value) ? [] : [`${describePath(path)} should be ${description}`]);
+};
+
+const isText = expect(value => typeof value === 'string', 'text');
+const isId = expect(value => typeof value === 'string' && value !== '', 'an id');
+const isMinorUnits = expect(value => Number.isSafeInteger(value), 'a whole number of minor units');
+const isFiniteNumber = expect(value => typeof value === 'number' && Number.isFinite(value), 'a number');
+const isPositiveNumber = expect(value => typeof value === 'number' && Number.isFinite(value) && value > 0, 'a positive number');
+const isCount = expect(value => Number.isSafeInteger(value) && (value as number) >= 0, 'a whole number');
+const isBoolean = expect(value => typeof value === 'boolean', 'true or false');
+const isDate = expect(value => typeof value === 'string' && !Number.isNaN(new Date(value).getTime()), 'a date');
+const isCurrencyCode = expect(value => typeof value === 'string' && /^[A-Z]{3}$/.test(value), 'a currency code');
+
+const oneOf = <T extends string>(values: readonly T[]): Validator => {
+  return expect(value => values.includes(value as T), `one of ${values.join(', ')}`);
+};
+
+const optional = (validator: Validator): Validator => {
+  return (value, path) => (value === undefined ? [] : validator(value, path));
+};
+
+const nullable = (validator: Validator): Validator => {
+  return (value, path) => (value === null ? [] : validator(value, path));
+};
+
+const listOf = (validator: Validator): Validator => {
+  return (value, path) => Array.isArray(value)
+    ? value.flatMap((item, index) => validator(item, `${path}[${index}]`))
+    : [`${describePath(path)} should be a list`];
+};
+
+const mapOf = (validator: Validator): Validator => {
+  return (value, path) => isRecord(value)
+    ? Object.entries(value).flatMap(([key, item]) => validator(item, `${path}.${key}`))
+    : [`${describePath(path)} should be an object`];
+};
+
+const shape = <T>(fields: { [K in keyof T]-?: Validator }): Validator => {
+  return (value, path) => isRecord(value)
+    ? Object.entries<Validator>(fields).flatMap(([key, validator]) => validator(value[key], path ? `${path}.${key}` : key))
+    : [`${describePath(path)} should be an object`];
+};
+
+const SPLIT_MODES: SplitMode[] = ['equal', 'exact', 'percentage', 'shares', 'itemized'];
+const RECURRENCE_FREQUENCIES: RecurrenceFrequency[] = ['daily', 'weekly', 'monthly', 'yearly'];
+const SETTLEMENT_STRATEGIES: SettlementStrategy[] = ['minimal', 'pairwise', 'hub'];
+const AUDIT_ENTITY_TYPES: AuditEntityType[] = ['participant', 'expense', 'payment'];
+const AUDIT_ACTIONS: AuditAction[] = ['created', 'updated', 'deleted'];
+
+const participant = shape<Participant>({
+  id: isId,
+  name: isText
+});
+
+const expenseItem = shape<ExpenseItem>({
+  id: isId,
+  description: isText,
+  amount: isMinorUnits,
+  involved: listOf(isId)
+});
+
+const expenseCharges = shape<ExpenseCharges>({
+  tax: isMinorUnits,
+  tip: isMinorUnits,
+  service: isMinorUnits
+});
+
+const category = shape<Category>({
+  id: isId,
+  name: isText,
+  color: isText,
+  icon: isText
+});
+
+const expensePayer = shape<ExpensePayer>({
+  participantId: isId,
+  amount: isMinorUnits
+});
+
+// Shared by expenses and the expense part of recurring templates
+const expenseDetails: { [K in keyof RecurringTemplate['expense']]-?: Validator } = {
+  description: isText,
+  amount: isMinorUnits,
+  payers: listOf(expensePayer),
+  involved: listOf(isId),
+  splitMode: oneOf(SPLIT_MODES),
+  splitValues: mapOf(isFiniteNumber),
+  items: optional(listOf(expenseItem)),
+  charges: optional(expenseCharges),
+  category: isText,
+  currency: isCurrencyCode,
+  exchangeRate: optional(isPositiveNumber)
+};
+
+const expense = shape<Expense>({
+  ...expenseDetails,
+  id: isId,
+  date: isDate,
+  createdAt: isDate,
+  recurringTemplateId: optional(isId)
+});
+
+const recurringTemplate = shape<RecurringTemplate>({
+  id: isId,
+  expense: shape<RecurringTemplate['expense']>(expenseDetails),
+  frequency: oneOf(RECURRENCE_FREQUENCIES),
+  startDate: isDate,
+  endDate: optional(isDate),
+  maxOccurrences: optional(isCount),
+  occurrenceCount: isCount,
+  paused: isBoolean
+});
+
+const payment = shape<Payment>({
+  id: isId,
+  from: isId,
+  to: isId,
+  amount: isMinorUnits,
+  currency: isCurrencyCode,
+  date: isDate,
+  note: isText
+});
+
+const AUDIT_ENTITY_VALIDATORS: Record<AuditEntityType, Validator> = { participant, expense, payment };
+
+// The snapshots are checked against the type the entry is about
+const auditEntry: Validator = (value, path) => {
+  const entityType = isRecord(value) ? value.entityType : undefined;
+  const entity = AUDIT_ENTITY_VALIDATORS[entityType as AuditEntityType] || (() => []);
+
+  return shape<AuditEntry>({
+    id: isId,
+    at: isDate,
+    action: oneOf(AUDIT_ACTIONS),
+    entityId: isId,
+    reason: isText,
+    entityType: oneOf(AUDIT_ENTITY_TYPES),
+    before: nullable(entity),
+    after: nullable(entity)
+  })(value, path);
+};
+
+const blockedTransfer = shape<BlockedTransfer>({
+  from: isId,
+  to: isId
+});
+
+const groupSettings = shape<GroupSettings>({
+  baseCurrency: isCurrencyCode,
+  exchangeRates: mapOf(isPositiveNumber),
+  settlementStrategy: oneOf(SETTLEMENT_STRATEGIES),
+  treasurerId: optional(isId),
+  blockedTransfers: listOf(blockedTransfer),
+  households: mapOf(isText),
+  preferSameHousehold: isBoolean,
+  categories: listOf(category)
+});
+
+const group = shape<Group>({
+  id: isId,
+  version: isCount,
+  name: isText,
+  createdAt: isDate,
+  archived: isBoolean,
+  participants: listOf(participant),
+  expenses: listOf(expense),
+  payments: listOf(payment),
+  recurringTemplates: listOf(recurringTemplate),
+  auditLog: listOf(auditEntry),
+  settings: groupSettings
+});
+
+export const DATA_VALIDATORS = {
+  participant,
+  expenseItem,
+  expenseCharges,
+  category,
+  expensePayer,
+  expense,
+  recurringTemplate,
+  payment,
+  auditEntry,
+  blockedTransfer,
+  groupSettings,
+  group
+};
+
+// Everything wrong with a group as loaded, in a form that can be shown to the user
+export const validateGroupData = (value: unknown): string[] => group(value, '');
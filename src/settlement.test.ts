@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import type { Settlement } from './types';
+import { greedySettlements, calculateSettlements } from './settlement';
+import type { SettlementRules } from './settlement';
+
+type TestBalance = { participantId: string; amount: number };
+
+const toBalances = (amounts: number[]): TestBalance[] => {
+  return amounts.map((amount, index) => ({ participantId: `p${index}`, amount }));
+};
+
+// Small seeded generator, so a failing case can be reproduced
+const createRandom = (seed: number) => () => {
+  seed = (seed * 1103515245 + 12345) % 2 ** 31;
+  return seed / 2 ** 31;
+};
+
+// Zero-sum balances in whole minor units, some of them zero
+const randomBalances = (random: () => number, count: number): TestBalance[] => {
+  const amounts = Array.from({ length: count - 1 }, () => Math.floor(random() * 2001) - 1000);
+  amounts.push(-amounts.reduce((sum, amount) => sum + amount, 0));
+  return toBalances(amounts);
+};
+
+// What everyone still owes or is owed once the transfers are made
+const applyTransfers = (balances: TestBalance[], settlements: Settlement[]): Map<string, number> => {
+  const remaining = new Map(balances.map(balance => [balance.participantId, balance.amount]));
+  settlements.forEach(settlement => {
+    remaining.set(settlement.from, (remaining.get(settlement.from) ?? 0) + settlement.amount);
+    remaining.set(settlement.to, (remaining.get(settlement.to) ?? 0) - settlement.amount);
+  });
+  return remaining;
+};
+
+const expectSettled = (balances: TestBalance[], settlements: Settlement[]) => {
+  settlements.forEach(settlement => {
+    expect(Number.isInteger(settlement.amount)).toBe(true);
+    expect(settlement.amount).toBeGreaterThan(0);
+  });
+  applyTransfers(balances, settlements).forEach(amount => expect(amount).toBe(0));
+};
+
+const NO_RULES: SettlementRules = { blockedTransfers: [], households: {}, preferSameHousehold: false };
+
+describe('calculateSettlements', () => {
+  it('never needs more transfers than the greedy plan', () => {
+    const random = createRandom(42);
+    for (let run = 0; run < 300; run++) {
+      const balances = randomBalances(random, 2 + (run % 10));
+      expect(calculateSettlements(balances).length).toBeLessThanOrEqual(greedySettlements(balances).length);
+    }
+  });
+
+  it('settles every balance exactly', () => {
+    const random = createRandom(7);
+    for (let run = 0; run < 300; run++) {
+      const balances = randomBalances(random, 2 + (run % 12));
+      expectSettled(balances, calculateSettlements(balances));
+    }
+  });
+
+  it('finds subsets that settle among themselves', () => {
+    // p0 and p4 cancel out, which the greedy matcher misses
+    const balances = toBalances([600, -300, -800, -900, -600, 2000]);
+
+    expect(greedySettlements(balances)).toHaveLength(5);
+    const settlements = calculateSettlements(balances);
+    expect(settlements).toHaveLength(4);
+    expect(settlements).toContainEqual({ from: 'p4', to: 'p0', amount: 600 });
+    expectSettled(balances, settlements);
+  });
+
+  it('falls back to the greedy plan above maxExactParticipants', () => {
+    const balances = toBalances([600, -300, -800, -900, -600, 2000]);
+    const settlements = calculateSettlements(balances, NO_RULES, { maxExactParticipants: 5 });
+
+    expect(settlements).toEqual(greedySettlements(balances));
+    expectSettled(balances, settlements);
+  });
+
+  it('ignores settled people when counting against maxExactParticipants', () => {
+    const balances = toBalances([600, -300, -800, -900, -600, 2000, 0, 0]);
+
+    expect(calculateSettlements(balances, NO_RULES, { maxExactParticipants: 6 })).toHaveLength(4);
+  });
+
+  it('falls back to the greedy plan when the time budget runs out', () => {
+    const balances = randomBalances(createRandom(3), 16);
+    const settlements = calculateSettlements(balances, NO_RULES, { timeBudgetMs: 0 });
+
+    expect(settlements).toEqual(greedySettlements(balances));
+    expectSettled(balances, settlements);
+  });
+
+  it('routes around a blocked transfer through someone else', () => {
+    const balances = toBalances([-1000, 1000, 0]);
+    const rules: SettlementRules = { ...NO_RULES, blockedTransfers: [{ from: 'p0', to: 'p1' }] };
+    const settlements = calculateSettlements(balances, rules);
+
+    expect(settlements).toEqual([
+      { from: 'p0', to: 'p2', amount: 1000 },
+      { from: 'p2', to: 'p1', amount: 1000 }
+    ]);
+    expectSettled(balances, settlements);
+  });
+
+  it('prefers a plan without blocked transfers', () => {
+    // Settling p0 with p1 can't avoid a blocked transfer, not even through someone else, but
+    // pairing p0 with p3 and p2 with p1 can
+    const balances = toBalances([-500, 500, -500, 500]);
+    const rules: SettlementRules = {
+      ...NO_RULES,
+      blockedTransfers: [{ from: 'p0', to: 'p1' }, { from: 'p0', to: 'p2' }, { from: 'p3', to: 'p1' }]
+    };
+    const settlements = calculateSettlements(balances, rules);
+
+    expect(greedySettlements(balances.slice(0, 2), rules, ['p0', 'p1', 'p2', 'p3'])[0].blocked).toBe(true);
+    expect(settlements).toEqual([
+      { from: 'p0', to: 'p3', amount: 500 },
+      { from: 'p2', to: 'p1', amount: 500 }
+    ]);
+    expectSettled(balances, settlements);
+  });
+
+  it('flags a blocked transfer when there is no way around it', () => {
+    const balances = toBalances([-1000, 1000]);
+    const rules: SettlementRules = { ...NO_RULES, blockedTransfers: [{ from: 'p0', to: 'p1' }] };
+
+    expect(calculateSettlements(balances, rules)).toEqual([{ from: 'p0', to: 'p1', amount: 1000, blocked: true }]);
+  });
+});
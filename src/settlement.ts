@@ -0,0 +1,227 @@
+import type { Balance, GroupSettings, Settlement } from './types';
+
+// Settlement engine
+// Turns net balances (whole minor units that sum to zero) into a list of transfers.
+//
+// A group whose balances split into k independent zero-sum subsets can always be settled with
+// n - k transfers, and never with fewer, so the fewest transfers come from the partition with the
+// most zero-sum subsets. Finding it is exponential, so it is only attempted for normal group sizes
+// and within a time budget; otherwise the greedy matcher is used.
+//
+// Groups can also pick a pairwise or treasurer (hub) strategy, block specific transfers and
+// prefer transfers within a household; see planSettlements.
+
+type SettlementBalance = Pick<Balance, 'participantId' | 'amount'>;
+
+export type SettlementRules = Pick<GroupSettings, 'blockedTransfers' | 'households' | 'preferSameHousehold'>;
+
+const NO_RULES: SettlementRules = { blockedTransfers: [], households: {}, preferSameHousehold: false };
+
+const isBlocked = (rules: SettlementRules, from: string, to: string): boolean => {
+  return rules.blockedTransfers.some(transfer => transfer.from === from && transfer.to === to);
+};
+
+const inSameHousehold = (rules: SettlementRules, first: string, second: string): boolean => {
+  const household = rules.households[first]?.trim().toLowerCase();
+  return Boolean(household) && household === rules.households[second]?.trim().toLowerCase();
+};
+
+// Marks transfers that break a rule the strategy has no way around
+const flagBlocked = (settlements: Settlement[], rules: SettlementRules): Settlement[] => {
+  return settlements.map(settlement => (
+    isBlocked(rules, settlement.from, settlement.to) ? { ...settlement, blocked: true } : settlement
+  ));
+};
+
+const countBlocked = (settlements: Settlement[]): number => settlements.filter(s => s.blocked).length;
+
+// Routing around blocked transfers can send money along the same edge twice; combine those
+const mergeTransfers = (settlements: Settlement[]): Settlement[] => {
+  const merged: Settlement[] = [];
+  settlements.forEach(settlement => {
+    const existing = merged.find(s => s.from === settlement.from && s.to === settlement.to);
+    if (existing) {
+      existing.amount += settlement.amount;
+    } else {
+      merged.push({ ...settlement });
+    }
+  });
+  return merged;
+};
+
+export interface SettlementOptions {
+  maxExactParticipants?: number; // people with a non-zero balance
+  timeBudgetMs?: number;
+}
+
+const DEFAULT_SETTLEMENT_OPTIONS: Required<SettlementOptions> = {
+  maxExactParticipants: 18,
+  timeBudgetMs: 50
+};
+
+// Pairs the largest creditor with the largest debtor until everyone is settled.
+// Uses at most n - 1 transfers, but misses subsets that could settle among themselves.
+// With rules, a debtor skips creditors they may not pay, prefers their own household, and
+// pays through someone else when no creditor is allowed at all.
+export const greedySettlements = (
+  balanceArray: SettlementBalance[],
+  rules: SettlementRules = NO_RULES,
+  intermediaries: string[] = balanceArray.map(balance => balance.participantId)
+): Settlement[] => {
+  const settlements: Settlement[] = [];
+  const balances = balanceArray.map(balance => ({ ...balance }));
+
+  // Separate creditors (positive balance) and debtors (negative balance).
+  // Balances are whole minor units that sum to zero, so no tolerance is needed.
+  const creditors = balances.filter(b => b.amount > 0).sort((a, b) => b.amount - a.amount);
+  const debtors = balances.filter(b => b.amount < 0).sort((a, b) => a.amount - b.amount);
+
+  debtors.forEach(debtor => {
+    while (debtor.amount < 0) {
+      const openCreditors = creditors.filter(c => c.amount > 0);
+      if (openCreditors.length === 0) return;
+
+      const allowed = openCreditors.filter(c => !isBlocked(rules, debtor.participantId, c.participantId));
+      const preferred = rules.preferSameHousehold
+        ? allowed.find(c => inSameHousehold(rules, debtor.participantId, c.participantId))
+        : undefined;
+      const creditor = preferred || allowed[0] || openCreditors[0];
+      const settlementAmount = Math.min(creditor.amount, -debtor.amount);
+
+      if (allowed.length > 0) {
+        settlements.push({ from: debtor.participantId, to: creditor.participantId, amount: settlementAmount });
+      } else {
+        // Route the money through someone both sides are allowed to deal with
+        const via = intermediaries.find(id =>
+          id !== debtor.participantId &&
+          id !== creditor.participantId &&
+          !isBlocked(rules, debtor.participantId, id) &&
+          !isBlocked(rules, id, creditor.participantId)
+        );
+
+        if (via) {
+          settlements.push({ from: debtor.participantId, to: via, amount: settlementAmount });
+          settlements.push({ from: via, to: creditor.participantId, amount: settlementAmount });
+        } else {
+          settlements.push({ from: debtor.participantId, to: creditor.participantId, amount: settlementAmount, blocked: true });
+        }
+      }
+
+      // Update remaining balances
+      creditor.amount -= settlementAmount;
+      debtor.amount += settlementAmount;
+    }
+  });
+
+  return mergeTransfers(settlements);
+};
+
+// Splits the balances into as many zero-sum subsets as possible, or returns null when the
+// deadline passes first. best[mask] is the largest number of zero-sum prefixes along any order
+// of removing people from mask; walking back along the recorded choices recovers the subsets.
+const findZeroSumGroups = (balances: SettlementBalance[], deadline: number): SettlementBalance[][] | null => {
+  const count = balances.length;
+  const size = 1 << count;
+  const sums = new Float64Array(size);
+  const best = new Int8Array(size);
+  const removed = new Int8Array(size);
+
+  for (let mask = 1; mask < size; mask++) {
+    if ((mask & 0xfff) === 0 && performance.now() > deadline) {
+      return null;
+    }
+
+    const lowest = 31 - Math.clz32(mask & -mask);
+    sums[mask] = sums[mask & (mask - 1)] + balances[lowest].amount;
+
+    let bestCount = -1;
+    let bestIndex = lowest;
+    for (let index = lowest; index < count; index++) {
+      if ((mask & (1 << index)) && best[mask ^ (1 << index)] > bestCount) {
+        bestCount = best[mask ^ (1 << index)];
+        bestIndex = index;
+      }
+    }
+
+    best[mask] = bestCount + (sums[mask] === 0 ? 1 : 0);
+    removed[mask] = bestIndex;
+  }
+
+  const groups: SettlementBalance[][] = [];
+  let group: SettlementBalance[] = [];
+  let mask = size - 1;
+
+  while (mask !== 0) {
+    const index = removed[mask];
+    group.push(balances[index]);
+    mask ^= 1 << index;
+
+    if (sums[mask] === 0) {
+      groups.push(group);
+      group = [];
+    }
+  }
+
+  return groups;
+};
+
+// Fewest transfers within the limits, and never more than the greedy plan.
+// Plans that avoid blocked transfers always win over shorter ones that don't.
+export const calculateSettlements = (
+  balances: SettlementBalance[],
+  rules: SettlementRules = NO_RULES,
+  options: SettlementOptions = {}
+): Settlement[] => {
+  const { maxExactParticipants, timeBudgetMs } = { ...DEFAULT_SETTLEMENT_OPTIONS, ...options };
+  const everyone = balances.map(balance => balance.participantId);
+  const greedy = greedySettlements(balances, rules, everyone);
+  const openBalances = balances.filter(balance => balance.amount !== 0);
+
+  if (openBalances.length > maxExactParticipants) {
+    return greedy;
+  }
+
+  const groups = findZeroSumGroups(openBalances, performance.now() + timeBudgetMs);
+  if (!groups) {
+    return greedy;
+  }
+
+  const exact = groups.flatMap(group => greedySettlements(group, rules, everyone));
+  const exactBlocked = countBlocked(exact);
+  const greedyBlocked = countBlocked(greedy);
+
+  if (exactBlocked !== greedyBlocked) {
+    return exactBlocked < greedyBlocked ? exact : greedy;
+  }
+  return exact.length < greedy.length ? exact : greedy;
+};
+
+// Everyone with a debt pays the treasurer, who pays out everyone who is owed
+const hubSettlements = (balances: SettlementBalance[], treasurerId: string): Settlement[] => {
+  return balances
+    .filter(balance => balance.participantId !== treasurerId && balance.amount !== 0)
+    .map(balance => (balance.amount < 0
+      ? { from: balance.participantId, to: treasurerId, amount: -balance.amount }
+      : { from: treasurerId, to: balance.participantId, amount: balance.amount }));
+};
+
+// Applies the group's chosen strategy. Pairwise settling needs the direct debts between people
+// (see calculatePairwiseDebts) and can't route around a blocked transfer; neither can the hub.
+export const planSettlements = (
+  balances: SettlementBalance[],
+  pairwiseDebts: Settlement[],
+  settings: GroupSettings,
+  options: SettlementOptions = {}
+): Settlement[] => {
+  const { settlementStrategy, treasurerId } = settings;
+
+  if (settlementStrategy === 'pairwise') {
+    return flagBlocked(pairwiseDebts, settings);
+  }
+
+  if (settlementStrategy === 'hub' && treasurerId && balances.some(balance => balance.participantId === treasurerId)) {
+    return flagBlocked(hubSettlements(balances, treasurerId), settings);
+  }
+
+  return calculateSettlements(balances, settings, options);
+};
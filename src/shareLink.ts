@@ -0,0 +1,137 @@
+import type { Group, GroupBackup } from './types';
+import { createBackup, readBackup } from './backup';
+
+// Share links
+// A share link carries a whole group in the URL fragment, which browsers never send to a server.
+// The fragment is "#share=<version>.<checksum>.<data>": the group as a backup, compressed with
+// deflate and written in base64url. The CRC-32 checksum of the compressed bytes catches links
+// that were cut short or edited by hand.
+
+const SHARE_LINK_VERSION = 1;
+const SHARE_FRAGMENT_PREFIX = '#share=';
+
+// Chat apps and mail clients cut off or refuse much longer links
+export const MAX_SHARE_LINK_DATA_LENGTH = 32_000;
+
+// Stops a crafted link from expanding into something that would freeze the page
+const MAX_SHARED_JSON_BYTES = 5_000_000;
+
+const DAMAGED_LINK_ERROR = 'This link is incomplete or has been changed. Ask for the link again and make sure all of it is copied.';
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let crc = index;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+  return crc >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array): string => {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return ((crc ^ 0xffffffff) >>> 0).toString(16).padStart(8, '0');
+};
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array | null => {
+  if (!/^[A-Za-z0-9_-]+$/.test(text)) return null;
+  try {
+    const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, char => char.charCodeAt(0));
+  } catch {
+    return null;
+  }
+};
+
+const compress = async (text: string): Promise<Uint8Array> => {
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Reads the stream chunk by chunk so an oversized result is noticed before it is all in memory
+const decompress = async (bytes: Uint8Array): Promise<string | null> => {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    size += chunk.value.length;
+    if (size > MAX_SHARED_JSON_BYTES) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(chunk.value);
+  }
+
+  return new TextDecoder().decode(await new Blob(chunks).arrayBuffer());
+};
+
+export const canCreateShareLinks = (): boolean => typeof CompressionStream !== 'undefined';
+
+// A link that opens the group in any browser with DamFair. On failure the url is null and the error says why.
+export const createShareLink = async (group: Group): Promise<{ url: string | null; error: string | null }> => {
+  // The change log stays on this device; it is also often the bulk of a group
+  const bytes = await compress(JSON.stringify(createBackup({ ...group, auditLog: [] })));
+  const data = `${SHARE_LINK_VERSION}.${crc32(bytes)}.${toBase64Url(bytes)}`;
+
+  if (data.length > MAX_SHARE_LINK_DATA_LENGTH) {
+    return {
+      url: null,
+      error: `This group is too large for a link (${Math.ceil(data.length / 1000)} KB, the limit is ${MAX_SHARE_LINK_DATA_LENGTH / 1000} KB). Send a backup file instead.`
+    };
+  }
+
+  // Filters in the query string belong to this device, not to the link
+  const url = new URL(window.location.href);
+  url.search = '';
+  url.hash = `${SHARE_FRAGMENT_PREFIX.slice(1)}${data}`;
+  return { url: url.href, error: null };
+};
+
+// The encoded group in a URL fragment, or null when the fragment isn't a share link
+export const readShareFragment = (hash: string): string | null => {
+  return hash.startsWith(SHARE_FRAGMENT_PREFIX) ? hash.slice(SHARE_FRAGMENT_PREFIX.length) : null;
+};
+
+// Checks and unpacks the data of a share link. The group goes through the same migrations and
+// validation as a restored backup.
+export const readShareLink = async (data: string): Promise<{ backup: GroupBackup | null; errors: string[] }> => {
+  const [version, checksum, encoded] = data.split('.');
+
+  if (!/^\d+$/.test(version || '')) {
+    return { backup: null, errors: ['This is not a DamFair share link'] };
+  }
+  if (Number(version) > SHARE_LINK_VERSION) {
+    return { backup: null, errors: ['This link was made by a newer version of DamFair'] };
+  }
+  if (data.length > MAX_SHARE_LINK_DATA_LENGTH) {
+    return { backup: null, errors: ['This link is longer than any link DamFair creates'] };
+  }
+
+  const bytes = fromBase64Url(encoded || '');
+  if (!bytes || crc32(bytes) !== checksum) {
+    return { backup: null, errors: [DAMAGED_LINK_ERROR] };
+  }
+
+  let text: string | null;
+  try {
+    text = await decompress(bytes);
+  } catch {
+    return { backup: null, errors: [DAMAGED_LINK_ERROR] };
+  }
+  if (text === null) {
+    return { backup: null, errors: ['This link holds more data than DamFair can open'] };
+  }
+
+  return readBackup(text);
+};
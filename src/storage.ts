@@ -0,0 +1,207 @@
+import { STORAGE_KEYS } from './types';
+
+// Storage backends
+// Everything the app keeps between visits goes through a small async key-value interface, so the
+// rest of the app doesn't know or care where it ends up. IndexedDB is used whenever the browser
+// allows it: it holds far more than localStorage's ~5 MB and stores objects without serializing
+// them to JSON on the main thread. Each group is its own entry, so a change only rewrites the
+// groups it touched. localStorage remains as a fallback, e.g. in private windows that block IndexedDB.
+
+export interface StorageBackend {
+  name: string;
+  getItem: <T>(key: string) => Promise<T | null>;
+  setItem: <T>(key: string, value: T) => Promise<void>;
+  // Writes several entries at once; either all of them are stored or none are
+  setItems: (entries: Record<string, unknown>) => Promise<void>;
+  removeItem: (key: string) => Promise<void>;
+  // Removes everything the app has stored
+  clear: () => Promise<void>;
+  // Everything the app has stored, by key
+  dump: () => Promise<Record<string, unknown>>;
+}
+
+// Every key the app uses starts with this, see STORAGE_KEYS
+const KEY_PREFIX = 'damfair_';
+
+const getLocalStorageKeys = (): string[] => {
+  return Array.from({ length: localStorage.length }, (_, index) => localStorage.key(index))
+    .filter((key): key is string => key !== null && key.startsWith(KEY_PREFIX));
+};
+
+export const createLocalStorageBackend = (): StorageBackend => ({
+  name: 'localStorage',
+  getItem: async <T>(key: string) => {
+    const item = localStorage.getItem(key);
+    return item ? (JSON.parse(item) as T) : null;
+  },
+  setItem: async (key, value) => {
+    localStorage.setItem(key, JSON.stringify(value));
+  },
+  setItems: async (entries) => {
+    const previous = Object.keys(entries).map(key => [key, localStorage.getItem(key)] as const);
+    try {
+      Object.entries(entries).forEach(([key, value]) => localStorage.setItem(key, JSON.stringify(value)));
+    } catch (error) {
+      // Put back what was there so a half-finished write doesn't leave mixed data
+      previous.forEach(([key, item]) => (item === null ? localStorage.removeItem(key) : localStorage.setItem(key, item)));
+      throw error;
+    }
+  },
+  removeItem: async (key) => {
+    localStorage.removeItem(key);
+  },
+  clear: async () => {
+    getLocalStorageKeys().forEach(key => localStorage.removeItem(key));
+  },
+  // Values that aren't valid JSON are kept as the raw text
+  dump: async () => {
+    return Object.fromEntries(getLocalStorageKeys().map(key => {
+      const item = localStorage.getItem(key) || '';
+      try {
+        return [key, JSON.parse(item)];
+      } catch {
+        return [key, item];
+      }
+    }));
+  }
+});
+
+const DATABASE_NAME = 'damfair';
+const DATABASE_VERSION = 1;
+const STORE_NAME = 'entries';
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Runs the operations in one transaction and resolves once it has been committed
+const runTransaction = <T>(
+  database: IDBDatabase,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(STORE_NAME, mode);
+    const request = operation(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const createIndexedDBBackend = (database: IDBDatabase): StorageBackend => ({
+  name: 'IndexedDB',
+  getItem: async <T>(key: string) => {
+    const value = await runTransaction<T>(database, 'readonly', store => store.get(key));
+    return value ?? null;
+  },
+  setItem: async (key, value) => {
+    await runTransaction(database, 'readwrite', store => {
+      store.put(value, key);
+    });
+  },
+  setItems: async (entries) => {
+    await runTransaction(database, 'readwrite', store => {
+      Object.entries(entries).forEach(([key, value]) => store.put(value, key));
+    });
+  },
+  removeItem: async (key) => {
+    await runTransaction(database, 'readwrite', store => {
+      store.delete(key);
+    });
+  },
+  clear: async () => {
+    await runTransaction(database, 'readwrite', store => {
+      store.clear();
+    });
+  },
+  dump: async () => {
+    const entries: Record<string, unknown> = {};
+    await runTransaction(database, 'readonly', store => {
+      const request = store.openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          entries[String(cursor.key)] = cursor.value;
+          cursor.continue();
+        }
+      };
+    });
+    return entries;
+  }
+});
+
+// Copies data saved by earlier versions from localStorage, then removes what was copied there.
+// Only done while the target is still empty, so it never overwrites newer data. When the target
+// already holds data, localStorage is left alone: its entries were written while IndexedDB couldn't
+// be opened and may be newer, so they are reported on the recovery screen instead (see
+// loadLeftoverLocalData).
+const migrateFromLocalStorage = async (target: StorageBackend): Promise<void> => {
+  const keys = getLocalStorageKeys();
+  if (keys.length === 0) return;
+
+  const hasData = await target.getItem(STORAGE_KEYS.GROUPS) !== null ||
+    await target.getItem(STORAGE_KEYS.PARTICIPANTS) !== null ||
+    await target.getItem(STORAGE_KEYS.EXPENSES) !== null;
+  if (hasData) {
+    console.warn(`Leaving ${keys.length} localStorage entries in place, as ${target.name} already holds data`);
+    return;
+  }
+
+  const entries: Record<string, unknown> = {};
+  keys.forEach(key => {
+    try {
+      entries[key] = JSON.parse(localStorage.getItem(key) || 'null');
+    } catch (error) {
+      console.error(`Skipping unreadable localStorage entry (${key}):`, error);
+    }
+  });
+  await target.setItems(entries);
+  console.log(`Moved ${Object.keys(entries).length} entries from localStorage to ${target.name}`);
+
+  Object.keys(entries).forEach(key => localStorage.removeItem(key));
+};
+
+const openStorage = async (): Promise<StorageBackend> => {
+  if (typeof indexedDB !== 'undefined') {
+    try {
+      const backend = createIndexedDBBackend(await openDatabase());
+      await migrateFromLocalStorage(backend);
+      return backend;
+    } catch (error) {
+      console.error('IndexedDB is not available, falling back to localStorage:', error);
+    }
+  }
+  return createLocalStorageBackend();
+};
+
+let storage: Promise<StorageBackend> | null = null;
+
+// The backend is picked, and old data moved over, the first time storage is used
+export const getStorage = (): Promise<StorageBackend> => {
+  if (!storage) {
+    storage = openStorage();
+  }
+  return storage;
+};
+
+// Entries still in localStorage while another backend is in use, by key. Empty when localStorage
+// is the backend itself.
+export const loadLeftoverLocalData = async (): Promise<Record<string, unknown>> => {
+  const backend = await getStorage();
+  return backend.name === 'localStorage' ? {} : createLocalStorageBackend().dump();
+};
+
+export const clearLeftoverLocalData = async (): Promise<void> => {
+  const backend = await getStorage();
+  if (backend.name !== 'localStorage') {
+    await createLocalStorageBackend().clear();
+  }
+};
@@ -0,0 +1,236 @@
+import type {
+  Group,
+  SyncEntityType,
+  SyncChange,
+  SyncClock,
+  SyncSettings,
+  GroupSyncState,
+  SyncedGroupFields
+} from './types';
+import { STORAGE_KEYS } from './types';
+import { generateId, createGroup, loadFromStorage, saveToStorage, removeFromStorage } from './utils';
+import { DATA_VALIDATORS } from './schema';
+
+// Sync
+// Groups are replicated record by record through an optional sync server (server/sync-server.mjs):
+// every participant, expense, payment and recurring expense is its own record, and so are the
+// group's name and settings. Local edits are found by comparing the group with the versions this
+// device last held, queued, and pushed when the server can be reached. When two devices edit the
+// same record, the newest version wins everywhere (see isNewer). The change log isn't synced.
+
+export const EMPTY_SYNC_STATE: GroupSyncState = { cursor: 0, clock: 0, records: {}, pending: [] };
+
+export const createSyncSettings = (): SyncSettings => ({
+  serverUrl: '',
+  token: '',
+  deviceId: generateId(),
+  groupIds: []
+});
+
+export const loadSyncSettings = async (): Promise<SyncSettings> => {
+  const stored = await loadFromStorage<SyncSettings>(STORAGE_KEYS.SYNC_SETTINGS);
+  if (stored) {
+    return stored;
+  }
+  // The device id has to stay the same from the first visit on
+  const settings = createSyncSettings();
+  await saveSyncSettings(settings);
+  return settings;
+};
+
+export const saveSyncSettings = (settings: SyncSettings): Promise<void> => {
+  return saveToStorage(STORAGE_KEYS.SYNC_SETTINGS, settings);
+};
+
+export const loadSyncState = async (groupId: string): Promise<GroupSyncState> => {
+  return (await loadFromStorage<GroupSyncState>(`${STORAGE_KEYS.SYNC_STATE_PREFIX}${groupId}`)) || EMPTY_SYNC_STATE;
+};
+
+export const saveSyncState = (groupId: string, state: GroupSyncState): Promise<void> => {
+  return saveToStorage(`${STORAGE_KEYS.SYNC_STATE_PREFIX}${groupId}`, state);
+};
+
+export const removeSyncState = (groupId: string): Promise<void> => {
+  return removeFromStorage(`${STORAGE_KEYS.SYNC_STATE_PREFIX}${groupId}`);
+};
+
+// The server applies the same rule, so devices and server always agree on the winner
+export const isNewer = (version: SyncClock, than: SyncClock): boolean => {
+  return version.updatedAt !== than.updatedAt ? version.updatedAt > than.updatedAt : version.deviceId > than.deviceId;
+};
+
+const getRecordKey = (entityType: SyncEntityType, entityId: string): string => `${entityType}:${entityId}`;
+
+type SyncRecord = Pick<SyncChange, 'entityType' | 'entityId' | 'value'>;
+
+// Every record of a group, by record key
+const getGroupRecords = (group: Group): Map<string, SyncRecord> => {
+  const fields: SyncedGroupFields = {
+    name: group.name,
+    createdAt: group.createdAt,
+    archived: group.archived,
+    settings: group.settings
+  };
+  const records: SyncRecord[] = [
+    { entityType: 'group', entityId: group.id, value: fields },
+    ...group.participants.map((value): SyncRecord => ({ entityType: 'participant', entityId: value.id, value })),
+    ...group.expenses.map((value): SyncRecord => ({ entityType: 'expense', entityId: value.id, value })),
+    ...group.payments.map((value): SyncRecord => ({ entityType: 'payment', entityId: value.id, value })),
+    ...group.recurringTemplates.map((value): SyncRecord => ({ entityType: 'recurringTemplate', entityId: value.id, value }))
+  ];
+  return new Map(records.map(record => [getRecordKey(record.entityType, record.entityId), record]));
+};
+
+// Queues whatever changed in the group since the versions this device last held. Returns the same
+// state when nothing did.
+export const collectLocalChanges = (group: Group, state: GroupSyncState, deviceId: string, now: number): GroupSyncState => {
+  const current = getGroupRecords(group);
+  const changed: SyncRecord[] = [];
+
+  current.forEach((record, key) => {
+    if (state.records[key]?.json !== JSON.stringify(record.value)) {
+      changed.push(record);
+    }
+  });
+  Object.entries(state.records).forEach(([key, version]) => {
+    if (!current.has(key) && version.json !== 'null') {
+      const [entityType, entityId] = key.split(/:(.*)/s) as [SyncEntityType, string];
+      changed.push({ entityType, entityId, value: null } as SyncRecord);
+    }
+  });
+
+  if (changed.length === 0) {
+    return state;
+  }
+
+  const updatedAt = Math.max(now, state.clock + 1);
+  const changes = changed.map(record => ({ ...record, groupId: group.id, updatedAt, deviceId }) as SyncChange);
+  const records = { ...state.records };
+  changes.forEach(change => {
+    records[getRecordKey(change.entityType, change.entityId)] = { updatedAt, deviceId, json: JSON.stringify(change.value) };
+  });
+  // A queued change that is changed again only needs to be sent once
+  const changedKeys = new Set(changes.map(change => getRecordKey(change.entityType, change.entityId)));
+
+  return {
+    ...state,
+    clock: updatedAt,
+    records,
+    pending: [...state.pending.filter(change => !changedKeys.has(getRecordKey(change.entityType, change.entityId))), ...changes]
+  };
+};
+
+const isValidChange = (change: SyncChange): boolean => {
+  if (change.value === null) return true;
+  switch (change.entityType) {
+    case 'group':
+      return typeof change.value.name === 'string' &&
+        typeof change.value.createdAt === 'string' &&
+        typeof change.value.archived === 'boolean' &&
+        DATA_VALIDATORS.groupSettings(change.value.settings, 'settings').length === 0;
+    case 'participant':
+      return DATA_VALIDATORS.participant(change.value, 'participant').length === 0;
+    case 'expense':
+      return DATA_VALIDATORS.expense(change.value, 'expense').length === 0;
+    case 'payment':
+      return DATA_VALIDATORS.payment(change.value, 'payment').length === 0;
+    case 'recurringTemplate':
+      return DATA_VALIDATORS.recurringTemplate(change.value, 'recurringTemplate').length === 0;
+  }
+};
+
+const replaceById = <T extends { id: string }>(list: T[], id: string, value: T | null): T[] => {
+  const remaining = list.filter(entry => entry.id !== id);
+  if (!value) {
+    return remaining;
+  }
+  const index = list.findIndex(entry => entry.id === id);
+  return index === -1 ? [...list, value] : [...remaining.slice(0, index), value, ...remaining.slice(index)];
+};
+
+const applyRecord = (group: Group, change: SyncChange): Group => {
+  switch (change.entityType) {
+    case 'group':
+      return change.value ? { ...group, ...change.value } : group;
+    case 'participant':
+      return { ...group, participants: replaceById(group.participants, change.entityId, change.value) };
+    case 'expense':
+      return { ...group, expenses: replaceById(group.expenses, change.entityId, change.value) };
+    case 'payment':
+      return { ...group, payments: replaceById(group.payments, change.entityId, change.value) };
+    case 'recurringTemplate':
+      return { ...group, recurringTemplates: replaceById(group.recurringTemplates, change.entityId, change.value) };
+  }
+};
+
+// Applies the changes pulled from the server that are newer than what this device holds. Without
+// a local group (when joining), one is built from the changes, or null when they hold no group record.
+export const applyRemoteChanges = (
+  groupId: string,
+  group: Group | null,
+  state: GroupSyncState,
+  changes: SyncChange[]
+): { group: Group | null; state: GroupSyncState } => {
+  let next = group || { ...createGroup(''), id: groupId };
+  const records = { ...state.records };
+  const appliedKeys = new Set<string>();
+  let clock = state.clock;
+
+  changes.forEach(change => {
+    const key = getRecordKey(change.entityType, change.entityId);
+    const held = records[key];
+    clock = Math.max(clock, change.updatedAt);
+    if ((held && !isNewer(change, held)) || !isValidChange(change)) return;
+
+    next = applyRecord(next, change);
+    records[key] = { updatedAt: change.updatedAt, deviceId: change.deviceId, json: JSON.stringify(change.value) };
+    appliedKeys.add(key);
+  });
+
+  if (!group && !records[getRecordKey('group', groupId)]) {
+    return { group: null, state };
+  }
+
+  return {
+    group: appliedKeys.size > 0 ? next : group,
+    state: {
+      ...state,
+      clock,
+      records,
+      // A queued change that lost to a newer one would lose on the server too
+      pending: state.pending.filter(change => !appliedKeys.has(getRecordKey(change.entityType, change.entityId)))
+    }
+  };
+};
+
+// Server requests
+
+const request = async <T>(settings: Pick<SyncSettings, 'serverUrl' | 'token'>, path: string, init: RequestInit = {}): Promise<T> => {
+  const response = await fetch(`${settings.serverUrl.replace(/\/+$/, '')}${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(settings.token ? { Authorization: `Bearer ${settings.token}` } : {})
+    }
+  });
+  if (!response.ok) {
+    throw new Error(response.status === 401 ? 'The server refused the access token' : `The server answered with error ${response.status}`);
+  }
+  return response.json();
+};
+
+export const checkSyncServer = (settings: Pick<SyncSettings, 'serverUrl' | 'token'>): Promise<{ ok: boolean }> => {
+  return request(settings, '/health');
+};
+
+export const pushChanges = (settings: SyncSettings, groupId: string, changes: SyncChange[]): Promise<{ seq: number }> => {
+  return request(settings, `/groups/${encodeURIComponent(groupId)}/changes`, {
+    method: 'POST',
+    body: JSON.stringify({ changes })
+  });
+};
+
+// Changes the server accepted after the given sequence number, and the number to continue from
+export const pullChanges = (settings: SyncSettings, groupId: string, since: number): Promise<{ changes: SyncChange[]; seq: number }> => {
+  return request(settings, `/groups/${encodeURIComponent(groupId)}/changes?since=${since}`);
+};
@@ -4,15 +4,298 @@ export interface Participant {
   name: string;
 }
 
+export type SplitMode = 'equal' | 'exact' | 'percentage' | 'shares' | 'itemized';
+
+// A single line on an itemized receipt
+export interface ExpenseItem {
+  id: string;
+  description: string;
+  amount: number;
+  involved: string[]; // participant ids
+}
+
+// Receipt-wide charges, spread in proportion to each person's item subtotal
+export interface ExpenseCharges {
+  tax: number;
+  tip: number;
+  service: number;
+}
+
+export interface Category {
+  id: string;
+  name: string;
+  color: string; // hex colour used for badges and charts
+  icon: string; // an emoji
+}
+
+export interface ExpensePayer {
+  participantId: string;
+  amount: number;
+}
+
+// All money amounts are integers in the minor unit of their currency, e.g. cents
 export interface Expense {
   id: string;
   description: string;
   amount: number;
-  payer: string;
-  involved: string[];
+  payers: ExpensePayer[]; // amounts add up to the expense amount
+  involved: string[]; // participant ids
+  splitMode: SplitMode;
+  // participant id -> exact amount, percentage or share weight, depending on splitMode
+  splitValues: Record<string, number>;
+  // Only set for itemized expenses
+  items?: ExpenseItem[];
+  charges?: ExpenseCharges;
+  category: string; // category id, built-in or from the group settings
+  currency: string; // ISO 4217 code; every amount on the expense is in this currency
+  exchangeRate?: number; // overrides the group rate for this expense only
+  date: string; // when the money was spent, as picked by the user
+  createdAt: string; // when the expense was recorded; never edited
+  recurringTemplateId?: string; // set on expenses generated from a recurring template
+}
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+// An expense that repeats on a schedule. Occurrences are numbered from 0 at startDate;
+// skipped ones count towards maxOccurrences just like generated ones.
+export interface RecurringTemplate {
+  id: string;
+  expense: Omit<Expense, 'id' | 'date' | 'createdAt' | 'recurringTemplateId'>;
+  frequency: RecurrenceFrequency;
+  startDate: string; // first occurrence; later ones keep its day of the month and time
+  endDate?: string; // no occurrences after this day
+  maxOccurrences?: number;
+  occurrenceCount: number; // occurrences generated or skipped so far
+  paused: boolean;
+}
+
+// Money actually handed over between participants, e.g. after following the settlement plan
+export interface Payment {
+  id: string;
+  from: string; // participant id
+  to: string; // participant id
+  amount: number;
+  currency: string; // the base currency at the time the payment was recorded
   date: string;
+  note: string;
+}
+
+// Change log
+export type AuditEntityType = 'participant' | 'expense' | 'payment';
+
+export type AuditAction = 'created' | 'updated' | 'deleted';
+
+// One change to one participant, expense or payment. Entries are only ever appended: undoing a
+// change records the reverse change rather than removing the original entry.
+interface AuditEntryBase {
+  id: string;
+  at: string; // when the change was made
+  action: AuditAction;
+  entityId: string;
+  reason: string; // what the user did, e.g. "Edit expense" or "Undo delete expense"
+}
+
+export type AuditEntry = AuditEntryBase & (
+  | { entityType: 'participant'; before: Participant | null; after: Participant | null }
+  | { entityType: 'expense'; before: Expense | null; after: Expense | null }
+  | { entityType: 'payment'; before: Payment | null; after: Payment | null }
+);
+
+// Narrows the change log to one kind of entity, or to a single one; empty strings match everything
+export interface AuditFilter {
+  entityType: AuditEntityType | '';
+  entityId: string;
+}
+
+// Inclusive range of days as picked in a date input (YYYY-MM-DD); an empty end is open
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+export type ExpenseSortKey = 'date' | 'amount' | 'description' | 'category';
+
+// How the expense list is searched, filtered and sorted; kept in the URL so views can be bookmarked
+export interface ExpenseFilters {
+  search: string;
+  payerId: string;
+  involvedId: string;
+  minAmount: string; // in the base currency, as typed
+  maxAmount: string;
+  category: string;
+  sortBy: ExpenseSortKey;
+  sortDirection: 'asc' | 'desc';
+}
+
+// minimal: fewest transfers; pairwise: only between people who share expenses;
+// hub: everyone settles with a single treasurer
+export type SettlementStrategy = 'minimal' | 'pairwise' | 'hub';
+
+export interface BlockedTransfer {
+  from: string; // participant id
+  to: string; // participant id
+}
+
+export interface GroupSettings {
+  baseCurrency: string; // balances and settlements are computed in this currency
+  // currency code -> value of one unit in the base currency, entered by hand
+  exchangeRates: Record<string, number>;
+  settlementStrategy: SettlementStrategy;
+  treasurerId?: string; // participant id, used by the hub strategy
+  blockedTransfers: BlockedTransfer[]; // transfers the settlement plan should avoid
+  households: Record<string, string>; // participant id -> household name
+  preferSameHousehold: boolean;
+  categories: Category[]; // custom categories, on top of the built-in ones
+}
+
+export interface Group {
+  id: string;
+  version: number; // data format version, see CURRENT_DATA_VERSION and the migrations in utils.ts
+  name: string;
+  createdAt: string;
+  archived: boolean;
+  participants: Participant[];
+  expenses: Expense[];
+  payments: Payment[];
+  recurringTemplates: RecurringTemplate[];
+  auditLog: AuditEntry[]; // oldest first
+  settings: GroupSettings;
+}
+
+// Stored data that failed validation on load; it is left untouched in storage
+export interface DataProblem {
+  key: string; // storage key
+  name: string; // the group name when it could be read, otherwise the key
+  errors: string[];
+}
+
+export interface LoadedGroups {
+  groups: Group[]; // the groups that loaded cleanly
+  problems: DataProblem[];
+}
+
+// Lossless copy of one group, as written to and read from backup files
+export interface GroupBackup {
+  format: 'damfair-group-backup';
+  formatVersion: number; // layout of this wrapper; the group carries its own data version
+  exportedAt: string;
+  group: Group;
+}
+
+// replace: the backup takes the place of the current group; new: it is added as another group;
+// merge: whatever the current group doesn't have yet is added to it
+export type RestoreMode = 'replace' | 'new' | 'merge';
+
+// Which version wins when merging something both sides have changed
+export type RestoreConflictChoice = 'current' | 'backup';
+
+// How something in the backup compares with the current group. "missing" is only in the current group.
+export type RestoreStatus = 'new' | 'unchanged' | 'changed' | 'missing';
+
+export interface RestorePreviewItem {
+  id: string;
+  name: string;
+  status: RestoreStatus;
+}
+
+export interface RestorePreview {
+  participants: RestorePreviewItem[];
+  expenses: RestorePreviewItem[];
+  payments: RestorePreviewItem[];
+  recurringTemplates: RestorePreviewItem[];
+}
+
+// CSV import
+export type CsvField = 'description' | 'amount' | 'date' | 'payer' | 'involved';
+
+// Column index for each expense field; null when the file has no such column
+export type CsvColumnMapping = Record<CsvField, number | null>;
+
+export type CsvDateFormat = 'ymd' | 'dmy' | 'mdy';
+
+export interface CsvImportOptions {
+  delimiter: string;
+  hasHeader: boolean;
+  decimalSeparator: '.' | ',';
+  dateFormat: CsvDateFormat;
 }
 
+// A row of fields and the line of the file it starts on
+export interface CsvRow {
+  cells: string[];
+  line: number; // 1-based; later than the row's position after blank lines or quoted line breaks
+}
+
+// One line of the file, turned into an expense in the group's base currency
+export interface CsvImportRow {
+  line: number; // 1-based line in the file
+  expense: Expense;
+  unknownNames: string[]; // payer or involved names that match no participant
+  errors: string[]; // empty when the row can be imported
+}
+
+// Imports from other apps
+export type ImportSource = 'splitwise' | 'tricount';
+
+// new: the import becomes a group of its own; current: it is added to the open group
+export type ImportTarget = 'new' | 'current';
+
+// Something in the export that DamFair can't represent exactly
+export interface ImportIssue {
+  line: number | null; // 1-based line in the file; null when it concerns the whole file
+  message: string;
+  skipped: boolean; // true when the line was left out, false when it was imported with a caveat
+}
+
+export interface AppImport {
+  source: ImportSource;
+  baseCurrency: string; // the currency the export settles in
+  newParticipants: Participant[]; // people who aren't in the target group yet
+  expenses: Expense[];
+  payments: Payment[];
+  issues: ImportIssue[];
+}
+
+// Sync
+export type SyncEntityType = 'group' | 'participant' | 'expense' | 'payment' | 'recurringTemplate';
+
+// The parts of a group that sync as one record; the change log stays on each device
+export type SyncedGroupFields = Pick<Group, 'name' | 'createdAt' | 'archived' | 'settings'>;
+
+// Who wrote a version of a record, and when. Of two versions the one with the later updatedAt
+// wins, and on a tie the one with the higher deviceId, so every device settles on the same one.
+export interface SyncClock {
+  updatedAt: number; // ms since the epoch, never lower than any clock the device has seen
+  deviceId: string;
+}
+
+// The latest version of one record; a null value means it was deleted
+export type SyncChange = SyncClock & { groupId: string; entityId: string } & (
+  | { entityType: 'group'; value: SyncedGroupFields | null }
+  | { entityType: 'participant'; value: Participant | null }
+  | { entityType: 'expense'; value: Expense | null }
+  | { entityType: 'payment'; value: Payment | null }
+  | { entityType: 'recurringTemplate'; value: RecurringTemplate | null }
+);
+
+export interface SyncSettings {
+  serverUrl: string; // empty when syncing is off
+  token: string; // sent as a bearer token, for servers started with one
+  deviceId: string;
+  groupIds: string[]; // groups kept in sync on this device
+}
+
+// What this device knows about a synced group, kept between visits
+export interface GroupSyncState {
+  cursor: number; // sequence number of the last change pulled from the server
+  clock: number; // highest updatedAt seen, so local changes always sort after what was seen
+  // record key -> the version this device holds, with its value as JSON ("null" once deleted)
+  records: Record<string, SyncClock & { json: string }>;
+  pending: SyncChange[]; // local changes the server hasn't accepted yet, oldest first
+}
+
+export type SyncStatus = 'off' | 'idle' | 'syncing' | 'offline' | 'error';
+
 // Component prop types
 export interface ParticipantsManagerProps {
   onParticipantsChange: (participants: Participant[]) => void;
@@ -20,34 +303,50 @@ export interface ParticipantsManagerProps {
 
 export interface ExpenseFormProps {
   participants: Participant[];
+  settings: GroupSettings;
   onExpenseAdded: (expense: Expense) => void;
+  onRecurringTemplateAdded: (template: RecurringTemplate) => void;
+  expenseToEdit?: Expense | null;
+  onExpenseUpdated?: (expense: Expense) => void;
+  onCancelEdit?: () => void;
 }
 
 export interface ExpenseListProps {
   onExpenseDeleted: (expenseId: string) => void;
+  onExpenseEdit?: (expense: Expense) => void;
 }
 
-// Calculation result types
+// Calculation result types, in minor units of the base currency
 export interface Balance {
+  participantId: string;
   name: string;
   amount: number;
 }
 
 export interface Settlement {
-  from: string;
-  to: string;
+  from: string; // participant id
+  to: string; // participant id
   amount: number;
+  blocked?: boolean; // the plan could not avoid a blocked transfer here
 }
 
 export interface ParticipantStats {
+  participantId: string;
   name: string;
   totalPaid: number;
   totalOwed: number;
   netBalance: number;
 }
 
-// localStorage keys
+// Storage keys, also used as localStorage keys by the fallback backend
 export const STORAGE_KEYS = {
+  // Legacy single-group keys, migrated into a default group on first load
   PARTICIPANTS: 'damfair_participants',
-  EXPENSES: 'damfair_expenses'
+  EXPENSES: 'damfair_expenses',
+  GROUPS: 'damfair_groups',
+  ACTIVE_GROUP: 'damfair_active_group',
+  HISTORY: 'damfair_history',
+  GROUP_PREFIX: 'damfair_group_',
+  SYNC_SETTINGS: 'damfair_sync_settings',
+  SYNC_STATE_PREFIX: 'damfair_sync_state_'
 } as const; 
\ No newline at end of file
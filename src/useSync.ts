@@ -0,0 +1,242 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { Group, GroupSyncState, SyncSettings, SyncStatus } from './types';
+import {
+  EMPTY_SYNC_STATE,
+  loadSyncSettings,
+  saveSyncSettings,
+  loadSyncState,
+  saveSyncState,
+  removeSyncState,
+  collectLocalChanges,
+  applyRemoteChanges,
+  checkSyncServer,
+  pushChanges,
+  pullChanges
+} from './sync';
+
+// How often synced groups are pulled while the app is open
+const SYNC_INTERVAL_MS = 30_000;
+// Local edits are pushed once they have settled for this long
+const PUSH_DELAY_MS = 1_000;
+
+// Keeps the synced groups in step with the sync server. Changes pulled from other devices are
+// handed to commitGroups like any other change, so they can be undone and show up in the change log.
+// With no server configured this does nothing, and the app works as before.
+export const useSync = (
+  groups: Group[],
+  isInitialized: boolean,
+  commitGroups: (label: string, nextGroups: Group[]) => void
+) => {
+  const [settings, setSettings] = useState<SyncSettings | null>(null);
+  const [status, setStatus] = useState<SyncStatus>('idle');
+  const [error, setError] = useState('');
+  const [lastSyncedAt, setLastSyncedAt] = useState<number | null>(null);
+  const [pendingCount, setPendingCount] = useState(0);
+  const states = useRef(new Map<string, GroupSyncState>());
+  const isSyncing = useRef(false);
+  const pushTimer = useRef<number | undefined>(undefined);
+  // Syncing finishes after later renders, so it works with the latest groups
+  const latestGroups = useRef(groups);
+  const latestCommitGroups = useRef(commitGroups);
+
+  useEffect(() => {
+    latestGroups.current = groups;
+    latestCommitGroups.current = commitGroups;
+  });
+
+  const countPending = () => Array.from(states.current.values()).reduce((sum, state) => sum + state.pending.length, 0);
+
+  const setGroupState = (groupId: string, state: GroupSyncState) => {
+    states.current.set(groupId, state);
+    saveSyncState(groupId, state);
+  };
+
+  const updateSettings = (next: SyncSettings) => {
+    setSettings(next);
+    saveSyncSettings(next);
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      const storedSettings = await loadSyncSettings();
+      const storedStates = await Promise.all(storedSettings.groupIds.map(loadSyncState));
+      if (cancelled) return;
+
+      storedSettings.groupIds.forEach((groupId, index) => states.current.set(groupId, storedStates[index]));
+      setSettings(storedSettings);
+      setPendingCount(countPending());
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Pushes queued changes, then pulls and applies what other devices did. When the server can't be
+  // reached, the queue is kept for the next attempt.
+  const syncNow = useCallback(async () => {
+    if (!settings?.serverUrl || settings.groupIds.length === 0 || isSyncing.current) return;
+    isSyncing.current = true;
+    setStatus('syncing');
+
+    try {
+      const updatedGroups = new Map<string, Group>();
+
+      for (const groupId of settings.groupIds) {
+        const pushed = states.current.get(groupId)?.pending || [];
+        if (pushed.length > 0) {
+          await pushChanges(settings, groupId, pushed);
+        }
+        const { changes, seq } = await pullChanges(settings, groupId, states.current.get(groupId)?.cursor || 0);
+
+        // Edits made while waiting for the server are in the latest state and stay queued
+        const latest = states.current.get(groupId) || EMPTY_SYNC_STATE;
+        const group = latestGroups.current.find(candidate => candidate.id === groupId) || null;
+        const result = applyRemoteChanges(groupId, group, {
+          ...latest,
+          cursor: seq,
+          pending: latest.pending.filter(change => !pushed.includes(change))
+        }, changes);
+        setGroupState(groupId, result.state);
+        if (group && result.group && result.group !== group) {
+          updatedGroups.set(groupId, result.group);
+        }
+      }
+
+      if (updatedGroups.size > 0) {
+        latestCommitGroups.current(
+          'Sync changes from other devices',
+          latestGroups.current.map(group => updatedGroups.get(group.id) || group)
+        );
+      }
+      setStatus('idle');
+      setError('');
+      setLastSyncedAt(Date.now());
+    } catch (syncError) {
+      console.error('Error syncing:', syncError);
+      setStatus(navigator.onLine ? 'error' : 'offline');
+      setError(syncError instanceof Error ? syncError.message : String(syncError));
+    } finally {
+      isSyncing.current = false;
+      setPendingCount(countPending());
+    }
+  }, [settings]);
+
+  // Queue local edits to synced groups
+  useEffect(() => {
+    if (!isInitialized || !settings?.serverUrl) return;
+
+    let hasChanges = false;
+    settings.groupIds.forEach(groupId => {
+      const group = groups.find(candidate => candidate.id === groupId);
+      const state = states.current.get(groupId) || EMPTY_SYNC_STATE;
+      // A group deleted on this device stays on the server for the others
+      if (!group) return;
+
+      const next = collectLocalChanges(group, state, settings.deviceId, Date.now());
+      if (next !== state) {
+        setGroupState(groupId, next);
+        hasChanges = true;
+      }
+    });
+
+    if (hasChanges) {
+      setPendingCount(countPending());
+      window.clearTimeout(pushTimer.current);
+      pushTimer.current = window.setTimeout(syncNow, PUSH_DELAY_MS);
+    }
+  }, [groups, settings, isInitialized, syncNow]);
+
+  // Sync on start, now and then, and as soon as the connection comes back
+  useEffect(() => {
+    if (!isInitialized || !settings?.serverUrl) return;
+
+    syncNow();
+    const interval = window.setInterval(syncNow, SYNC_INTERVAL_MS);
+    window.addEventListener('online', syncNow);
+    return () => {
+      window.clearInterval(interval);
+      window.clearTimeout(pushTimer.current);
+      window.removeEventListener('online', syncNow);
+    };
+  }, [isInitialized, settings, syncNow]);
+
+  // Returns an error message, or null once connected
+  const connect = async (serverUrl: string, token: string): Promise<string | null> => {
+    if (!settings) return null;
+    try {
+      await checkSyncServer({ serverUrl, token });
+    } catch (connectError) {
+      console.error('Error reaching sync server:', connectError);
+      // fetch fails with a TypeError when nothing answers; anything else is the server's reply
+      return connectError instanceof TypeError || !(connectError instanceof Error)
+        ? 'No sync server answered at this address'
+        : connectError.message;
+    }
+    updateSettings({ ...settings, serverUrl: serverUrl.trim(), token: token.trim() });
+    return null;
+  };
+
+  // Stops syncing; what is queued stays queued until a server is connected again
+  const disconnect = () => {
+    if (settings) {
+      updateSettings({ ...settings, serverUrl: '' });
+    }
+    setStatus('idle');
+    setError('');
+  };
+
+  const setGroupSynced = (groupId: string, isSynced: boolean) => {
+    if (!settings) return;
+    if (isSynced) {
+      updateSettings({ ...settings, groupIds: [...settings.groupIds, groupId] });
+    } else {
+      states.current.delete(groupId);
+      removeSyncState(groupId);
+      updateSettings({ ...settings, groupIds: settings.groupIds.filter(id => id !== groupId) });
+      setPendingCount(countPending());
+    }
+  };
+
+  // Adds a group from the server by its sync code; returns an error message, or null on success
+  const joinGroup = async (code: string): Promise<string | null> => {
+    const groupId = code.trim();
+    if (!settings?.serverUrl) return 'Connect to a sync server first';
+    if (settings.groupIds.includes(groupId)) return 'This group is already synced on this device';
+    if (latestGroups.current.some(group => group.id === groupId)) {
+      setGroupSynced(groupId, true);
+      return null;
+    }
+
+    try {
+      const { changes, seq } = await pullChanges(settings, groupId, 0);
+      const result = applyRemoteChanges(groupId, null, { ...EMPTY_SYNC_STATE, cursor: seq }, changes);
+      if (!result.group) {
+        return 'There is no group with this code on the server';
+      }
+      setGroupState(groupId, result.state);
+      latestCommitGroups.current('Join synced group', [...latestGroups.current, result.group]);
+      updateSettings({ ...settings, groupIds: [...settings.groupIds, groupId] });
+      return null;
+    } catch (joinError) {
+      console.error('Error joining synced group:', joinError);
+      return 'The sync server could not be reached';
+    }
+  };
+
+  return {
+    settings,
+    status: settings?.serverUrl ? status : 'off',
+    error,
+    lastSyncedAt,
+    pendingCount,
+    syncNow,
+    connect,
+    disconnect,
+    setGroupSynced,
+    joinGroup
+  };
+};
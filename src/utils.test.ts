@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import type { Expense, Group } from './types';
+import { changeBaseCurrency, createGroup, toBaseCurrency } from './utils';
+
+const people = [{ id: 'ann', name: 'Ann' }, { id: 'bob', name: 'Bob' }];
+
+const createExpense = (id: string, amount: number, currency: string, exchangeRate?: number): Expense => ({
+  id,
+  description: id,
+  amount,
+  payers: [{ participantId: 'ann', amount }],
+  involved: ['ann', 'bob'],
+  splitMode: 'equal',
+  splitValues: {},
+  category: 'other',
+  currency,
+  ...(exchangeRate ? { exchangeRate } : {}),
+  date: '2024-03-01T12:00:00.000Z',
+  createdAt: '2024-03-01T12:00:00.000Z'
+});
+
+const createTestGroup = (baseCurrency: string, exchangeRates: Record<string, number>, expenses: Expense[]): Group => {
+  const group = createGroup('Trip', people, expenses);
+  return { ...group, settings: { ...group.settings, baseCurrency, exchangeRates } };
+};
+
+describe('changeBaseCurrency', () => {
+  it('converts the group rates and the rates set on expenses', () => {
+    // One EUR is 1.10 USD
+    const group = createTestGroup('USD', { EUR: 1.1, GBP: 1.32 }, [
+      createExpense('dollars', 11000, 'USD'),
+      createExpense('pounds', 10000, 'GBP'),
+      createExpense('fixed pounds', 10000, 'GBP', 1.3),
+      createExpense('fixed euros', 10000, 'EUR', 1.1)
+    ]);
+
+    const changed = changeBaseCurrency(group, 'EUR');
+    expect(changed.settings.baseCurrency).toBe('EUR');
+    expect(changed.settings.exchangeRates).toEqual({ USD: 1 / 1.1, GBP: 1.32 / 1.1 });
+    expect(changed.expenses[3]).not.toHaveProperty('exchangeRate');
+
+    const inBase = Object.fromEntries(changed.expenses.map(expense => [expense.id, toBaseCurrency(expense.amount, expense, changed.settings)]));
+    expect(inBase).toEqual({ 'dollars': 10000, 'pounds': 12000, 'fixed pounds': 11818, 'fixed euros': 10000 });
+  });
+
+  it('converts the rates set on recurring templates', () => {
+    const group = createTestGroup('USD', { EUR: 1.1 }, []);
+    const changed = changeBaseCurrency({
+      ...group,
+      recurringTemplates: [{
+        id: 'monthly-rent',
+        expense: createExpense('rent', 10000, 'GBP', 1.3),
+        frequency: 'monthly',
+        startDate: '2024-03-01T12:00:00.000Z',
+        occurrenceCount: 0,
+        paused: false
+      }]
+    }, 'EUR');
+
+    expect(changed.recurringTemplates[0].expense.exchangeRate).toBeCloseTo(1.3 / 1.1);
+  });
+});
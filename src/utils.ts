@@ -1,47 +1,575 @@
-import type { Participant, Expense } from './types';
+import type {
+  Participant,
+  Expense,
+  Category,
+  ExpensePayer,
+  ExpenseItem,
+  ExpenseCharges,
+  Payment,
+  RecurrenceFrequency,
+  RecurringTemplate,
+  AuditEntry,
+  DataProblem,
+  LoadedGroups,
+  DateRange,
+  ExpenseFilters,
+  ExpenseSortKey,
+  Group,
+  GroupSettings,
+  Settlement,
+  SettlementStrategy,
+  SplitMode
+} from './types';
 import { STORAGE_KEYS } from './types';
+import { getStorage, loadLeftoverLocalData, clearLeftoverLocalData } from './storage';
+import { validateGroupData } from './schema';
 
-// localStorage utilities
-export const loadFromStorage = <T>(key: string): T | null => {
+// Storage utilities
+// Reads and writes go to whichever backend getStorage picked, see storage.ts
+export const loadFromStorage = async <T>(key: string): Promise<T | null> => {
   try {
-    const item = localStorage.getItem(key);
-    console.log(`Loading from localStorage (${key}):`, item);
-    return item ? JSON.parse(item) : null;
+    const storage = await getStorage();
+    const item = await storage.getItem<T>(key);
+    console.log(`Loading from ${storage.name} (${key}):`, item);
+    return item;
   } catch (error) {
-    console.error(`Error loading from localStorage (${key}):`, error);
+    console.error(`Error loading from storage (${key}):`, error);
     return null;
   }
 };
 
-export const saveToStorage = <T>(key: string, data: T): void => {
+export const saveToStorage = async <T>(key: string, data: T): Promise<void> => {
   try {
-    console.log(`Saving to localStorage (${key}):`, data);
-    localStorage.setItem(key, JSON.stringify(data));
+    const storage = await getStorage();
+    console.log(`Saving to ${storage.name} (${key}):`, data);
+    await storage.setItem(key, data);
   } catch (error) {
-    console.error(`Error saving to localStorage (${key}):`, error);
+    console.error(`Error saving to storage (${key}):`, error);
   }
 };
 
-export const clearStorage = (): void => {
-  localStorage.removeItem(STORAGE_KEYS.PARTICIPANTS);
-  localStorage.removeItem(STORAGE_KEYS.EXPENSES);
+export const removeFromStorage = async (key: string): Promise<void> => {
+  try {
+    await (await getStorage()).removeItem(key);
+  } catch (error) {
+    console.error(`Error removing from storage (${key}):`, error);
+  }
+};
+
+export const clearStorage = async (): Promise<void> => {
+  try {
+    await (await getStorage()).clear();
+  } catch (error) {
+    console.error('Error clearing storage:', error);
+  }
+};
+
+export const generateId = (): string => {
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+};
+
+// File utilities
+export const downloadJson = (data: unknown, fileName: string): void => {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Group utilities
+export const DEFAULT_GROUP_NAME = 'My Group';
+
+export const getGroupStorageKey = (groupId: string): string => {
+  return `${STORAGE_KEYS.GROUP_PREFIX}${groupId}`;
+};
+
+export const createGroup = (
+  name: string,
+  participants: Participant[] = [],
+  expenses: Expense[] = []
+): Group => ({
+  id: generateId(),
+  version: CURRENT_DATA_VERSION,
+  name: name.trim() || DEFAULT_GROUP_NAME,
+  createdAt: new Date().toISOString(),
+  archived: false,
+  participants,
+  expenses,
+  payments: [],
+  recurringTemplates: [],
+  auditLog: [],
+  settings: createDefaultSettings()
+});
+
+export const createDefaultSettings = (): GroupSettings => ({
+  baseCurrency: DEFAULT_CURRENCY,
+  exchangeRates: {},
+  settlementStrategy: 'minimal',
+  blockedTransfers: [],
+  households: {},
+  preferSameHousehold: false,
+  categories: []
+});
+
+export const duplicateGroup = (group: Group): Group => ({
+  ...structuredClone(group),
+  id: generateId(),
+  name: `${group.name} (copy)`,
+  createdAt: new Date().toISOString(),
+  archived: false,
+  // The copy starts its own history
+  auditLog: []
+});
+
+export const validateGroupName = (name: string): string | null => {
+  if (!name.trim()) {
+    return 'Please enter a group name';
+  }
+
+  return null;
+};
+
+export const saveGroup = (group: Group): Promise<void> => {
+  return saveToStorage(getGroupStorageKey(group.id), group);
+};
+
+export const removeGroupFromStorage = (groupId: string): Promise<void> => {
+  return removeFromStorage(getGroupStorageKey(groupId));
+};
+
+export const saveGroupIndex = (groups: Group[]): Promise<void> => {
+  return saveToStorage(STORAGE_KEYS.GROUPS, groups.map(group => group.id));
+};
+
+export const loadActiveGroupId = (): Promise<string | null> => {
+  return loadFromStorage<string>(STORAGE_KEYS.ACTIVE_GROUP);
+};
+
+export const saveActiveGroupId = (groupId: string): Promise<void> => {
+  return saveToStorage(STORAGE_KEYS.ACTIVE_GROUP, groupId);
+};
+
+// Moves data stored under the pre-groups single-dataset keys into a default group. Damaged data is
+// reported and left where it is.
+const migrateLegacyData = async (): Promise<LoadedGroups> => {
+  const participants = await loadFromStorage<Participant[]>(STORAGE_KEYS.PARTICIPANTS);
+  const expenses = await loadFromStorage<StoredExpense[]>(STORAGE_KEYS.EXPENSES);
+
+  if (!participants && !expenses) {
+    return { groups: [], problems: [] };
+  }
+
+  // The single-dataset keys predate versioning and always hold decimal amounts
+  const { group, errors } = upgradeStoredGroup({
+    ...createGroup(DEFAULT_GROUP_NAME, participants || []),
+    version: 1,
+    expenses: expenses || []
+  });
+  if (!group) {
+    return { groups: [], problems: [{ key: STORAGE_KEYS.EXPENSES, name: 'Data from an older version', errors }] };
+  }
+
+  await saveGroup(group);
+  await saveGroupIndex([group]);
+  await removeFromStorage(STORAGE_KEYS.PARTICIPANTS);
+  await removeFromStorage(STORAGE_KEYS.EXPENSES);
+
+  return { groups: [group], problems: [] };
 };
 
 // Data loading utilities
-export const loadParticipants = (): Participant[] => {
-  return loadFromStorage<Participant[]>(STORAGE_KEYS.PARTICIPANTS) || [];
+const loadStoredGroups = async (): Promise<LoadedGroups> => {
+  const groupIds = await loadFromStorage<unknown>(STORAGE_KEYS.GROUPS);
+
+  if (groupIds === null) {
+    return migrateLegacyData();
+  }
+  if (!Array.isArray(groupIds) || !groupIds.every(groupId => typeof groupId === 'string')) {
+    return { groups: [], problems: [{ key: STORAGE_KEYS.GROUPS, name: 'List of groups', errors: ['The list of groups is damaged'] }] };
+  }
+
+  const groups: Group[] = [];
+  const problems: DataProblem[] = [];
+
+  for (const groupId of groupIds) {
+    const key = getGroupStorageKey(groupId);
+    let stored: unknown;
+    try {
+      stored = await (await getStorage()).getItem<unknown>(key);
+    } catch (error) {
+      problems.push({ key, name: key, errors: [`Could not be read: ${describeError(error)}`] });
+      continue;
+    }
+    if (stored === null) continue;
+
+    const { group, errors } = upgradeStoredGroup(stored);
+    if (group) {
+      groups.push(group);
+    } else {
+      const name = (stored as Partial<Group>).name;
+      problems.push({ key, name: typeof name === 'string' ? name : key, errors });
+    }
+  }
+
+  return { groups, problems };
 };
 
-export const loadExpenses = (): Expense[] => {
-  return loadFromStorage<Expense[]>(STORAGE_KEYS.EXPENSES) || [];
+// Problem key for entries left in localStorage next to IndexedDB; see migrateFromLocalStorage
+const LEFTOVER_LOCAL_DATA_KEY = 'localStorage';
+
+const findLeftoverLocalData = async (): Promise<DataProblem | null> => {
+  let count: number;
+  try {
+    count = Object.keys(await loadLeftoverLocalData()).length;
+  } catch (error) {
+    console.error('Error reading leftover localStorage entries:', error);
+    return null;
+  }
+  return count === 0 ? null : {
+    key: LEFTOVER_LOCAL_DATA_KEY,
+    name: 'Data saved while IndexedDB was unavailable',
+    errors: [
+      `${count} ${count === 1 ? 'entry was' : 'entries were'} saved to localStorage while IndexedDB couldn't be opened. ` +
+      'They may hold newer changes than what loaded, but were not moved over because that would replace it.'
+    ]
+  };
+};
+
+export const loadGroups = async (): Promise<LoadedGroups> => {
+  const loaded = await loadStoredGroups();
+  const leftovers = await findLeftoverLocalData();
+  return leftovers ? { ...loaded, problems: [...loaded.problems, leftovers] } : loaded;
+};
+
+// Deletes what the recovery screen reported, once the user chose to continue without it
+export const discardProblemData = async (key: string): Promise<void> => {
+  if (key !== LEFTOVER_LOCAL_DATA_KEY) {
+    return removeFromStorage(key);
+  }
+  try {
+    await clearLeftoverLocalData();
+  } catch (error) {
+    console.error('Error removing leftover localStorage entries:', error);
+  }
+};
+
+// Everything the app has stored, as it was stored, for the user to keep when it can't be loaded.
+// Entries left in localStorage are added under their own key.
+export const loadRawData = async (): Promise<Record<string, unknown>> => {
+  const data = await (await getStorage()).dump();
+  const leftovers = await loadLeftoverLocalData();
+  return Object.keys(leftovers).length > 0 ? { ...data, [LEFTOVER_LOCAL_DATA_KEY]: leftovers } : data;
+};
+
+const describeError = (error: unknown): string => {
+  return error instanceof Error ? error.message : String(error);
+};
+
+// Expenses as older versions stored them: a single payer, no split details, no currency and
+// no separate record of when they were entered
+type StoredExpense = Omit<Expense, 'payers' | 'splitMode' | 'splitValues' | 'category' | 'currency' | 'createdAt'> & {
+  payer?: string;
+  payers?: ExpensePayer[];
+  splitMode?: SplitMode;
+  splitValues?: Record<string, number>;
+  category?: string;
+  currency?: string;
+  createdAt?: string;
+};
+
+type StoredGroup = Omit<Group, 'version' | 'expenses' | 'payments' | 'recurringTemplates' | 'auditLog' | 'settings'> & {
+  version?: number;
+  expenses: StoredExpense[];
+  payments?: Payment[];
+  recurringTemplates?: RecurringTemplate[];
+  auditLog?: AuditEntry[];
+  settings: Partial<GroupSettings>;
+};
+
+// Version 1 stored decimal amounts in major units. Each part is rounded and then re-split over the
+// rounded total, so payers, exact splits and receipts still add up to the cent.
+const convertExpenseToMinorUnits = <T extends Pick<Expense, 'amount' | 'payers' | 'splitMode' | 'splitValues' | 'currency' | 'items' | 'charges'>>(
+  expense: T
+): T => {
+  const toUnits = (value: number) => toMinorUnits(value, expense.currency);
+  const items = expense.items?.map(item => ({ ...item, amount: toUnits(item.amount) }));
+  const charges = expense.charges && {
+    tax: toUnits(expense.charges.tax),
+    tip: toUnits(expense.charges.tip),
+    service: toUnits(expense.charges.service)
+  };
+  const amount = items ? getItemizedTotals(items, charges).total : toUnits(expense.amount);
+
+  const paid = allocateAmount(amount, expense.payers.map(payer => payer.amount));
+  const payers = expense.payers.map((payer, index) => ({ ...payer, amount: paid[index] }));
+
+  let splitValues = expense.splitValues;
+  if (expense.splitMode === 'exact') {
+    const ids = Object.keys(expense.splitValues);
+    const parts = allocateAmount(amount, ids.map(id => expense.splitValues[id]));
+    splitValues = Object.fromEntries(ids.map((id, index) => [id, parts[index]]));
+  }
+
+  return { ...expense, amount, payers, splitValues, ...(items && { items }), ...(charges && { charges }) };
+};
+
+// Version 2: participants referenced by id, several payers, split modes, a currency per expense and
+// every amount in integer minor units
+const migrateToVersion2 = (group: StoredGroup): StoredGroup => {
+  const ids = new Set(group.participants.map(participant => participant.id));
+  const idsByName = new Map(group.participants.map(participant => [participant.name.toLowerCase(), participant.id]));
+
+  // Older expenses referenced participants by name; point them at participant ids instead
+  const toId = (ref: string): string => {
+    if (ids.has(ref)) return ref;
+    return idsByName.get(ref.toLowerCase()) || ref;
+  };
+
+  const expenses = group.expenses.map(expense => {
+    const { payer, payers, ...rest } = expense;
+    return convertExpenseToMinorUnits({
+      ...rest,
+      payers: payers || (payer ? [{ participantId: toId(payer), amount: expense.amount }] : []),
+      involved: expense.involved.map(toId),
+      // Expenses saved before split modes existed were always split equally
+      splitMode: expense.splitMode || 'equal',
+      splitValues: expense.splitValues || {},
+      // Amounts used to be implicitly in the group's only currency
+      currency: expense.currency || group.settings.baseCurrency || DEFAULT_CURRENCY
+    });
+  });
+
+  return { ...group, expenses };
+};
+
+// Version 3: fills in everything added to version 2 data without a version bump: categories, when
+// an expense was recorded, payments, recurring expenses, the change log and newer settings
+const migrateToVersion3 = (group: StoredGroup): StoredGroup => ({
+  ...group,
+  settings: { ...createDefaultSettings(), ...group.settings },
+  payments: group.payments || [],
+  recurringTemplates: group.recurringTemplates || [],
+  auditLog: group.auditLog || [],
+  expenses: group.expenses.map(expense => ({
+    ...expense,
+    category: expense.category || DEFAULT_CATEGORY_ID,
+    // The date used to be stamped when the expense was saved
+    createdAt: expense.createdAt || expense.date
+  }))
+});
+
+// Each migration takes a group from the version before it to its own version, in order. Groups
+// saved before versioning count as version 1. Add new migrations to the end.
+const MIGRATIONS: { version: number; migrate: (group: StoredGroup) => StoredGroup }[] = [
+  { version: 2, migrate: migrateToVersion2 },
+  { version: 3, migrate: migrateToVersion3 }
+];
+
+// Stamped on every saved group
+export const CURRENT_DATA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Runs the migrations a stored group still needs. The result is only known to be a valid Group
+// once it has been validated, see upgradeStoredGroup.
+const migrateGroup = (stored: StoredGroup): Group => {
+  const migrated = MIGRATIONS
+    .filter(migration => migration.version > (stored.version ?? 1))
+    .reduce((group, migration) => ({ ...migration.migrate(group), version: migration.version }), stored);
+  return migrated as Group;
+};
+
+// Migrates and validates a group read from storage or a file. On failure the group is null and the
+// errors say what is wrong, for the user to see.
+export const upgradeStoredGroup = (stored: unknown): { group: Group | null; errors: string[] } => {
+  if (typeof stored !== 'object' || stored === null || Array.isArray(stored)) {
+    return { group: null, errors: ['The group should be an object'] };
+  }
+
+  const version = (stored as StoredGroup).version ?? 1;
+  if (typeof version !== 'number' || version > CURRENT_DATA_VERSION) {
+    return { group: null, errors: [`Saved by a newer version of DamFair (data version ${version})`] };
+  }
+
+  let group: Group;
+  try {
+    group = migrateGroup(stored as StoredGroup);
+  } catch (error) {
+    return { group: null, errors: [`Could not be upgraded from data version ${version}: ${describeError(error)}`] };
+  }
+
+  const errors = validateGroupData(group);
+  return { group: errors.length === 0 ? group : null, errors };
+};
+
+// Money utilities
+// Amounts are stored and calculated as integers in the currency's minor unit (cents for USD,
+// whole yen for JPY). Only the form inputs and formatCurrency deal in decimal amounts.
+// Building a NumberFormat is slow and every amount conversion needs this, so it is worked out once
+// per currency. Invalid codes still throw, and aren't cached.
+const currencyDecimals = new Map<string, number>();
+
+export const getCurrencyDecimals = (currency: string): number => {
+  let decimals = currencyDecimals.get(currency);
+  if (decimals === undefined) {
+    decimals = new Intl.NumberFormat('en-US', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+    currencyDecimals.set(currency, decimals);
+  }
+  return decimals;
+};
+
+export const toMinorUnits = (value: number, currency: string): number => {
+  return Math.round(value * 10 ** getCurrencyDecimals(currency));
+};
+
+export const fromMinorUnits = (amount: number, currency: string): number => {
+  return amount / 10 ** getCurrencyDecimals(currency);
+};
+
+// Parses a decimal amount typed into an input, e.g. "12.50" -> 1250
+export const parseAmount = (input: string, currency: string): number => {
+  return toMinorUnits(parseFloat(input) || 0, currency);
+};
+
+// The reverse of parseAmount, for loading stored amounts back into inputs
+export const formatAmountInput = (amount: number, currency: string): string => {
+  return fromMinorUnits(amount, currency).toFixed(getCurrencyDecimals(currency));
+};
+
+// Splits an integer amount in proportion to the weights so that the parts add up exactly.
+// Everyone first gets their share rounded down; the leftover minor units are then handed out
+// one at a time, in list order, to the entries with a weight above zero. So $100.00 split three
+// ways is $33.34, $33.33, $33.33, with the extra cent going to whoever is listed first.
+export const allocateAmount = (total: number, weights: number[]): number[] => {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+  if (totalWeight <= 0) {
+    return weights.map(() => 0);
+  }
+
+  const parts = weights.map(weight => Math.floor((total * weight) / totalWeight));
+  let remainder = total - parts.reduce((sum, part) => sum + part, 0);
+
+  for (let index = 0; remainder > 0; index = (index + 1) % weights.length) {
+    if (weights[index] > 0) {
+      parts[index] += 1;
+      remainder -= 1;
+    }
+  }
+
+  return parts;
 };
 
 // Formatting utilities
-export const formatCurrency = (amount: number): string => {
+export const formatCurrency = (amount: number, currency: string = DEFAULT_CURRENCY): string => {
   return new Intl.NumberFormat('en-US', {
     style: 'currency',
-    currency: 'USD'
-  }).format(amount);
+    currency
+  }).format(fromMinorUnits(amount, currency));
+};
+
+export const getCurrencySymbol = (currency: string): string => {
+  const parts = new Intl.NumberFormat('en-US', { style: 'currency', currency }).formatToParts(0);
+  return parts.find(part => part.type === 'currency')?.value || currency;
+};
+
+// Currency utilities
+export const DEFAULT_CURRENCY = 'USD';
+
+export const COMMON_CURRENCIES = [
+  'USD', 'EUR', 'GBP', 'CHF', 'JPY', 'CAD', 'AUD', 'NZD', 'SEK', 'NOK',
+  'DKK', 'PLN', 'CZK', 'HUF', 'CNY', 'INR', 'MXN', 'BRL', 'ZAR', 'THB'
+];
+
+export const isValidCurrencyCode = (code: string): boolean => {
+  if (!/^[A-Z]{3}$/.test(code)) return false;
+  try {
+    new Intl.NumberFormat('en-US', { style: 'currency', currency: code });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Value of one unit of the expense currency in the group's base currency, or null when unknown
+export const getExchangeRate = (
+  expense: Pick<Expense, 'currency' | 'exchangeRate'>,
+  settings: GroupSettings
+): number | null => {
+  if (expense.exchangeRate) return expense.exchangeRate;
+  if (expense.currency === settings.baseCurrency) return 1;
+  return settings.exchangeRates[expense.currency] ?? null;
+};
+
+// Converts minor units of the expense currency into minor units of the base currency
+export const toBaseCurrency = (
+  amount: number,
+  expense: Pick<Expense, 'currency' | 'exchangeRate'>,
+  settings: GroupSettings
+): number => {
+  // validateExpense rejects expenses without a rate, so the fallback only covers stale data
+  const rate = getExchangeRate(expense, settings) ?? 1;
+  return toMinorUnits(fromMinorUnits(amount, expense.currency) * rate, settings.baseCurrency);
+};
+
+export const countExpensesInCurrency = (expenses: Pick<Expense, 'currency' | 'exchangeRate'>[], currency: string): number => {
+  return expenses.filter(expense => expense.currency === currency && !expense.exchangeRate).length;
+};
+
+export const countPaymentsInCurrency = (payments: Payment[], currency: string): number => {
+  return payments.filter(payment => payment.currency === currency).length;
+};
+
+// A rate set on the expense itself is a value in the base currency it was entered against;
+// baseRate is one unit of that currency in the base currency of the given settings
+export const convertExpenseRate = <T extends Pick<Expense, 'currency' | 'exchangeRate'>>(
+  expense: T,
+  settings: GroupSettings,
+  baseRate: number
+): T => {
+  if (!expense.exchangeRate || baseRate === 1) return expense;
+  const converted: T = { ...expense, exchangeRate: expense.exchangeRate * baseRate };
+  // Amounts already in the base currency need no rate at all
+  if (converted.currency === settings.baseCurrency) {
+    delete (converted as Pick<Expense, 'exchangeRate'>).exchangeRate;
+  }
+  return converted;
+};
+
+// Rates are relative to the base currency, so the group's rates and those set on single expenses
+// and recurring templates are re-expressed against the new one. Without a rate for the new base
+// currency nothing can be converted and the rates are cleared; callers check that no amount
+// still needs them.
+export const changeBaseCurrency = (group: Group, currency: string): Group => {
+  const { baseCurrency, exchangeRates } = group.settings;
+  if (currency === baseCurrency) return group;
+
+  const pivotRate = exchangeRates[currency];
+  if (!pivotRate) {
+    return { ...group, settings: { ...group.settings, baseCurrency: currency, exchangeRates: {} } };
+  }
+
+  const settings: GroupSettings = {
+    ...group.settings,
+    baseCurrency: currency,
+    exchangeRates: Object.fromEntries([
+      [baseCurrency, 1 / pivotRate],
+      ...Object.entries(exchangeRates)
+        .filter(([code]) => code !== currency)
+        .map(([code, rate]) => [code, rate / pivotRate])
+    ])
+  };
+
+  return {
+    ...group,
+    settings,
+    expenses: group.expenses.map(expense => convertExpenseRate(expense, settings, 1 / pivotRate)),
+    recurringTemplates: group.recurringTemplates.map(template => ({
+      ...template,
+      expense: convertExpenseRate(template.expense, settings, 1 / pivotRate)
+    }))
+  };
 };
 
 export const formatDate = (dateString: string): string => {
@@ -64,8 +592,483 @@ export const formatDateOnly = (dateString: string): string => {
   });
 };
 
+// Value for an <input type="date">, in local time
+export const toDateInputValue = (dateString: string): string => {
+  const date = new Date(dateString);
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+// Turns a picked day back into a timestamp, keeping the current time of day so entries
+// recorded on the same day stay in the order they were added
+export const fromDateInputValue = (value: string): string => {
+  const [year, month, day] = value.split('-').map(Number);
+  const date = new Date();
+  date.setFullYear(year, month - 1, day);
+  return date.toISOString();
+};
+
+export const EMPTY_DATE_RANGE: DateRange = { from: '', to: '' };
+
+export const isDateInRange = (dateString: string, range: DateRange): boolean => {
+  // Input values sort the same way as the days they stand for
+  const day = toDateInputValue(dateString);
+  return (!range.from || day >= range.from) && (!range.to || day <= range.to);
+};
+
+export const filterByDateRange = <T extends { date: string }>(entries: T[], range: DateRange): T[] => {
+  if (!range.from && !range.to) return entries;
+  return entries.filter(entry => isDateInRange(entry.date, range));
+};
+
+export const describeDateRange = (range: DateRange): string => {
+  const format = (value: string) => formatDateOnly(fromDateInputValue(value));
+  if (range.from && range.to) return `${format(range.from)} – ${format(range.to)}`;
+  if (range.from) return `From ${format(range.from)}`;
+  if (range.to) return `Until ${format(range.to)}`;
+  return 'All dates';
+};
+
+// Expense list filters
+export const DEFAULT_EXPENSE_FILTERS: ExpenseFilters = {
+  search: '',
+  payerId: '',
+  involvedId: '',
+  minAmount: '',
+  maxAmount: '',
+  category: '',
+  sortBy: 'date',
+  sortDirection: 'asc'
+};
+
+export const EXPENSE_SORT_LABELS: Record<ExpenseSortKey, string> = {
+  date: 'Date',
+  amount: 'Amount',
+  description: 'Description',
+  category: 'Category'
+};
+
+// Whether anything narrows down the expenses, as opposed to only sorting them
+export const hasExpenseFilters = (filters: ExpenseFilters): boolean => {
+  return Boolean(
+    filters.search.trim() || filters.payerId || filters.involvedId ||
+    filters.minAmount || filters.maxAmount || filters.category
+  );
+};
+
+export const filterExpenses = (expenses: Expense[], filters: ExpenseFilters, settings: GroupSettings): Expense[] => {
+  if (!hasExpenseFilters(filters)) return expenses;
+
+  const search = filters.search.trim().toLowerCase();
+  const minAmount = filters.minAmount ? parseAmount(filters.minAmount, settings.baseCurrency) : null;
+  const maxAmount = filters.maxAmount ? parseAmount(filters.maxAmount, settings.baseCurrency) : null;
+
+  return expenses.filter(expense => {
+    if (search && !expense.description.toLowerCase().includes(search) &&
+      !expense.items?.some(item => item.description.toLowerCase().includes(search))) {
+      return false;
+    }
+    if (filters.payerId && !expense.payers.some(payer => payer.participantId === filters.payerId)) return false;
+    if (filters.involvedId && !expense.involved.includes(filters.involvedId)) return false;
+    if (filters.category && expense.category !== filters.category) return false;
+
+    const baseAmount = toBaseCurrency(expense.amount, expense, settings);
+    if (minAmount !== null && baseAmount < minAmount) return false;
+    if (maxAmount !== null && baseAmount > maxAmount) return false;
+    return true;
+  });
+};
+
+export const getExpenseSortValue = (expense: Expense, sortBy: ExpenseSortKey, settings: GroupSettings): string | number => {
+  switch (sortBy) {
+    case 'amount':
+      return toBaseCurrency(expense.amount, expense, settings);
+    case 'description':
+      return expense.description.toLowerCase();
+    case 'category':
+      return getCategory(settings, expense.category).name.toLowerCase();
+    default:
+      return new Date(expense.date).getTime();
+  }
+};
+
+// URL parameter names for the list state
+const FILTER_PARAMS: Record<keyof ExpenseFilters, string> = {
+  search: 'q',
+  payerId: 'payer',
+  involvedId: 'involved',
+  minAmount: 'min',
+  maxAmount: 'max',
+  category: 'category',
+  sortBy: 'sort',
+  sortDirection: 'dir'
+};
+
+const DATE_RANGE_PARAMS: Record<keyof DateRange, string> = {
+  from: 'from',
+  to: 'to'
+};
+
+// Anything malformed in the URL falls back to the default rather than breaking the list
+export const readExpenseFilters = (search: string): ExpenseFilters => {
+  const params = new URLSearchParams(search);
+  const read = (key: keyof ExpenseFilters) => params.get(FILTER_PARAMS[key])?.trim() || '';
+  const readAmount = (key: 'minAmount' | 'maxAmount') => {
+    const value = read(key);
+    return value && Number.isFinite(Number(value)) ? value : '';
+  };
+  const sortBy = read('sortBy');
+
+  return {
+    search: read('search'),
+    payerId: read('payerId'),
+    involvedId: read('involvedId'),
+    minAmount: readAmount('minAmount'),
+    maxAmount: readAmount('maxAmount'),
+    category: read('category'),
+    sortBy: Object.hasOwn(EXPENSE_SORT_LABELS, sortBy) ? sortBy as ExpenseSortKey : DEFAULT_EXPENSE_FILTERS.sortBy,
+    sortDirection: read('sortDirection') === 'desc' ? 'desc' : 'asc'
+  };
+};
+
+export const readDateRange = (search: string): DateRange => {
+  const params = new URLSearchParams(search);
+  const read = (key: keyof DateRange) => {
+    const value = params.get(DATE_RANGE_PARAMS[key]) || '';
+    return /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : '';
+  };
+  return { from: read('from'), to: read('to') };
+};
+
+// Replaces the list parameters in the current URL without adding a history entry.
+// Defaults are left out so an unfiltered list keeps a clean URL.
+export const writeListStateToUrl = (filters: ExpenseFilters, range: DateRange) => {
+  const url = new URL(window.location.href);
+  const setParam = (name: string, value: string, defaultValue = '') => {
+    if (value && value !== defaultValue) {
+      url.searchParams.set(name, value);
+    } else {
+      url.searchParams.delete(name);
+    }
+  };
+
+  (Object.keys(FILTER_PARAMS) as (keyof ExpenseFilters)[]).forEach(key => {
+    setParam(FILTER_PARAMS[key], filters[key], DEFAULT_EXPENSE_FILTERS[key]);
+  });
+  (Object.keys(DATE_RANGE_PARAMS) as (keyof DateRange)[]).forEach(key => {
+    setParam(DATE_RANGE_PARAMS[key], range[key]);
+  });
+
+  if (url.href !== window.location.href) {
+    window.history.replaceState(window.history.state, '', url);
+  }
+};
+
+// Category utilities
+export const DEFAULT_CATEGORY_ID = 'other';
+
+export const BUILT_IN_CATEGORIES: Category[] = [
+  { id: 'food', name: 'Food & drinks', color: '#f97316', icon: '🍽️' },
+  { id: 'groceries', name: 'Groceries', color: '#22c55e', icon: '🛒' },
+  { id: 'transport', name: 'Transport', color: '#3b82f6', icon: '🚗' },
+  { id: 'accommodation', name: 'Accommodation', color: '#8b5cf6', icon: '🏠' },
+  { id: 'entertainment', name: 'Entertainment', color: '#ec4899', icon: '🎉' },
+  { id: 'shopping', name: 'Shopping', color: '#eab308', icon: '🛍️' },
+  { id: 'utilities', name: 'Utilities', color: '#14b8a6', icon: '💡' },
+  { id: DEFAULT_CATEGORY_ID, name: 'Other', color: '#6b7280', icon: '📦' }
+];
+
+export const getCategories = (settings: GroupSettings): Category[] => {
+  return [...BUILT_IN_CATEGORIES, ...settings.categories];
+};
+
+// Expenses keep their category id when a custom category is removed, so fall back to "Other"
+export const getCategory = (settings: GroupSettings, categoryId: string): Category => {
+  const categories = getCategories(settings);
+  return categories.find(category => category.id === categoryId)
+    || categories.find(category => category.id === DEFAULT_CATEGORY_ID)!;
+};
+
+export const validateCategoryName = (name: string, categories: Category[]): string | null => {
+  const trimmedName = name.trim();
+
+  if (!trimmedName) {
+    return 'Please enter a category name';
+  }
+
+  if (categories.some(category => category.name.toLowerCase() === trimmedName.toLowerCase())) {
+    return 'A category with this name already exists';
+  }
+
+  return null;
+};
+
+export const countExpensesInCategory = (expenses: Expense[], categoryId: string): number => {
+  return expenses.filter(expense => expense.category === categoryId).length;
+};
+
+// Recurring expense utilities
+export const RECURRENCE_LABELS: Record<RecurrenceFrequency, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  yearly: 'Yearly'
+};
+
+// Date of the occurrence with the given index, counting the start as 0. Monthly and yearly
+// schedules keep the start's day of the month, moved back in shorter months (Jan 31 -> Feb 28).
+export const getOccurrenceDate = (startDate: string, frequency: RecurrenceFrequency, index: number): string => {
+  const start = new Date(startDate);
+  const date = new Date(start);
+
+  if (frequency === 'daily' || frequency === 'weekly') {
+    date.setDate(start.getDate() + index * (frequency === 'weekly' ? 7 : 1));
+    return date.toISOString();
+  }
+
+  const months = index * (frequency === 'yearly' ? 12 : 1);
+  date.setDate(1);
+  date.setMonth(start.getMonth() + months);
+  const daysInMonth = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+  date.setDate(Math.min(start.getDate(), daysInMonth));
+  return date.toISOString();
+};
+
+// The next occurrence still to come, or null once the schedule has run out
+export const getNextOccurrence = (template: RecurringTemplate): string | null => {
+  if (template.maxOccurrences !== undefined && template.occurrenceCount >= template.maxOccurrences) {
+    return null;
+  }
+
+  const next = getOccurrenceDate(template.startDate, template.frequency, template.occurrenceCount);
+  if (template.endDate && toDateInputValue(next) > toDateInputValue(template.endDate)) {
+    return null;
+  }
+  return next;
+};
+
+const isDue = (date: string, now: Date): boolean => toDateInputValue(date) <= toDateInputValue(now.toISOString());
+
+// Creates the expenses for every occurrence due by now. Paused templates generate nothing.
+export const generateDueExpenses = (
+  template: RecurringTemplate,
+  now: Date
+): { template: RecurringTemplate; expenses: Expense[] } => {
+  const expenses: Expense[] = [];
+  let current = template;
+  let next = getNextOccurrence(current);
+
+  while (!current.paused && next && isDue(next, now)) {
+    expenses.push({
+      ...structuredClone(current.expense),
+      // Every device that syncs the group generates the same occurrence, so it gets the same id
+      id: `${current.id}-${current.occurrenceCount}`,
+      date: next,
+      createdAt: now.toISOString(),
+      recurringTemplateId: current.id
+    });
+    current = { ...current, occurrenceCount: current.occurrenceCount + 1 };
+    next = getNextOccurrence(current);
+  }
+
+  return { template: current, expenses };
+};
+
+// Catches a group up on all of its recurring templates; returns the group itself when nothing was due
+export const applyRecurringTemplates = (group: Group, now: Date): Group => {
+  const generated: Expense[] = [];
+  const recurringTemplates = group.recurringTemplates.map(template => {
+    const result = generateDueExpenses(template, now);
+    generated.push(...result.expenses);
+    return result.template;
+  });
+
+  if (generated.length === 0) {
+    return group;
+  }
+  return { ...group, recurringTemplates, expenses: [...group.expenses, ...generated] };
+};
+
+export const skipNextOccurrence = (template: RecurringTemplate): RecurringTemplate => {
+  if (!getNextOccurrence(template)) return template;
+  return { ...template, occurrenceCount: template.occurrenceCount + 1 };
+};
+
+// Occurrences that fell due while paused are skipped rather than generated all at once;
+// one due today is kept
+export const resumeTemplate = (template: RecurringTemplate, now: Date): RecurringTemplate => {
+  const today = toDateInputValue(now.toISOString());
+  let current = { ...template, paused: false };
+  let next = getNextOccurrence(current);
+
+  while (next && toDateInputValue(next) < today) {
+    current = { ...current, occurrenceCount: current.occurrenceCount + 1 };
+    next = getNextOccurrence(current);
+  }
+  return current;
+};
+
+export const describeRecurrence = (template: RecurringTemplate): string => {
+  const parts = [RECURRENCE_LABELS[template.frequency]];
+  if (template.endDate) {
+    parts.push(`until ${formatDateOnly(template.endDate)}`);
+  }
+  if (template.maxOccurrences !== undefined) {
+    parts.push(`${template.occurrenceCount} of ${template.maxOccurrences}`);
+  }
+  return parts.join(' · ');
+};
+
+export const validateRecurrence = (
+  startDate: string,
+  endDate: string | undefined,
+  maxOccurrences: number | undefined
+): string[] => {
+  const errors: string[] = [];
+
+  if (endDate && toDateInputValue(endDate) < toDateInputValue(startDate)) {
+    errors.push('The repeat end date must be on or after the expense date');
+  }
+
+  if (maxOccurrences !== undefined && (!Number.isInteger(maxOccurrences) || maxOccurrences < 1)) {
+    errors.push('Number of repeats must be a whole number of at least 1');
+  }
+
+  return errors;
+};
+
+// Participant utilities
+export const getParticipantName = (participants: Participant[], participantId: string): string => {
+  return participants.find(participant => participant.id === participantId)?.name || 'Unknown participant';
+};
+
+export const renameParticipant = (participants: Participant[], participantId: string, name: string): Participant[] => {
+  return participants.map(participant =>
+    participant.id === participantId ? { ...participant, name: name.trim() } : participant
+  );
+};
+
+// "Alice" for a single payer, "Alice $60.00, Bob $40.00" when several people paid
+export const formatPayers = (
+  participants: Participant[],
+  payers: ExpensePayer[],
+  currency: string = DEFAULT_CURRENCY
+): string => {
+  if (payers.length === 1) {
+    return getParticipantName(participants, payers[0].participantId);
+  }
+
+  return payers
+    .map(payer => `${getParticipantName(participants, payer.participantId)} ${formatCurrency(payer.amount, currency)}`)
+    .join(', ');
+};
+
+// Combines entries for the same participant, e.g. after a reassignment
+export const mergePayers = (payers: ExpensePayer[]): ExpensePayer[] => {
+  const merged = new Map<string, number>();
+  payers.forEach(payer => merged.set(payer.participantId, (merged.get(payer.participantId) || 0) + payer.amount));
+  return Array.from(merged.entries()).map(([participantId, amount]) => ({ participantId, amount }));
+};
+
+export const countParticipantExpenses = (expenses: Pick<Expense, 'payers' | 'involved'>[], participantId: string): number => {
+  return expenses.filter(
+    expense =>
+      expense.payers.some(payer => payer.participantId === participantId) ||
+      expense.involved.includes(participantId)
+  ).length;
+};
+
+export const countParticipantPayments = (payments: Payment[], participantId: string): number => {
+  return payments.filter(payment => payment.from === participantId || payment.to === participantId).length;
+};
+
+// Settlement rules of a removed participant. When they are merged into a duplicate, their
+// household and blocked transfers carry over (the duplicate keeps its own household if it has
+// one); when their history is only reassigned, the rules are dropped with them.
+export const reassignParticipantRules = (settings: GroupSettings, fromId: string, toId: string | null): GroupSettings => {
+  const { [fromId]: household, ...households } = settings.households;
+  if (toId && household && !households[toId]) {
+    households[toId] = household;
+  }
+
+  const seen = new Set<string>();
+  const blockedTransfers = settings.blockedTransfers
+    .flatMap(transfer => {
+      if (transfer.from !== fromId && transfer.to !== fromId) return [transfer];
+      if (!toId) return [];
+      return [{ from: transfer.from === fromId ? toId : transfer.from, to: transfer.to === fromId ? toId : transfer.to }];
+    })
+    .filter(transfer => {
+      const key = `${transfer.from}>${transfer.to}`;
+      if (transfer.from === transfer.to || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+  return { ...settings, households, blockedTransfers };
+};
+
+// Moves recorded payments along with a reassigned participant. A payment between the two
+// people involved no longer moves money between anyone, so it is dropped.
+export const reassignParticipantPayments = (payments: Payment[], fromId: string, toId: string): Payment[] => {
+  return payments
+    .map(payment => ({
+      ...payment,
+      from: payment.from === fromId ? toId : payment.from,
+      to: payment.to === fromId ? toId : payment.to
+    }))
+    .filter(payment => payment.from !== payment.to);
+};
+
+// Hands every payment and share of one participant over to another. The target takes over the
+// exact share, so other participants' balances are untouched and the group still sums to zero.
+// Also works on the expense part of recurring templates.
+export const reassignParticipantExpenses = <T extends RecurringTemplate['expense']>(
+  expenses: T[],
+  fromId: string,
+  toId: string
+): T[] => {
+  return expenses.map(expense => {
+    const isPayer = expense.payers.some(payer => payer.participantId === fromId);
+    if (!isPayer && !expense.involved.includes(fromId)) {
+      return expense;
+    }
+
+    const payers = mergePayers(expense.payers.map(payer => (
+      payer.participantId === fromId ? { ...payer, participantId: toId } : payer
+    )));
+
+    if (!expense.involved.includes(fromId)) {
+      return { ...expense, payers };
+    }
+
+    const replaceId = (ids: string[]) => Array.from(new Set(ids.map(id => (id === fromId ? toId : id))));
+    const involved = replaceId(expense.involved);
+    const items = expense.items?.map(item => ({ ...item, involved: replaceId(item.involved) }));
+    const bothInvolved = expense.involved.includes(toId);
+
+    // An equal split can't express one person holding two seats, so switch to weights
+    const splitMode: SplitMode = expense.splitMode === 'equal' && bothInvolved ? 'shares' : expense.splitMode;
+    const sourceValues: Record<string, number> = splitMode === 'shares' && expense.splitMode === 'equal'
+      ? Object.fromEntries(expense.involved.map(id => [id, 1]))
+      : expense.splitValues;
+
+    const splitValues: Record<string, number> = {};
+    Object.entries(sourceValues).forEach(([id, value]) => {
+      const targetId = id === fromId ? toId : id;
+      splitValues[targetId] = (splitValues[targetId] || 0) + value;
+    });
+
+    return { ...expense, payers, involved, splitMode, splitValues, ...(items && { items }) };
+  });
+};
+
 // Validation utilities
-export const validateParticipantName = (name: string, existingParticipants: Participant[]): string | null => {
+export const validateParticipantName = (
+  name: string,
+  existingParticipants: Participant[],
+  ignoreParticipantId?: string
+): string | null => {
   const trimmedName = name.trim();
   
   if (!trimmedName) {
@@ -73,7 +1076,9 @@ export const validateParticipantName = (name: string, existingParticipants: Part
   }
 
   const isDuplicate = existingParticipants.some(
-    participant => participant.name.toLowerCase() === trimmedName.toLowerCase()
+    participant =>
+      participant.id !== ignoreParticipantId &&
+      participant.name.toLowerCase() === trimmedName.toLowerCase()
   );
 
   if (isDuplicate) {
@@ -83,8 +1088,9 @@ export const validateParticipantName = (name: string, existingParticipants: Part
   return null;
 };
 
-export const validateExpense = (expense: Partial<Expense>): string[] => {
+export const validateExpense = (expense: Partial<Expense>, settings?: GroupSettings): string[] => {
   const errors: string[] = [];
+  const currency = expense.currency || settings?.baseCurrency || DEFAULT_CURRENCY;
 
   if (!expense.description?.trim()) {
     errors.push('Description is required');
@@ -92,52 +1098,393 @@ export const validateExpense = (expense: Partial<Expense>): string[] => {
 
   if (!expense.amount || expense.amount <= 0) {
     errors.push('Amount must be greater than 0');
+  } else if (!Number.isInteger(expense.amount)) {
+    errors.push('Amount must be a whole number of minor units');
   }
 
-  if (!expense.payer) {
+  if (!expense.date || Number.isNaN(new Date(expense.date).getTime())) {
+    errors.push('Please enter a valid date');
+  }
+
+  if (!expense.payers || expense.payers.length === 0) {
     errors.push('Please select a payer');
+  } else if (expense.payers.length > 1) {
+    errors.push(...validatePayers(expense.payers, expense.amount || 0, currency));
   }
 
   if (!expense.involved || expense.involved.length === 0) {
     errors.push('At least one participant must be involved');
+  } else if (expense.splitMode === 'itemized') {
+    errors.push(...validateItemized(expense.items || [], expense.charges, expense.amount || 0));
+  } else if (expense.splitMode && expense.splitMode !== 'equal') {
+    errors.push(...validateSplit(expense.splitMode, expense.splitValues || {}, expense.involved, expense.amount || 0, currency));
+  }
+
+  if (expense.exchangeRate !== undefined && (!Number.isFinite(expense.exchangeRate) || expense.exchangeRate <= 0)) {
+    errors.push('Exchange rate must be greater than 0');
+  } else if (settings && getExchangeRate({ currency, exchangeRate: expense.exchangeRate }, settings) === null) {
+    errors.push(`Enter an exchange rate from ${currency} to ${settings.baseCurrency}`);
+  }
+
+  return errors;
+};
+
+export const validatePayment = (payment: Partial<Payment>, participants: Participant[]): string[] => {
+  const errors: string[] = [];
+  const participantIds = participants.map(participant => participant.id);
+
+  if (!payment.from || !payment.to || !participantIds.includes(payment.from) || !participantIds.includes(payment.to)) {
+    errors.push('Please choose who paid and who received the payment');
+  } else if (payment.from === payment.to) {
+    errors.push('A payment needs two different participants');
+  }
+
+  if (!payment.amount || !Number.isInteger(payment.amount) || payment.amount <= 0) {
+    errors.push('Amount must be greater than 0');
+  }
+
+  if (!payment.date || Number.isNaN(new Date(payment.date).getTime())) {
+    errors.push('Please enter a valid date');
+  }
+
+  return errors;
+};
+
+const validatePayers = (payers: ExpensePayer[], amount: number, currency: string): string[] => {
+  if (payers.some(payer => !Number.isInteger(payer.amount) || payer.amount <= 0)) {
+    return ['Each payer must have paid more than 0'];
+  }
+
+  const total = payers.reduce((sum, payer) => sum + payer.amount, 0);
+  if (total !== amount) {
+    return [`Payers paid ${formatCurrency(total, currency)} in total instead of ${formatCurrency(amount, currency)}`];
+  }
+
+  return [];
+};
+
+const validateItemized = (items: ExpenseItem[], charges: ExpenseCharges | undefined, amount: number): string[] => {
+  const errors: string[] = [];
+
+  if (items.length === 0) {
+    return ['Add at least one item'];
+  }
+
+  items.forEach((item, index) => {
+    const label = item.description.trim() || `Item ${index + 1}`;
+    if (!Number.isInteger(item.amount) || item.amount <= 0) {
+      errors.push(`${label}: amount must be greater than 0`);
+    }
+    if (item.involved.length === 0) {
+      errors.push(`${label}: select at least one participant`);
+    }
+  });
+
+  if (charges && Object.values(charges).some(charge => !Number.isInteger(charge) || charge < 0)) {
+    errors.push('Tax, tip and service charge cannot be negative');
+  }
+
+  if (errors.length === 0 && getItemizedTotals(items, charges).total !== amount) {
+    errors.push('Items and charges do not add up to the expense amount');
   }
 
   return errors;
 };
 
+const validateSplit = (
+  splitMode: SplitMode,
+  splitValues: Record<string, number>,
+  involved: string[],
+  amount: number,
+  currency: string
+): string[] => {
+  const values = involved.map(id => splitValues[id] || 0);
+
+  if (values.some(value => !Number.isFinite(value) || value < 0)) {
+    return ['Split values cannot be negative'];
+  }
+
+  const total = values.reduce((sum, value) => sum + value, 0);
+
+  if (splitMode === 'exact' && values.some(value => !Number.isInteger(value))) {
+    return ['Split amounts must be whole minor units'];
+  }
+
+  if (splitMode === 'exact' && total !== amount) {
+    return [`Split amounts add up to ${formatCurrency(total, currency)} instead of ${formatCurrency(amount, currency)}`];
+  }
+
+  if (splitMode === 'percentage' && Math.abs(total - 100) >= 0.005) {
+    return [`Percentages add up to ${roundToTwoDecimals(total)}% instead of 100%`];
+  }
+
+  if (splitMode === 'shares' && total <= 0) {
+    return ['At least one participant needs a share greater than 0'];
+  }
+
+  return [];
+};
+
+// Settlement utilities
+export const SETTLEMENT_STRATEGY_LABELS: Record<SettlementStrategy, string> = {
+  minimal: 'Fewest transfers',
+  pairwise: 'Pairwise only',
+  hub: 'Through a treasurer'
+};
+
+// One line per strategy and constraint, for the settlement plan and exported reports
+export const describeSettlementRules = (settings: GroupSettings, participants: Participant[]): string[] => {
+  const lines: string[] = [];
+
+  if (settings.settlementStrategy === 'hub' && settings.treasurerId) {
+    lines.push(`${SETTLEMENT_STRATEGY_LABELS.hub}: ${getParticipantName(participants, settings.treasurerId)}`);
+  } else {
+    lines.push(SETTLEMENT_STRATEGY_LABELS[settings.settlementStrategy]);
+  }
+
+  settings.blockedTransfers.forEach(transfer => {
+    lines.push(`${getParticipantName(participants, transfer.from)} can't send to ${getParticipantName(participants, transfer.to)}`);
+  });
+
+  if (settings.preferSameHousehold) {
+    lines.push('Prefer transfers within the same household');
+  }
+
+  return lines;
+};
+
+// Split utilities
+export const SPLIT_MODE_LABELS: Record<SplitMode, string> = {
+  equal: 'Equally',
+  exact: 'Exact amounts',
+  percentage: 'Percentages',
+  shares: 'Shares',
+  itemized: 'Itemized'
+};
+
+export const getItemizedTotals = (items: ExpenseItem[], charges?: ExpenseCharges) => {
+  const subtotal = items.reduce((sum, item) => sum + item.amount, 0);
+  const extras = charges ? charges.tax + charges.tip + charges.service : 0;
+  return { subtotal, extras, total: subtotal + extras };
+};
+
+// Item subtotals per person, with tax, tip and service spread pro rata
+const calculateItemizedShares = (items: ExpenseItem[], charges?: ExpenseCharges): Map<string, number> => {
+  const shares = new Map<string, number>();
+  const { extras } = getItemizedTotals(items, charges);
+
+  items.forEach(item => {
+    const parts = allocateAmount(item.amount, item.involved.map(() => 1));
+    item.involved.forEach((id, index) => shares.set(id, (shares.get(id) || 0) + parts[index]));
+  });
+
+  if (extras > 0) {
+    const subtotals = Array.from(shares.entries());
+    const extraParts = allocateAmount(extras, subtotals.map(([, subtotal]) => subtotal));
+    subtotals.forEach(([id, subtotal], index) => shares.set(id, subtotal + extraParts[index]));
+  }
+
+  return shares;
+};
+
+// Parses raw split inputs from the expense form, keeping the involved participants only.
+// Exact amounts become minor units; percentages and share weights are kept as entered.
+export const parseSplitValues = (
+  values: Record<string, string>,
+  involved: string[],
+  splitMode: SplitMode,
+  currency: string
+): Record<string, number> => {
+  const parsed: Record<string, number> = {};
+  involved.forEach(id => {
+    parsed[id] = splitMode === 'exact' ? parseAmount(values[id] || '', currency) : parseFloat(values[id]) || 0;
+  });
+  return parsed;
+};
+
+// What each involved participant owes for a single expense, in minor units. Shares always add
+// up to the expense amount; see allocateAmount for who gets the leftover cents.
+export const calculateExpenseShares = (expense: Expense): Map<string, number> => {
+  const { amount, involved, splitValues } = expense;
+
+  if (involved.length === 0) {
+    return new Map();
+  }
+
+  let parts: number[];
+  switch (expense.splitMode) {
+    case 'exact':
+      parts = involved.map(id => splitValues[id] || 0);
+      break;
+    case 'percentage':
+    case 'shares':
+      parts = allocateAmount(amount, involved.map(id => splitValues[id] || 0));
+      break;
+    case 'itemized':
+      return calculateItemizedShares(expense.items || [], expense.charges);
+    default:
+      parts = allocateAmount(amount, involved.map(() => 1));
+  }
+
+  return new Map(involved.map((id, index) => [id, parts[index]]));
+};
+
 // Calculation utilities
-export const calculateParticipantStats = (participants: Participant[], expenses: Expense[]) => {
-  const statsMap = new Map<string, { totalPaid: number; totalOwed: number }>();
+// Totals are in minor units of the group's base currency. Each expense is converted once and
+// then split again, so converted payments and shares still cancel out exactly.
+export const calculateParticipantStats = (
+  participants: Participant[],
+  expenses: Expense[],
+  settings: GroupSettings,
+  payments: Payment[] = []
+) => {
+  const statsMap = new Map<string, { totalPaid: number; totalOwed: number; totalSent: number; totalReceived: number }>();
 
-  // Initialize stats
+  // Initialize stats, keyed by participant id
   participants.forEach(participant => {
-    statsMap.set(participant.name, { totalPaid: 0, totalOwed: 0 });
+    statsMap.set(participant.id, { totalPaid: 0, totalOwed: 0, totalSent: 0, totalReceived: 0 });
   });
 
   // Process expenses
   expenses.forEach(expense => {
-    const amount = expense.amount;
-    const involvedCount = expense.involved.length;
-    const sharePerPerson = amount / involvedCount;
-
-    // Credit payer
-    const payerStats = statsMap.get(expense.payer);
-    if (payerStats) {
-      payerStats.totalPaid += amount;
-    }
+    const baseAmount = toBaseCurrency(expense.amount, expense, settings);
+
+    // Credit payers
+    const paid = allocateAmount(baseAmount, expense.payers.map(payer => payer.amount));
+    expense.payers.forEach((payer, index) => {
+      const payerStats = statsMap.get(payer.participantId);
+      if (payerStats) {
+        payerStats.totalPaid += paid[index];
+      }
+    });
 
     // Debit involved participants
-    expense.involved.forEach(participantName => {
-      const participantStats = statsMap.get(participantName);
+    const shares = Array.from(calculateExpenseShares(expense).entries());
+    const owed = allocateAmount(baseAmount, shares.map(([, share]) => share));
+    shares.forEach(([participantId], index) => {
+      const participantStats = statsMap.get(participantId);
       if (participantStats) {
-        participantStats.totalOwed += sharePerPerson;
+        participantStats.totalOwed += owed[index];
       }
     });
   });
 
+  // Settle-up payments move balances without counting as spending
+  payments.forEach(payment => {
+    const sender = statsMap.get(payment.from);
+    const receiver = statsMap.get(payment.to);
+    if (!sender || !receiver) return;
+
+    const amount = toBaseCurrency(payment.amount, payment, settings);
+    sender.totalSent += amount;
+    receiver.totalReceived += amount;
+  });
+
   return statsMap;
 };
 
+export interface CategoryBreakdown {
+  category: Category;
+  total: number;
+  byParticipant: Map<string, number>; // participant id -> their share
+}
+
+// What each category cost the group and each participant, in base currency minor units.
+// Participants are charged their share of an expense, not what they paid for it.
+export const calculateCategoryBreakdown = (expenses: Expense[], settings: GroupSettings): CategoryBreakdown[] => {
+  const breakdowns = new Map<string, CategoryBreakdown>();
+
+  expenses.forEach(expense => {
+    const category = getCategory(settings, expense.category);
+    const breakdown = breakdowns.get(category.id) || { category, total: 0, byParticipant: new Map<string, number>() };
+    const baseAmount = toBaseCurrency(expense.amount, expense, settings);
+    const shares = Array.from(calculateExpenseShares(expense).entries());
+    const owed = allocateAmount(baseAmount, shares.map(([, share]) => share));
+
+    breakdown.total += baseAmount;
+    shares.forEach(([participantId], index) => {
+      breakdown.byParticipant.set(participantId, (breakdown.byParticipant.get(participantId) || 0) + owed[index]);
+    });
+    breakdowns.set(category.id, breakdown);
+  });
+
+  return Array.from(breakdowns.values()).sort((a, b) => b.total - a.total);
+};
+
+// Splits an integer total over rows and columns so that every row and column adds up exactly.
+// Cells start proportional and rounded down; the leftover units are then filled in row by row.
+const allocateMatrix = (rowTotals: number[], columnTotals: number[]): number[][] => {
+  const total = columnTotals.reduce((sum, value) => sum + value, 0);
+  const cells = rowTotals.map(row => columnTotals.map(column => (total > 0 ? Math.floor((row * column) / total) : 0)));
+  const rowsLeft = rowTotals.map((row, i) => row - cells[i].reduce((sum, cell) => sum + cell, 0));
+  const columnsLeft = columnTotals.map((column, j) => column - cells.reduce((sum, rowCells) => sum + rowCells[j], 0));
+
+  let j = 0;
+  rowsLeft.forEach((_, i) => {
+    while (rowsLeft[i] > 0 && j < columnsLeft.length) {
+      if (columnsLeft[j] <= 0) {
+        j++;
+        continue;
+      }
+      const units = Math.min(rowsLeft[i], columnsLeft[j]);
+      cells[i][j] += units;
+      rowsLeft[i] -= units;
+      columnsLeft[j] -= units;
+    }
+  });
+
+  return cells;
+};
+
+// Who owes whom directly, netted per pair. Each share of an expense is owed to its payers in
+// proportion to what they paid, and a payment cancels out debt between the two people involved.
+// Per person these add up to the same balances as calculateParticipantStats.
+export const calculatePairwiseDebts = (
+  expenses: Expense[],
+  settings: GroupSettings,
+  payments: Payment[] = []
+): Settlement[] => {
+  const owed = new Map<string, Map<string, number>>();
+
+  const addDebt = (from: string, to: string, amount: number) => {
+    if (from === to || amount === 0) return;
+    const debts = owed.get(from) || new Map<string, number>();
+    debts.set(to, (debts.get(to) || 0) + amount);
+    owed.set(from, debts);
+  };
+
+  expenses.forEach(expense => {
+    const baseAmount = toBaseCurrency(expense.amount, expense, settings);
+    const shares = Array.from(calculateExpenseShares(expense).entries());
+    const owedParts = allocateAmount(baseAmount, shares.map(([, share]) => share));
+    const paidParts = allocateAmount(baseAmount, expense.payers.map(payer => payer.amount));
+    const cells = allocateMatrix(owedParts, paidParts);
+
+    shares.forEach(([participantId], i) => {
+      expense.payers.forEach((payer, j) => addDebt(participantId, payer.participantId, cells[i][j]));
+    });
+  });
+
+  payments.forEach(payment => addDebt(payment.to, payment.from, toBaseCurrency(payment.amount, payment, settings)));
+
+  const debts: Settlement[] = [];
+  owed.forEach((creditors, from) => {
+    creditors.forEach((amount, to) => {
+      const net = amount - (owed.get(to)?.get(from) || 0);
+      if (net > 0) {
+        debts.push({ from, to, amount: net });
+      }
+    });
+  });
+
+  return debts;
+};
+
+// Positive when the group owes the participant money
+export const getNetBalance = (stats: { totalPaid: number; totalOwed: number; totalSent: number; totalReceived: number }): number => {
+  return stats.totalPaid - stats.totalOwed + stats.totalSent - stats.totalReceived;
+};
+
 export const roundToTwoDecimals = (amount: number): number => {
   return Math.round(amount * 100) / 100;
 }; 
\ No newline at end of file